@@ -1,78 +1,494 @@
-import { App } from '@slack/bolt';
+import { App, BlockAction, ButtonAction, MessageShortcut, StaticSelectAction, webApi } from '@slack/bolt';
+import { promises as fs } from 'fs';
+import crypto from 'crypto';
 import dotenv from 'dotenv';
+import path from 'path';
 import { Logger, LogLevel } from '@slack/logger';
 import {
-  encodeTimestampToZeroWidth
+  encodeFramedZeroWidth,
+  findFramedZeroWidth
 } from './zero-width-encoding';
+import {
+  ThreadKeys,
+  ThreadMap,
+  MessageCopy,
+  RelayedMessage,
+  RelayedMessageRef,
+  ConversationStore,
+  MemoryConversationStore,
+  FileConversationStore
+} from './conversation-store';
+import { applyReaction, renderRelayedMessage } from './reactions';
+import { Room, RoomDirectory, parseRoomPrefix } from './rooms';
+import { ChannelDirectory, ChannelInfo, parseChannelRef, parseMessagePermalink } from './channels';
+import { loadPseudonymSecret, getPseudonymKey, pickPseudonym } from './pseudonyms';
+import { RoomSettingsStore } from './room-settings';
+import { RateLimiter, RateLimitOptions, RateLimitResult, formatRetryAfter } from './rate-limit';
+import { DeliveryEngine, DeliveryOptions, DeliveryReport, isRetryableError } from './delivery';
+import {
+  DeliveryQueue,
+  ScheduledDelivery,
+  ScheduledPayload,
+  getJitteredDelay,
+  shuffle
+} from './scheduler';
+import {
+  Poll,
+  PollStore,
+  buildPollBlocks,
+  isPollRequest,
+  parsePollRequest
+} from './polls';
+import {
+  QaSession,
+  QaQuestion,
+  QaStore,
+  buildQuestionBlocks,
+  getQaQuestionText,
+  isQaQuestion,
+  rankQuestions
+} from './qa';
+import {
+  DigestItem,
+  PreferencesStore,
+  formatTimeOfDay,
+  getConversationCode,
+  parseQuietHours
+} from './preferences';
+import {
+  EscrowStore,
+  RevealRequest,
+  loadEscrowPublicKey,
+  getKeyFingerprint,
+  openSealedSender,
+  parseShare,
+  recoverPrivateKey,
+  sealSender
+} from './escrow';
+import { HomeConversation, buildHomeView, buildNewPostModal } from './home';
+import { TranscriptFormat, TranscriptStore, formatTranscript, getMentionedUserIds } from './transcripts';
+import {
+  SenderIdentity,
+  findIdentifyingContent,
+  findMentionedUserIds,
+  neutralizeBroadcasts,
+  renderMentionsAsNames
+} from './sanitize';
+import { JsonInstallationStore, getWorkspaceId } from './installations';
+import { WriteQueue } from './persistence';
+import { ConfigError, loadConfig } from './config';
+import {
+  RuntimeSettings,
+  SETTING_DEFINITIONS,
+  SettingsStore,
+  findSetting,
+  formatSettingValue,
+  getEscrowAdmins
+} from './settings';
+import { WorkspaceRegistry } from './workspaces';
+import {
+  AttachmentPolicy,
+  PreparedAttachment,
+  DEFAULT_ALLOWED_TYPES,
+  checkAttachment,
+  downloadFile,
+  getAnonymousFilename,
+  stripMetadata
+} from './attachments';
+import {
+  ModerationRules,
+  ModerationQueue,
+  HeldMessage,
+  parseBlocklist,
+  checkMessage
+} from './moderation';
 
 // Load environment variables
 dotenv.config();
 
+// Load and check the configuration before anything else
+const config = (() => {
+  try {
+    return loadConfig();
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      console.error(`❌ ${error.message}`);
+      process.exit(1);
+    }
+    throw error;
+  }
+})();
+
 // Configuration constants
-const MAX_CONVERSATION_HISTORY = 100; // Maximum number of conversations to keep in memory
+const DATA_DIR = config.dataDir;
+const CONVERSATION_TTL_DAYS = config.conversationTtlDays; // Idle conversations older than this stop taking replies
+const CONVERSATION_TTL_MS = CONVERSATION_TTL_DAYS * 24 * 60 * 60 * 1000;
+const CONVERSATION_RETENTION_DAYS = config.conversationRetentionDays; // Idle conversations older than this are forgotten
+const CONVERSATION_RETENTION_MS = CONVERSATION_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+
+// With a client ID the app is distributed with OAuth and serves every workspace that installs it;
+// otherwise it runs in the single workspace of SLACK_BOT_TOKEN
+const OAUTH_ENABLED = Boolean(config.slack.clientId);
+const SINGLE_WORKSPACE_ID = 'default';
+const BOT_SCOPES = [
+  'channels:history', 'channels:join', 'channels:read', 'chat:write', 'commands',
+  'files:read', 'files:write', 'groups:history', 'groups:read', 'groups:write',
+  'im:history', 'im:read', 'im:write', 'reactions:read', 'users:read'
+];
+
+// Admins and the escrow key are runtime settings, since each workspace has its own
+const ESCROW_APPROVALS = config.escrow.approvals; // Admins who must approve a reveal
+const ESCROW_RETENTION_MS = config.escrow.retentionDays * 24 * 60 * 60 * 1000;
+const REVEAL_REQUEST_TTL_MS = 24 * 60 * 60 * 1000;
+const CONFIRMATION_TTL_MS = 15 * 60 * 1000;
+const UNDO_WINDOW_MS = config.delivery.undoSeconds * 1000;
+
+// Content log for exporting transcripts; a retention of 0 days means nothing is logged
+const TRANSCRIPT_RETENTION_MS = config.transcripts.retentionDays * 24 * 60 * 60 * 1000;
+
+// Actions shown under every anonymous copy
+const REPORT_ACTIONS_BLOCK = {
+  type: "actions",
+  block_id: "anonymous_actions",
+  elements: [
+    {
+      type: "button",
+      action_id: "report_message",
+      text: {
+        type: "plain_text",
+        text: "Report"
+      },
+      value: "report"
+    },
+    {
+      type: "button",
+      action_id: "mute_conversation",
+      text: {
+        type: "plain_text",
+        text: "Mute conversation"
+      },
+      value: "mute"
+    }
+  ]
+};
+
+/**
+ * A message held until its sender confirms it, for a preview or because it looked like it identifies them
+ */
+interface PendingConfirmation {
+  userId: string;
+  createdAt: number;
+  // Sends the message as if it had passed the check
+  send: () => Promise<void>;
+  // The DM it came from, so an edit can hold it again with the new text
+  held?: UnconfirmedMessage;
+}
+
+/**
+ * A DM waiting for its sender to confirm it, and the room it goes to
+ */
+interface UnconfirmedMessage {
+  msg: any;
+  room: Room;
+}
+
+/**
+ * Pending re-render of a message's copies
+ */
+interface CopyRefresh {
+  queue: WriteQueue;
+  // Set until the refresh reads the latest state
+  scheduled: Promise<void> | null;
+}
 
-// Types for better type safety
-interface ThreadMap extends Map<string, string> {}
-interface MessageThreadMap extends Map<string, ThreadMap> {}
+/**
+ * Everything the bot keeps for one workspace
+ */
+interface Workspace {
+  dataDir: string;
+  // Settings changed at runtime with '/54y admin', and who changed them
+  settings: SettingsStore;
+  // Storage for tracking message and thread relationships
+  // Maps conversation ID to a map of user IDs to their thread timestamps
+  conversationStore: ConversationStore;
+  // Messages held for admin review
+  moderationQueue: ModerationQueue;
+  // Anonymous polls and their votes
+  pollStore: PollStore;
+  // Q&A sessions and their questions
+  qaStore: QaStore;
+  // Coalesces re-renders of a message's copies while votes are coming in
+  copyRefreshes: Map<string, CopyRefresh>;
+  // Recipients' mutes, opt-outs, quiet hours and held digests
+  preferencesStore: PreferencesStore;
+  // Sealed senders and the log of reveals
+  escrowStore: EscrowStore;
+  // What was relayed in each conversation, for exports
+  transcriptStore: TranscriptStore;
+  // Reveals waiting for admin approval - kept in memory only, like the shares they collect
+  revealRequests: Map<string, RevealRequest>;
+  // Messages waiting for their sender to confirm them - kept in memory only
+  confirmations: Map<string, PendingConfirmation>;
+  // Messages waiting for delayed delivery
+  deliveryQueue: DeliveryQueue;
+  // Per-room settings such as pseudonyms
+  roomSettings: RoomSettingsStore;
+  // Key for per-conversation pseudonyms, loaded on first use
+  pseudonymSecret: Promise<string> | null;
+  rateLimiter: RateLimiter;
+  // Fan-out to room members
+  deliveryEngine: DeliveryEngine;
+  // Cached channel listing for resolving channel names
+  channelDirectory: ChannelDirectory;
+  // Keep track of the channels (rooms) we can use for anonymity
+  roomDirectory: RoomDirectory;
+}
+
+/**
+ * Set up the state of a workspace, kept in its own data directory
+ * With a single bot token there is only one workspace, which uses DATA_DIR itself.
+ */
+function createWorkspace(workspaceId: string): Workspace {
+  const dataDir = getWorkspaceDataDir(workspaceId);
+  const settings = new SettingsStore(path.join(dataDir, 'settings.json'), config.settings);
+  return {
+    dataDir,
+    settings,
+    conversationStore: config.conversationStore === 'memory'
+      ? new MemoryConversationStore()
+      : new FileConversationStore(path.join(dataDir, 'conversations.json')),
+    moderationQueue: new ModerationQueue(path.join(dataDir, 'moderation.json')),
+    pollStore: new PollStore(path.join(dataDir, 'polls.json')),
+    qaStore: new QaStore(path.join(dataDir, 'qa.json')),
+    copyRefreshes: new Map(),
+    preferencesStore: new PreferencesStore(path.join(dataDir, 'preferences.json')),
+    escrowStore: new EscrowStore(path.join(dataDir, 'escrow.json')),
+    transcriptStore: new TranscriptStore(path.join(dataDir, 'transcripts.json')),
+    revealRequests: new Map(),
+    confirmations: new Map(),
+    deliveryQueue: new DeliveryQueue(path.join(dataDir, 'delivery-queue.json')),
+    roomSettings: new RoomSettingsStore(path.join(dataDir, 'rooms.json'), async () => ({
+      pseudonyms: (await settings.get()).pseudonyms,
+      mirror: false
+    })),
+    pseudonymSecret: null,
+    rateLimiter: new RateLimiter(getRateLimitOptions(config.settings)),
+    deliveryEngine: new DeliveryEngine(logger, deliveryOptions),
+    channelDirectory: new ChannelDirectory(5 * 60 * 1000),
+    roomDirectory: new RoomDirectory(logger, async () => (await settings.get()).rooms)
+  };
+}
+
+/**
+ * Directory a workspace's state is kept in
+ */
+function getWorkspaceDataDir(workspaceId: string): string {
+  return OAUTH_ENABLED ? path.join(DATA_DIR, 'teams', workspaceId) : DATA_DIR;
+}
+
+const workspaces = new WorkspaceRegistry(createWorkspace);
+
+/**
+ * The workspace of the event being handled
+ */
+function workspace(): Workspace {
+  return workspaces.current();
+}
 
-// In-memory data structure for tracking message and thread relationships
-// Map of conversation ID to a map of user IDs to their thread timestamps
-const messageThreadMap: MessageThreadMap = new Map();
+/**
+ * Moderation rules applied before anything is relayed, as currently set for the workspace
+ */
+async function getModerationRules(): Promise<ModerationRules> {
+  const settings = await workspace().settings.get();
+  return {
+    blocklist: parseBlocklist(settings.blocklist),
+    links: settings.links,
+    allowedDomains: settings.allowedDomains,
+    maxLength: settings.maxLength
+  };
+}
+
+/**
+ * Per-sender limits, shared by DMs and slash commands
+ */
+function getRateLimitOptions(settings: RuntimeSettings): RateLimitOptions {
+  return {
+    perMinute: settings.rateLimitPerMinute,
+    perHour: settings.rateLimitPerHour,
+    burst: settings.rateLimitBurst,
+    duplicateLimit: config.rateLimit.duplicates,
+    duplicateCooldownMs: config.rateLimit.duplicateCooldownSeconds * 1000
+  };
+}
+
+// Bot tokens of the workspaces the app is installed in
+const installationStore = new JsonInstallationStore(path.join(DATA_DIR, 'installations.json'));
 
 // Initialize the Slack app
 const app = new App({
-  token: process.env.SLACK_BOT_TOKEN,
-  signingSecret: process.env.SLACK_SIGNING_SECRET,
+  signingSecret: config.slack.signingSecret,
   socketMode: true,
-  appToken: process.env.SLACK_APP_TOKEN,
-  // Add custom logging level if needed
-  logLevel: (process.env.LOG_LEVEL as LogLevel) || LogLevel.INFO,
+  appToken: config.slack.appToken,
+  logLevel: config.logLevel as LogLevel,
+  ...(OAUTH_ENABLED
+    ? {
+      clientId: config.slack.clientId,
+      clientSecret: config.slack.clientSecret,
+      stateSecret: config.slack.stateSecret,
+      scopes: BOT_SCOPES,
+      installationStore,
+      // Socket Mode only needs an HTTP server for the install pages
+      installerOptions: { port: config.port, directInstall: true }
+    }
+    : { token: config.slack.botToken })
 });
 
 // Extract logger for use throughout the app
 const logger = app.logger as Logger;
 
-// Keep track of the channel we'll use for anonymity
-let anonymousChannel: any = null;
+// The delivery engine waits out rate limits itself, honouring Retry-After, so its calls go
+// through clients that hand 429s to it; every other call keeps the client's own retries
+const deliveryClients = new Map<string, any>();
+
+/**
+ * Get a client with the same token that rejects rate-limited calls, for the delivery engine
+ */
+function getDeliveryClient(client: any): any {
+  let deliveryClient = deliveryClients.get(client.token);
+  if (!deliveryClient) {
+    deliveryClient = new webApi.WebClient(client.token, { rejectRateLimitedCalls: true, logger });
+    deliveryClients.set(client.token, deliveryClient);
+  }
+  return deliveryClient;
+}
+
+// Fan-out to room members
+const deliveryOptions: DeliveryOptions = {
+  concurrency: config.delivery.concurrency,
+  maxRetries: config.delivery.maxRetries,
+  retryDelayMs: 1000,
+  userCacheTtlMs: 60 * 60 * 1000
+};
+
+// Random delay window for anonymous messages; a zero maximum sends immediately
+const DELIVERY_DELAY_MIN_MS = config.delivery.delayMinSeconds * 1000;
+const DELIVERY_DELAY_MAX_MS = config.delivery.delayMaxSeconds * 1000;
+const DELIVERY_QUEUE_INTERVAL_MS = 5000;
+const POLL_CLOSE_INTERVAL_MS = 30 * 1000;
+// Votes and upvotes within this window update the copies once, which keeps chat.update under its rate limit
+const COPY_REFRESH_DELAY_MS = 3000;
+const DIGEST_INTERVAL_MS = 60 * 1000;
+const CONVERSATION_CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+const DIGEST_MAX_ITEMS = 20;
+const ADMIN_AUDIT_LIMIT = 20;
+const HOME_CONVERSATION_LIMIT = 20; // Each conversation takes 4 of the 100 blocks a Home tab allows
+const QA_LIST_PAGE_SIZE = 15; // Each question takes 2 of the 50 blocks a message allows
+
+// Channels '/54y send' may post to (names or IDs); empty means any channel the bot is in
+const SEND_CHANNELS = config.sendChannels.map(c => c.replace(/^#/, '').toLowerCase());
+
+// Limits for re-hosted attachments
+const attachmentPolicy: AttachmentPolicy = {
+  maxBytes: config.attachments.maxMb * 1024 * 1024,
+  allowedTypes: config.attachments.types.length > 0 ? config.attachments.types : DEFAULT_ALLOWED_TYPES
+};
 
 // ============================================================================
 // Utility Functions
 // ============================================================================
 
 /**
- * Get a conversation ID based on the message timestamp
- * This ensures uniqueness and eliminates the need for separate threaded replies
+ * Generate a new conversation ID
+ * IDs are random, so they give nothing away about the DM that started the conversation.
  */
-function getConversationIdFromTs(ts: string): string {
-  // Convert the timestamp to a hex string for consistency
-  // Remove periods and convert to hex
-  const tsWithoutPeriod = ts.replace('.', '');
-  
-  return encodeTimestampToZeroWidth(tsWithoutPeriod);
+function createConversationId(): string {
+  // The ID is a random number hidden in framed zero-width characters
+  return encodeFramedZeroWidth(BigInt(`0x${crypto.randomBytes(8).toString('hex')}`));
+}
+
+/**
+ * Get the conversation ID of a DM thread that isn't known, the same for every reply in it
+ */
+async function getConversationIdForThread(channel: string, threadTs: string): Promise<string> {
+  const key = getPseudonymKey(await getPseudonymSecret(), 'thread', `${channel}:${threadTs}`);
+  return encodeFramedZeroWidth(BigInt(`0x${key.slice(0, 16)}`));
+}
+
+/**
+ * Keyed hash the DM thread of whoever started a conversation is stored under, instead of their user ID
+ */
+function getStarterKey(secret: string, conversationId: string, userId: string): string {
+  return getPseudonymKey(secret, `${conversationId}:starter`, userId);
+}
+
+/**
+ * Whether a thread map key is a starter's keyed hash rather than a user or channel ID
+ */
+function isStarterKey(key: string): boolean {
+  return /^[0-9a-f]{64}$/.test(key);
+}
+
+/**
+ * Get every key a member's DM threads may be stored under
+ */
+async function getThreadKeys(userId: string): Promise<ThreadKeys> {
+  const secret = await getPseudonymSecret();
+  return conversationId => [userId, getStarterKey(secret, conversationId, userId)];
 }
 
 /**
- * Extract conversation ID from message text in [Anonymous:id] format
+ * Extract conversation ID from message text
+ * Finds a framed zero-width ID anywhere in the text, falling back to the
+ * legacy [Anonymous:id] format for conversations started before framing existed.
  */
 function extractConversationId(text: string): string | null {
+  const framed = findFramedZeroWidth(text);
+  if (framed.length > 0) {
+    return framed[0];
+  }
+
   const match = text.match(/\[Anonymous:(.+?)\]/);
   return match ? match[1] : null;
 }
 
+/**
+ * Collect the text of a message, including any text inside its blocks
+ */
+function getMessageTexts(message: any): string[] {
+  const texts: string[] = [];
+  if (typeof message.text === 'string') {
+    texts.push(message.text);
+  }
+
+  const visit = (node: any) => {
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+    } else if (node && typeof node === 'object') {
+      if (typeof node.text === 'string') {
+        texts.push(node.text);
+      }
+      Object.values(node).forEach(visit);
+    }
+  };
+  visit(message.blocks);
+
+  return texts;
+}
+
 /**
  * Extract conversation ID from thread messages, including bot's "Conversation ID" messages
  */
 function extractConversationIdFromThread(messages: any[]): string | null {
-  // First try to find any message with [Anonymous:id] format
+  // First try to find any message carrying an ID in its text or blocks
   for (const message of messages) {
-    if (typeof message.text === 'string') {
-      const idFromAnon = extractConversationId(message.text);
+    for (const text of getMessageTexts(message)) {
+      const idFromAnon = extractConversationId(text);
       if (idFromAnon) {
         return idFromAnon;
       }
       
       // Check for "_Conversation ID: XXXXXXXX_" format (italicized) - for backward compatibility
-      const idMatch = message.text.match(/_Conversation ID: ([a-f0-9]{8})_/);
+      const idMatch = text.match(/_Conversation ID: ([a-f0-9]{8})_/);
       if (idMatch) {
         return idMatch[1];
       }
@@ -89,664 +505,4499 @@ function formatMessageWithId(text: string, conversationId: string): string {
 }
 
 /**
- * Format reply message with conversation ID
+ * Format reply message with the replier's label
  */
-function formatReplyWithId(text: string, conversationId: string): string {
-  return `[Anonymous] ${text}`;
+function formatReplyWithId(text: string, conversationId: string, label: string = 'Anonymous'): string {
+  return `[${label}] ${text}`;
 }
 
 /**
- * Clean up old conversation maps to prevent memory leaks
+ * Get the pseudonym key of the current workspace, loading it once
  */
-function cleanupOldConversations() {
-  if (messageThreadMap.size > MAX_CONVERSATION_HISTORY) {
-    // Get the oldest keys and delete them
-    const keysToDelete = [...messageThreadMap.keys()].slice(0, messageThreadMap.size - MAX_CONVERSATION_HISTORY);
-    for (const key of keysToDelete) {
-      messageThreadMap.delete(key);
-    }
-    logger.info(`Cleaned up ${keysToDelete.length} old conversation maps`);
+function getPseudonymSecret(): Promise<string> {
+  const current = workspace();
+  if (!current.pseudonymSecret) {
+    current.pseudonymSecret = loadPseudonymSecret(current.dataDir, config.pseudonymSecret);
   }
+  return current.pseudonymSecret;
 }
 
 /**
- * Send a message in a thread safely (with error handling)
+ * Get the label a participant's messages are shown with in a conversation
+ * Uses a stable pseudonym if the room has them enabled, "Anonymous" otherwise.
  */
-async function sendThreadedMessage(client: any, channel: string, text: string, threadTs: string) {
+async function getParticipantLabel(conversationId: string, roomId: string | null, userId: string, isOriginalPoster: boolean): Promise<string> {
+  if (!roomId || !(await workspace().roomSettings.get(roomId)).pseudonyms) {
+    return 'Anonymous';
+  }
+
+  const key = getPseudonymKey(await getPseudonymSecret(), conversationId, userId);
+  const { names, opKey } = await workspace().conversationStore.getPseudonyms(conversationId);
+  let name = names[key];
+  if (!name) {
+    name = pickPseudonym(key, Object.values(names));
+    await workspace().conversationStore.setPseudonym(conversationId, key, name, isOriginalPoster);
+  }
+
+  return key === opKey || isOriginalPoster ? `${name} (OP)` : name;
+}
+
+/**
+ * Clean up conversations that have been idle past the retention period
+ */
+async function cleanupOldConversations() {
   try {
-    return await client.chat.postMessage({
-      channel,
-      text,
-      thread_ts: threadTs,
-      mrkdwn: true
-    });
+    const expired = await workspace().conversationStore.expireIdle(CONVERSATION_TTL_MS);
+    if (expired > 0) {
+      logger.info(`Expired ${expired} idle conversations`);
+    }
+    const removed = await workspace().conversationStore.pruneIdle(CONVERSATION_RETENTION_MS);
+    if (removed > 0) {
+      logger.info(`Cleaned up ${removed} idle conversation maps`);
+    }
+    const removedPolls = await workspace().pollStore.pruneOlderThan(CONVERSATION_RETENTION_MS);
+    if (removedPolls > 0) {
+      logger.info(`Cleaned up ${removedPolls} old polls`);
+    }
+    const removedSessions = await workspace().qaStore.pruneClosed(CONVERSATION_RETENTION_MS);
+    if (removedSessions > 0) {
+      logger.info(`Cleaned up ${removedSessions} old Q&A sessions`);
+    }
+    const removedSealed = await workspace().escrowStore.pruneOlderThan(ESCROW_RETENTION_MS);
+    if (removedSealed > 0) {
+      logger.info(`Cleaned up ${removedSealed} expired escrow entries`);
+    }
+    const removedTranscripts = await workspace().transcriptStore.pruneOlderThan(TRANSCRIPT_RETENTION_MS);
+    if (removedTranscripts > 0) {
+      logger.info(`Cleaned up ${removedTranscripts} old transcripts`);
+    }
   } catch (error) {
-    logger.error(`Error posting thread reply to ${channel}:`, error);
-    return null;
+    logger.error('Error cleaning up idle conversations:', error);
   }
 }
 
-// ============================================================================
-// Service Functions
-// ============================================================================
+/**
+ * Tell a member their reply wasn't sent if the conversation no longer takes replies
+ * Conversations that aren't known anymore were forgotten after expiring.
+ * @returns true if the conversation is open
+ */
+async function checkConversationOpen(client: any, channel: string, userId: string, conversationId: string): Promise<boolean> {
+  const state = await workspace().conversationStore.getState(conversationId) || 'expired';
+  if (state === 'open') {
+    return true;
+  }
+
+  await client.chat.postEphemeral({
+    channel,
+    user: userId,
+    text: state === 'locked'
+      ? `This conversation was locked by an admin, so your reply wasn't sent.`
+      : `This conversation expired after ${CONVERSATION_TTL_DAYS} days without activity, so your reply wasn't sent. Start a new post instead.`
+  });
+  return false;
+}
 
 /**
- * Check if a message contains file attachments
+ * Look up the names of users, e.g. to write their mentions out
+ * Users that can't be looked up are left out.
  */
-function messageHasFiles(msg: any): boolean {
-  return (
-    msg.files && 
-    Array.isArray(msg.files) && 
-    msg.files.length > 0
-  );
+async function getUserNames(client: any, userIds: string[]): Promise<Record<string, string>> {
+  const names: Record<string, string> = {};
+  for (const userId of userIds) {
+    try {
+      const info = await client.users.info({ user: userId });
+      names[userId] = info.user?.profile?.display_name || info.user?.real_name || info.user?.name;
+    } catch (error) {
+      logger.warn(`Couldn't look up the name of a mentioned user:`, error);
+    }
+  }
+  return names;
 }
 
 /**
- * Get files from a message
+ * Make text safe to relay: broadcasts never ping, and mentions are written out as names if set up so
  */
-function getFilesFromMessage(msg: any): any[] {
-  if (!messageHasFiles(msg)) {
-    return [];
+async function sanitizeRelayedText(client: any, text: string): Promise<string> {
+  const sanitized = neutralizeBroadcasts(text);
+  if (!(await workspace().settings.get()).plainMentions) {
+    return sanitized;
   }
-  return msg.files;
+  return renderMentionsAsNames(sanitized, await getUserNames(client, findMentionedUserIds(sanitized)));
 }
 
 /**
- * Share a file with another channel/user
- * This makes the file accessible to other users
+ * Get what a sender's message could give away about them
  */
-async function shareFileWithUser(client: any, fileId: string, channelId: string): Promise<any> {
+async function getSenderIdentity(client: any, userId: string): Promise<SenderIdentity> {
   try {
-    // Get the file info instead of trying to make it public
-    const result = await client.files.info({
-      file: fileId
-    });
-    
-    // If successful, return the file info
-    if (result.ok && result.file) {
-      logger.info(`Successfully retrieved file info for ${fileId}`);
-      return result.file;
-    }
-    
-    return null;
+    const { user } = await client.users.info({ user: userId });
+    const realName: string = user?.real_name || user?.profile?.real_name || '';
+    const names = [user?.profile?.display_name, realName, realName.split(/\s+/)[0], user?.name]
+      .map(name => (name || '').trim())
+      .filter(Boolean);
+    return { userId, names: [...new Set<string>(names)], email: user?.profile?.email };
   } catch (error) {
-    logger.error(`Error retrieving file info for ${fileId}:`, error);
-    return null;
+    logger.warn(`Couldn't look up a sender for the identity check:`, error);
+    return { userId, names: [] };
   }
 }
 
 /**
- * Find the first channel that the bot is a member of to use as the anonymous channel
- * This is called at startup and whenever we need to find a channel
+ * Check whether a message looks like it identifies its sender, if the check is on
+ * @returns Why it does, empty if it doesn't
  */
-async function findAnonymousChannel(client: any): Promise<any> {
-  try {
-    // If we already have an anonymous channel cached, return it
-    if (anonymousChannel) {
-      return anonymousChannel;
-    }
+async function checkIdentifyingContent(client: any, userId: string, text: string): Promise<string[]> {
+  if (!(await workspace().settings.get()).identityCheck) {
+    return [];
+  }
+  return findIdentifyingContent(text, await getSenderIdentity(client, userId));
+}
 
-    // Get the bot's user ID
-    const authResponse = await client.auth.test();
-    const botUserId = authResponse.user_id;
-    
-    // List channels with pagination handling
-    let allChannels: any[] = [];
-    let cursor: string | undefined;
-    
-    do {
-      // Get page of channels
-      const channelsResponse = await client.conversations.list({
-        types: 'public_channel,private_channel',
-        exclude_archived: true,
-        limit: 200, // Maximum allowed by Slack API
-        cursor: cursor
-      });
-      
-      if (!channelsResponse.channels || channelsResponse.channels.length === 0) {
-        break;
-      }
-      
-      // Add this page of channels to our collection
-      allChannels = allChannels.concat(channelsResponse.channels);
-      
-      // Get cursor for next page (if any)
-      cursor = channelsResponse.response_metadata?.next_cursor;
-    } while (cursor);
-    
-    if (allChannels.length === 0) {
-      logger.warn("No channels found for the bot to use. Please add the bot to at least one channel.");
-      return null;
-    }
-    
-    logger.info(`Found ${allChannels.length} total channels to check`);
-    
-    // For each channel, check if the bot is a member
-    for (const channel of allChannels) {
-      try {
-        const membersResponse = await client.conversations.members({
-          channel: channel.id
-        });
-        
-        if (membersResponse.members && membersResponse.members.includes(botUserId)) {
-          logger.info(`Found anonymous channel: #${channel.name}`);
-          anonymousChannel = channel;
-          return channel;
-        }
-      } catch (error) {
-        // If we can't check members, try the next channel
-        logger.warn(`Couldn't check members of #${channel.name}:`, error);
-        continue;
-      }
+/**
+ * Keep a message until its sender confirms it
+ * @returns The ID the confirmation is kept under
+ */
+function addConfirmation(userId: string, send: () => Promise<void>, held?: UnconfirmedMessage): string {
+  const confirmations = workspace().confirmations;
+  for (const [id, confirmation] of confirmations) {
+    if (Date.now() - confirmation.createdAt > CONFIRMATION_TTL_MS) {
+      confirmations.delete(id);
     }
-    
-    logger.warn("Bot is not a member of any channels. Please add the bot to a channel.");
-    logger.info(`Checked ${allChannels.length} channels, but bot is not a member of any of them.`);
-    return null;
-  } catch (error) {
-    logger.error("Error finding anonymous channel:", error);
-    return null;
   }
+  const id = crypto.randomBytes(6).toString('hex');
+  confirmations.set(id, { userId, createdAt: Date.now(), send, held });
+  return id;
 }
 
 /**
- * Get a conversation ID from thread history or generate a new one
+ * Take the DM with the given timestamp out of its confirmation, e.g. because its sender edited it
  */
-async function getOrCreateConversationId(client: any, msg: any, isThreadReply: boolean): Promise<string> {
-  // If not a thread reply, create ID from the message timestamp
-  if (!isThreadReply) {
-    const newId = getConversationIdFromTs(msg.ts);
-    logger.info(`Created conversation ID from timestamp: ${newId}`);
-    return newId;
-  }
-  
-  // For thread replies, try to extract from history
-  try {
-    const threadHistory = await client.conversations.replies({
-      channel: msg.channel,
-      ts: msg.thread_ts
-    });
-    
-    // Get bot ID
-    const authResponse = await client.auth.test();
-    const botUserId = authResponse.user_id;
-    
-    // Try to extract ID from any message in thread first
-    if (threadHistory.messages && threadHistory.messages.length > 0) {
-      const extractedId = extractConversationIdFromThread(threadHistory.messages);
-      if (extractedId) {
-        logger.info(`Found existing conversation ID: ${extractedId}`);
-        return extractedId;
-      }
-      
-      // Fallback to bot messages
-      const botMessages = threadHistory.messages.filter(
-        (m: any) => m.user === botUserId && typeof m.text === 'string' && m.text.includes('[Anonymous:')
-      );
-      
-      if (botMessages.length > 0 && typeof botMessages[0].text === 'string') {
-        const messageText = botMessages[0].text;
-        const extractedId = extractConversationId(messageText);
-        if (extractedId) {
-          logger.info(`Found existing conversation ID from bot message: ${extractedId}`);
-          return extractedId;
-        }
-      }
-      
-      // If no ID found and we have the parent message's ts, use that
-      if (threadHistory.messages[0] && threadHistory.messages[0].ts) {
-        const idFromParentTs = getConversationIdFromTs(threadHistory.messages[0].ts);
-        logger.info(`Created conversation ID from parent message timestamp: ${idFromParentTs}`);
-        return idFromParentTs;
-      }
+function takeUnconfirmedMessage(channel: string, ts: string): UnconfirmedMessage | null {
+  for (const [id, confirmation] of workspace().confirmations) {
+    if (confirmation.held?.msg.channel === channel && confirmation.held.msg.ts === ts) {
+      workspace().confirmations.delete(id);
+      return Date.now() - confirmation.createdAt > CONFIRMATION_TTL_MS ? null : confirmation.held;
     }
-    
-    // If all extraction attempts fail, generate from thread_ts
-    const newId = getConversationIdFromTs(msg.thread_ts);
-    logger.info(`Created conversation ID from thread timestamp: ${newId}`);
-    return newId;
-    
-  } catch (error) {
-    // If we can't get thread history, generate from thread_ts
-    const newId = getConversationIdFromTs(msg.thread_ts);
-    logger.error(`Error getting thread history, created ID from thread timestamp: ${newId}`, error);
-    return newId;
   }
+  return null;
 }
 
 /**
- * Find the target channel for broadcasting
+ * Take a message waiting for confirmation, if it belongs to the user and hasn't expired
  */
-async function findTargetChannel(client: any): Promise<any> {
-  return await findAnonymousChannel(client);
+function takeConfirmation(id: string, userId: string): PendingConfirmation | null {
+  const confirmation = workspace().confirmations.get(id);
+  if (!confirmation || confirmation.userId !== userId) {
+    return null;
+  }
+  workspace().confirmations.delete(id);
+  return Date.now() - confirmation.createdAt > CONFIRMATION_TTL_MS ? null : confirmation;
 }
 
 /**
- * Get members of a channel
+ * Hold a message that looks like it identifies its sender until they confirm it
+ * The sender gets the reasons and "Send anyway" and "Cancel" buttons.
+ * @param options Thread to warn in, what the warning calls the message, and the DM it came from
+ * @returns true if the message is held, false if it can go out now
  */
-async function getChannelMembers(client: any, channelId: string): Promise<string[]> {
-  const membersResponse = await client.conversations.members({
-    channel: channelId
-  });
+async function holdIdentifyingMessage(
+  client: any,
+  userId: string,
+  channel: string,
+  text: string,
+  send: () => Promise<void>,
+  options: { threadTs?: string; subject?: string; held?: UnconfirmedMessage } = {}
+): Promise<boolean> {
+  const findings = await checkIdentifyingContent(client, userId, text);
+  if (findings.length === 0) {
+    return false;
+  }
   
-  return membersResponse.members || [];
+  const id = addConfirmation(userId, send, options.held);
+  const warning = `${options.subject || 'Your anonymous message'} might give you away: ${findings.join('; ')}. Send it anyway?`;
+  await client.chat.postEphemeral({
+    channel,
+    user: userId,
+    thread_ts: options.threadTs,
+    text: warning,
+    blocks: [
+      {
+        type: 'section',
+        text: { type: 'mrkdwn', text: `:warning: ${warning}` }
+      },
+      {
+        type: 'actions',
+        elements: [
+          { type: 'button', action_id: 'identity_send', style: 'danger', text: { type: 'plain_text', text: 'Send anyway' }, value: id },
+          { type: 'button', action_id: 'identity_cancel', text: { type: 'plain_text', text: 'Cancel' }, value: id }
+        ]
+      }
+    ]
+  });
+  return true;
 }
 
 /**
- * Broadcast message to all members except sender
+ * Show a sender their DM as it will go out and how many members get it, with Send and Cancel buttons
+ * Anything that looks like it identifies them is pointed out, so sending counts as confirming it.
+ * @returns true if the message waits for the sender, false if they skip previews
  */
-async function broadcastToMembers(
-  client: any, 
-  members: string[], 
-  senderId: string, 
-  messageText: string, 
-  threadMap: ThreadMap, 
-  isThreadReply: boolean,
-  files?: any[]
-): Promise<{successCount: number; botCount: number; eligibleRecipients: number}> {
-  let successCount = 0;
-  let botCount = 0;
-  let eligibleRecipients = 0;
-  
-  // If there are files, make sure they're shared first (for images)
-  let sharedFiles = [];
-  if (files && files.length > 0) {
-    // Process each file to get its info
-    for (const file of files) {
-      try {
-        // Only process files that have an ID
-        if (file.id) {
-          // Get file info
-          const fileInfo = await shareFileWithUser(client, file.id, "");
-          if (fileInfo) {
-            sharedFiles.push(fileInfo);
-          }
-        }
-      } catch (error) {
-        logger.error(`Error processing file ${file.id}:`, error);
-      }
-    }
-    
-    // Log how many files were successfully processed
-    logger.info(`Processed ${sharedFiles.length} out of ${files.length} files for sharing`);
+async function holdForPreview(client: any, msg: any, room: Room, text: string): Promise<boolean> {
+  const { preview } = await workspace().preferencesStore.get(msg.user);
+  if (!(preview ?? (await workspace().settings.get()).preview)) {
+    return false;
   }
   
+  // Bots are skipped when the message goes out, so they don't count here either
+  const members = await getChannelMembers(client, room.id);
+  let recipients = 0;
   for (const memberId of members) {
-    // Skip sending to the original sender
-    if (memberId === senderId) {
-      continue;
+    if (memberId !== msg.user && !await workspace().deliveryEngine.isBot(client, memberId).catch(() => false)) {
+      recipients++;
     }
-    
-    eligibleRecipients++;
-    
-    try {
-      // Check if member is a bot before trying to DM them
-      const userInfoResponse = await client.users.info({
-        user: memberId
-      });
-      
-      // Skip bots to avoid "cannot_dm_bot" error
-      if (userInfoResponse.user?.is_bot) {
-        logger.info(`Skipping bot user: ${memberId}`);
-        botCount++;
-        eligibleRecipients--; // Decrement eligible recipients since bots aren't counted
-        continue;
+  }
+  const findings = await checkIdentifyingContent(client, msg.user, text);
+  const attachments = getFilesFromMessage(msg).length;
+  const shown = await sanitizeRelayedText(client, text);
+  const id = addConfirmation(msg.user, () => submitDirectMessage(client, msg, room, text, true), { msg, room });
+  
+  const summary = `Your anonymous ${msg.thread_ts ? 'reply' : 'message'} goes to ${recipients} member${recipients === 1 ? '' : 's'} of #${room.name}:`;
+  const blocks: any[] = [
+    {
+      type: 'section',
+      text: { type: 'mrkdwn', text: summary }
+    },
+    {
+      type: 'section',
+      text: { type: 'mrkdwn', text: (shown || '_No text_').split('\n').map(line => `> ${line}`).join('\n').slice(0, 3000) }
+    }
+  ];
+  if (attachments > 0) {
+    blocks.push({
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: `:paperclip: ${attachments} attachment${attachments === 1 ? '' : 's'}` }]
+    });
+  }
+  if (findings.length > 0) {
+    blocks.push({
+      type: 'section',
+      text: { type: 'mrkdwn', text: `:warning: It might give you away: ${findings.join('; ')}.` }
+    });
+  }
+  blocks.push(
+    {
+      type: 'actions',
+      elements: [
+        { type: 'button', action_id: 'preview_send', style: 'primary', text: { type: 'plain_text', text: 'Send' }, value: id },
+        { type: 'button', action_id: 'preview_cancel', text: { type: 'plain_text', text: 'Cancel' }, value: id }
+      ]
+    },
+    {
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: 'Use `/54y preview off` to send DMs right away.' }]
+    }
+  );
+  
+  await client.chat.postEphemeral({
+    channel: msg.channel,
+    user: msg.user,
+    thread_ts: msg.thread_ts,
+    text: summary,
+    blocks
+  });
+  return true;
+}
+
+/**
+ * Tell a sender their DM went out, with a button to delete every copy for a short while
+ */
+async function offerUndo(client: any, msg: any, text: string) {
+  const undo = { channel: msg.channel, ts: msg.ts, until: Date.now() + UNDO_WINDOW_MS };
+  await client.chat.postEphemeral({
+    channel: msg.channel,
+    user: msg.user,
+    thread_ts: msg.thread_ts,
+    text,
+    blocks: [
+      {
+        type: 'section',
+        text: { type: 'mrkdwn', text },
+        accessory: {
+          type: 'button',
+          action_id: 'undo_send',
+          text: { type: 'plain_text', text: 'Undo' },
+          value: JSON.stringify(undo)
+        }
+      },
+      {
+        type: 'context',
+        elements: [{ type: 'mrkdwn', text: `You can undo this for ${config.delivery.undoSeconds} seconds.` }]
+      }
+    ]
+  });
+}
+
+/**
+ * Add a relayed message to its conversation's transcript, if the content log is on
+ * Only the label the message was shown with is logged, never the sender.
+ * @returns The transcript entry's ID
+ */
+async function logTranscriptEntry(conversationId: string, roomId: string | null, label: string, text: string, isReply: boolean, attachments: number, participants: string[]): Promise<string | undefined> {
+  if (TRANSCRIPT_RETENTION_MS === 0) {
+    return undefined;
+  }
+  try {
+    const secret = await getPseudonymSecret();
+    const code = getConversationCode(secret, conversationId);
+    const participantKeys = participants.map(userId => getTranscriptParticipantKey(secret, code, userId));
+    return await workspace().transcriptStore.append(code, roomId, { label, text, isReply, attachments, sentAt: Date.now() }, participantKeys);
+  } catch (error) {
+    logger.error('Error logging transcript entry:', error);
+    return undefined;
+  }
+}
+
+/**
+ * Keyed hash a transcript keeps for someone who took part in its conversation
+ */
+function getTranscriptParticipantKey(secret: string, code: string, userId: string): string {
+  return getPseudonymKey(secret, `${code}:transcript`, userId);
+}
+
+/**
+ * Key of a conversation's record in the sender escrow
+ */
+async function getConversationEscrowTarget(conversationId: string): Promise<string> {
+  return `conversation:${getConversationCode(await getPseudonymSecret(), conversationId)}`;
+}
+
+/**
+ * Key of a channel message's record in the sender escrow
+ */
+function getMessageEscrowTarget(channel: string, ts: string): string {
+  return `message:${channel}:${ts}`;
+}
+
+/**
+ * The workspace's escrow public key; sender escrow is opt-in, so without one nothing is recorded about senders
+ */
+async function getEscrowPublicKey(): Promise<crypto.KeyObject | null> {
+  const { escrowKey } = await workspace().settings.get();
+  return escrowKey ? loadEscrowPublicKey(escrowKey) : null;
+}
+
+/**
+ * Whether someone may request and approve reveals
+ */
+async function isEscrowAdmin(userId: string): Promise<boolean> {
+  return getEscrowAdmins(await workspace().settings.get()).includes(userId);
+}
+
+/**
+ * Seal who sent a message, if sender escrow is enabled
+ * Escrow failures are logged but don't stop the message.
+ */
+async function escrowSender(target: string, channelId: string, userId: string, text: string) {
+  const escrowPublicKey = await getEscrowPublicKey();
+  if (!escrowPublicKey) {
+    return;
+  }
+  try {
+    await workspace().escrowStore.add(target, channelId, sealSender(escrowPublicKey, { userId, excerpt: text.slice(0, 100) }));
+  } catch (error) {
+    logger.error('Error sealing sender in escrow:', error);
+  }
+}
+
+/**
+ * Key identifying a sender's original DM, used to find the copies that were relayed
+ * A keyed hash, so stored messages don't name the sender's DM channel.
+ */
+async function getSourceKey(channel: string, ts: string): Promise<string> {
+  return getPseudonymKey(await getPseudonymSecret(), 'source', `${channel}:${ts}`);
+}
+
+/**
+ * Count a message against the sender's rate limit, as currently set for the workspace
+ */
+async function takeRateLimit(userId: string, text: string): Promise<RateLimitResult> {
+  const { rateLimiter, settings } = workspace();
+  rateLimiter.setOptions(getRateLimitOptions(await settings.get()));
+  return rateLimiter.take(userId, text);
+}
+
+/**
+ * Count a message against the sender's rate limit
+ * Tells the sender why and for how long when they are over the limit.
+ * @returns true if the message may be sent
+ */
+async function checkRateLimit(client: any, channel: string, userId: string, text: string): Promise<boolean> {
+  const result = await takeRateLimit(userId, text);
+  if (result.allowed) {
+    return true;
+  }
+
+  logger.info(`Rate limited sender: ${result.reason}`);
+  await client.chat.postEphemeral({
+    channel,
+    user: userId,
+    text: `Your message wasn't sent: ${result.reason}. Please try again in ${formatRetryAfter(result.retryAfterMs)}.`
+  });
+  return false;
+}
+
+/**
+ * Send a message in a thread safely (with error handling)
+ */
+async function sendThreadedMessage(client: any, channel: string, text: string, threadTs: string) {
+  try {
+    return await client.chat.postMessage({
+      channel,
+      text,
+      thread_ts: threadTs,
+      mrkdwn: true
+    });
+  } catch (error) {
+    logger.error(`Error posting thread reply to ${channel}:`, error);
+    return null;
+  }
+}
+
+// ============================================================================
+// Service Functions
+// ============================================================================
+
+/**
+ * Check if a message contains file attachments
+ */
+function messageHasFiles(msg: any): boolean {
+  return (
+    msg.files && 
+    Array.isArray(msg.files) && 
+    msg.files.length > 0
+  );
+}
+
+/**
+ * Get files from a message
+ */
+function getFilesFromMessage(msg: any): any[] {
+  if (!messageHasFiles(msg)) {
+    return [];
+  }
+  return msg.files;
+}
+
+/**
+ * Get a conversation ID from thread history or generate a new one
+ */
+async function getOrCreateConversationId(client: any, msg: any, isThreadReply: boolean): Promise<string> {
+  // If not a thread reply, start a new conversation
+  if (!isThreadReply) {
+    const newId = createConversationId();
+    logger.info(`Created conversation ID: ${newId}`);
+    return newId;
+  }
+  
+  // For thread replies, check the stored mapping first
+  try {
+    const storedId = await workspace().conversationStore.findConversationId(msg.thread_ts, await getThreadKeys(msg.user));
+    if (storedId) {
+      logger.info(`Found stored conversation ID: ${storedId}`);
+      return storedId;
+    }
+  } catch (error) {
+    logger.warn('Error looking up stored conversation ID:', error);
+  }
+
+  // Otherwise try to extract from history
+  try {
+    const threadHistory = await client.conversations.replies({
+      channel: msg.channel,
+      ts: msg.thread_ts
+    });
+    
+    // Get bot ID
+    const authResponse = await client.auth.test();
+    const botUserId = authResponse.user_id;
+    
+    // Try to extract ID from any message in thread first
+    if (threadHistory.messages && threadHistory.messages.length > 0) {
+      const extractedId = extractConversationIdFromThread(threadHistory.messages);
+      if (extractedId) {
+        logger.info(`Found existing conversation ID: ${extractedId}`);
+        return extractedId;
+      }
+      
+      // Fallback to bot messages
+      const botMessages = threadHistory.messages.filter(
+        (m: any) => m.user === botUserId && typeof m.text === 'string' && m.text.includes('[Anonymous:')
+      );
+      
+      if (botMessages.length > 0 && typeof botMessages[0].text === 'string') {
+        const messageText = botMessages[0].text;
+        const extractedId = extractConversationId(messageText);
+        if (extractedId) {
+          logger.info(`Found existing conversation ID from bot message: ${extractedId}`);
+          return extractedId;
+        }
+      }
+    }
+    
+    // If all extraction attempts fail, derive one from the thread
+    const newId = await getConversationIdForThread(msg.channel, msg.thread_ts);
+    logger.info(`Created conversation ID for thread: ${newId}`);
+    return newId;
+    
+  } catch (error) {
+    // If we can't get thread history, derive one from the thread
+    const newId = await getConversationIdForThread(msg.channel, msg.thread_ts);
+    logger.error(`Error getting thread history, created ID for thread: ${newId}`, error);
+    return newId;
+  }
+}
+
+/**
+ * Get members of a channel
+ */
+async function getChannelMembers(client: any, channelId: string): Promise<string[]> {
+  const membersResponse = await client.conversations.members({
+    channel: channelId
+  });
+  
+  return membersResponse.members || [];
+}
+
+/**
+ * Download, check and clean the files attached to a message so they can be re-uploaded
+ * Original filenames and authors are dropped, and images lose their EXIF/GPS data.
+ */
+async function prepareAttachments(client: any, files?: any[]): Promise<{ attachments: PreparedAttachment[]; rejected: string[] }> {
+  const attachments: PreparedAttachment[] = [];
+  const rejected: string[] = [];
+  if (!files || files.length === 0) {
+    return { attachments, rejected };
+  }
+
+  for (const file of files) {
+    const name = file.name || file.title || 'Attachment';
+    try {
+      // Message events may only carry partial file objects
+      const result = file.id ? await client.files.info({ file: file.id }) : null;
+      const info = result?.file || file;
+
+      const reason = checkAttachment(info, attachmentPolicy);
+      if (reason) {
+        rejected.push(`${name} (${reason})`);
+        continue;
+      }
+
+      const data = await downloadFile(info.url_private_download || info.url_private, client.token, attachmentPolicy.maxBytes);
+      attachments.push({
+        data: stripMetadata(data, info.mimetype),
+        filename: getAnonymousFilename(info.mimetype, attachments.length),
+        mimetype: info.mimetype
+      });
+    } catch (error) {
+      logger.error(`Error preparing file ${file.id}:`, error);
+      rejected.push(`${name} (couldn't be processed)`);
+    }
+  }
+
+  // Log how many files were successfully processed
+  logger.info(`Prepared ${attachments.length} out of ${files.length} files for re-upload`);
+  return { attachments, rejected };
+}
+
+/**
+ * Count the attachments of a message that pass the attachment policy
+ */
+function countAllowedAttachments(files: any[]): number {
+  return files.filter(file => !checkAttachment(file, attachmentPolicy)).length;
+}
+
+/**
+ * Upload attachments into a recipient's DM thread
+ * @returns IDs of the uploaded files
+ */
+async function uploadAttachments(client: any, channel: string, threadTs: string, attachments: PreparedAttachment[]): Promise<string[]> {
+  if (attachments.length === 0) {
+    return [];
+  }
+
+  // uploadV2 answers with the files.completeUploadExternal response of each upload
+  const response = await workspace().deliveryEngine.withRetry<{ files?: webApi.FilesCompleteUploadExternalResponse[] }>(() => client.files.uploadV2({
+    channel_id: channel,
+    thread_ts: threadTs,
+    file_uploads: attachments.map(attachment => ({
+      file: attachment.data,
+      filename: attachment.filename,
+      title: attachment.filename
+    }))
+  }));
+
+  return (response.files || [])
+    .flatMap(upload => upload.files || [])
+    .map(file => file.id)
+    .filter((id): id is string => Boolean(id));
+}
+
+/**
+ * Build the text/blocks of a relayed message
+ */
+function buildMessageContent(messageText: string, attachmentCount: number, extraBlocks: any[] = []): { text: string; blocks?: any[] } {
+  // Create blocks for better message formatting
+  const blocks: any[] = [
+    {
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: messageText
+      }
+    }
+  ];
+
+  // Attachments are uploaded separately into the thread
+  if (attachmentCount > 0) {
+    blocks.push({
+      type: "context",
+      elements: [
+        {
+          type: "plain_text",
+          text: `📎 ${attachmentCount} anonymous attachment${attachmentCount === 1 ? '' : 's'} in the thread`
+        }
+      ]
+    });
+  }
+
+  // Polls and the like add their own blocks under the text
+  blocks.push(...extraBlocks);
+
+  // Let recipients flag the message to admins
+  blocks.push(REPORT_ACTIONS_BLOCK);
+
+  // Keep a plain text fallback for notifications
+  return { text: messageText, blocks };
+}
+
+/**
+ * Broadcast message to all members except sender
+ * A null sender delivers to every member, e.g. for polls the creator votes on too.
+ */
+async function broadcastToMembers(
+  client: any, 
+  members: string[], 
+  senderId: string | null, 
+  messageText: string, 
+  conversationId: string,
+  threadMap: ThreadMap, 
+  isThreadReply: boolean,
+  files?: any[],
+  extraBlocks?: any[],
+  mirror: boolean = true
+): Promise<{report: DeliveryReport; copies: MessageCopy[]; content: { text: string; blocks?: any[] }; rejectedFiles: string[]; digestId?: string}> {
+  // Re-host attachments once, then upload the cleaned copies to every recipient
+  const { attachments, rejected: rejectedFiles } = await prepareAttachments(client, files);
+  const content = buildMessageContent(messageText, attachments.length, extraBlocks);
+  const uploadedFiles = new Map<string, string[]>();
+  
+  // Skip sending to the original sender, and deliver in random order
+  const candidates = shuffle(members.filter(memberId => memberId !== senderId));
+  
+  // Members who opted out or muted the conversation are skipped, and members in quiet
+  // hours get it in their digest; the sender's summary only counts who it was sent to
+  const secret = await getPseudonymSecret();
+  const conversationCode = getConversationCode(secret, conversationId);
+  const { deliver: recipients, digest } = await workspace().preferencesStore.planRecipients(candidates, conversationCode);
+  const digestId = digest.length > 0 ? crypto.randomBytes(6).toString('hex') : undefined;
+  await workspace().preferencesStore.addToDigest(digest, {
+    id: digestId,
+    conversationId,
+    text: messageText.replace(`:${conversationId}]`, ']'),
+    isThreadReply,
+    receivedAt: Date.now()
+  });
+  
+  // Upload failures don't fail the delivery - the text already arrived
+  const deliveryClient = getDeliveryClient(client);
+  const uploadTo = async (memberId: string, dmChannel: string, threadTs: string) => {
+    try {
+      uploadedFiles.set(memberId, await uploadAttachments(deliveryClient, dmChannel, threadTs, attachments));
+    } catch (error) {
+      logger.error(`Failed to upload attachments for user ${memberId}:`, error);
+    }
+  };
+  
+  const report = await workspace().deliveryEngine.deliver(deliveryClient, recipients, async (memberId, dmChannel) => {
+    // If this is a thread reply and we have a thread mapping for this user, who may have started the conversation
+    const userThreadTs = threadMap.get(memberId) || threadMap.get(getStarterKey(secret, conversationId, memberId));
+    
+    // Prepare message options with common properties
+    const messageOptions: any = {
+      channel: dmChannel,
+      mrkdwn: true,
+      ...content
+    };
+    
+    if (isThreadReply && userThreadTs) {
+      try {
+        // Send as reply to the correct thread for this user
+        const response = await deliveryClient.chat.postMessage({ ...messageOptions, thread_ts: userThreadTs });
+        await uploadTo(memberId, dmChannel, userThreadTs);
+        return response.ts as string;
+      } catch (threadError) {
+        // Let the engine retry rate limits and transient errors
+        if (isRetryableError(threadError)) {
+          throw threadError;
+        }
+        
+        // If posting to thread fails, send as regular message
+        logger.warn(`Couldn't post to thread for user ${memberId}, sending as regular message: ${threadError}`);
+      }
+    }
+    
+    // Send as regular message and store this message's timestamp for this user
+    const response = await deliveryClient.chat.postMessage(messageOptions);
+    threadMap.set(memberId, response.ts as string);
+    await workspace().conversationStore.setThreadTs(conversationId, memberId, response.ts as string);
+    await uploadTo(memberId, dmChannel, response.ts as string);
+    return response.ts as string;
+  });
+  
+  const copies: MessageCopy[] = report.results
+    .filter(result => result.status === 'delivered')
+    .map(result => ({
+      userId: result.userId,
+      channel: result.channel!,
+      ts: result.ts!,
+      fileIds: uploadedFiles.get(result.userId)
+    }));
+  
+  // Rooms in mirror mode get the message in their channel too, kept up to date like any other copy
+  const roomId = mirror ? await workspace().conversationStore.getRoomId(conversationId) : null;
+  if (roomId && (await workspace().roomSettings.get(roomId)).mirror) {
+    const mirrored = await mirrorToChannel(client, roomId, conversationId, threadMap, isThreadReply, content, attachments);
+    if (mirrored) {
+      copies.push(mirrored);
+    }
+  }
+  
+  return { report, copies, content, rejectedFiles, digestId };
+}
+
+/**
+ * Post a copy of a message into its room's channel, with replies in the thread of the first one
+ * The channel's thread is kept in the conversation's thread map under the channel ID. Conversations
+ * that started before mirroring was turned on have no thread there, so their replies stay in DMs.
+ * @returns The copy, or null if it wasn't posted
+ */
+async function mirrorToChannel(
+  client: any,
+  roomId: string,
+  conversationId: string,
+  threadMap: ThreadMap,
+  isThreadReply: boolean,
+  content: { text: string; blocks?: any[] },
+  attachments: PreparedAttachment[]
+): Promise<MessageCopy | null> {
+  const threadTs = threadMap.get(roomId);
+  if (isThreadReply && !threadTs) {
+    logger.info(`Not mirroring a reply: conversation ${conversationId} started before mirroring was turned on in ${roomId}`);
+    return null;
+  }
+  
+  try {
+    const response = await client.chat.postMessage({
+      channel: roomId,
+      mrkdwn: true,
+      ...content,
+      thread_ts: isThreadReply ? threadTs : undefined
+    });
+    const ts = response.ts as string;
+    if (!isThreadReply) {
+      threadMap.set(roomId, ts);
+      await workspace().conversationStore.setThreadTs(conversationId, roomId, ts);
+    }
+    
+    let fileIds: string[] | undefined;
+    try {
+      fileIds = await uploadAttachments(client, roomId, isThreadReply ? threadTs! : ts, attachments);
+    } catch (error) {
+      logger.error(`Failed to upload attachments to the channel ${roomId}:`, error);
+    }
+    return { userId: roomId, channel: roomId, ts, fileIds };
+  } catch (error) {
+    logger.warn(`Couldn't mirror message into the channel ${roomId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Build the summary a sender sees after their message was broadcast
+ * Only counts are included, never who did or didn't receive it.
+ * @returns The summary, or null if everyone received the message
+ */
+function formatDeliverySummary(report: DeliveryReport, roomName: string): string | null {
+  if (report.eligible === 0) {
+    return `Your message wasn't delivered to anyone. All other members in #${roomName} are bots or couldn't be reached.`;
+  }
+  if (report.delivered === 0) {
+    return `Your message couldn't be delivered to any members in #${roomName}. There might be an issue with DM permissions.`;
+  }
+  if (report.delivered < report.eligible) {
+    return `Your message was delivered to ${report.delivered} out of ${report.eligible} members in #${roomName}.`;
+  }
+  return null;
+}
+
+/**
+ * Apply an edit of a relayed DM to every copy that was delivered
+ */
+async function handleMessageEdited(client: any, msg: any) {
+  const edited = msg.message;
+  if (!edited || edited.text === msg.previous_message?.text) {
+    // Unfurls and other metadata changes also arrive as message_changed
+    return;
+  }
+
+  // A DM waiting for its sender to confirm it goes through the checks again with the new text,
+  // so a preview shows what will actually go out
+  const held = takeUnconfirmedMessage(msg.channel, edited.ts);
+  if (held) {
+    const text = held.msg.thread_ts ? edited.text || '' : parseRoomPrefix(edited.text || '').text;
+    await submitDirectMessage(client, { ...held.msg, text: edited.text, files: edited.files }, held.room, text);
+    return;
+  }
+
+  // Messages that haven't gone out yet just get their text replaced
+  const pending = await workspace().deliveryQueue.findByMessage(msg.channel, edited.ts);
+  if (pending && pending.payload.kind === 'dm') {
+    const text = pending.payload.message.thread_ts ? edited.text || '' : parseRoomPrefix(edited.text || '').text;
+    const reasons = checkMessage(text, await getModerationRules());
+    if (reasons.length > 0) {
+      await client.chat.postEphemeral({
+        channel: msg.channel,
+        user: edited.user,
+        thread_ts: pending.payload.message.thread_ts,
+        text: `Your edit wasn't applied, the message will go out as it was: ${reasons.join('; ')}.`
+      });
+      return;
+    }
+    const apply = async () => {
+      await workspace().deliveryQueue.update(pending.id, { payload: { ...pending.payload, text } });
+    };
+    if (!await holdIdentifyingMessage(client, edited.user, msg.channel, text, apply, { threadTs: pending.payload.message.thread_ts, subject: 'Your edit' })) {
+      await apply();
+    }
+    return;
+  }
+
+  const relayed = await workspace().conversationStore.getRelayedMessage(await getSourceKey(msg.channel, edited.ts));
+  if (!relayed) {
+    return;
+  }
+
+  const isDirectMessage = msg.channel_type === 'im';
+  const rawText = isDirectMessage && !relayed.message.isThreadReply ? parseRoomPrefix(edited.text || '').text : edited.text || '';
+  
+  // Edits have to pass moderation too, otherwise they could sneak in anything
+  const reasons = checkMessage(rawText, await getModerationRules());
+  if (reasons.length > 0) {
+    await client.chat.postEphemeral({
+      channel: msg.channel,
+      user: edited.user,
+      thread_ts: edited.thread_ts,
+      text: `Your edit wasn't applied to the anonymous copies: ${reasons.join('; ')}.`
+    });
+    return;
+  }
+  
+  // Replies in a mirror thread are signed, only anonymous messages need the identity check
+  const apply = () => applyMessageEdit(client, relayed.sourceKey, edited, rawText, isDirectMessage);
+  if (!isDirectMessage || !await holdIdentifyingMessage(client, edited.user, msg.channel, rawText, apply, { threadTs: edited.thread_ts, subject: 'Your edit' })) {
+    await apply();
+  }
+}
+
+/**
+ * Update a relayed message's record, transcript entry and copies with its edited text
+ * The record is read again, since the edit might have waited for its sender to confirm it.
+ */
+async function applyMessageEdit(client: any, sourceKey: string, edited: any, rawText: string, isDirectMessage: boolean) {
+  const relayed = await workspace().conversationStore.getRelayedMessage(sourceKey);
+  if (!relayed) {
+    return;
+  }
+  
+  const { conversationId, message } = relayed;
+  const text = await sanitizeRelayedText(client, rawText);
+  if (!isDirectMessage) {
+    // Replies in a mirror thread are signed with the replier's name
+    message.content = buildMessageContent(
+      `${formatReplyWithId(text, conversationId, `<@${edited.user}>`)} _(edited)_`,
+      countAllowedAttachments(getFilesFromMessage(edited))
+    );
+    await workspace().conversationStore.recordRelayedMessage(conversationId, relayed.sourceKey, message);
+    await updateTranscriptEntry(conversationId, message, text, countAllowedAttachments(getFilesFromMessage(edited)));
+    await updateCopies(client, relayed);
+    return;
+  }
+  
+  const label = message.isThreadReply
+    ? await getParticipantLabel(conversationId, await workspace().conversationStore.getRoomId(conversationId), edited.user, false)
+    : 'Anonymous';
+  const messageText = message.isThreadReply
+    ? formatReplyWithId(text, conversationId, label)
+    : formatMessageWithId(text, conversationId);
+
+  message.content = buildMessageContent(`${messageText} _(edited)_`, countAllowedAttachments(getFilesFromMessage(edited)));
+  await workspace().conversationStore.recordRelayedMessage(conversationId, relayed.sourceKey, message);
+  await updateTranscriptEntry(conversationId, message, text, countAllowedAttachments(getFilesFromMessage(edited)));
+
+  await updateCopies(client, relayed);
+}
+
+/**
+ * Apply an edit to the transcript entry of a relayed message
+ */
+async function updateTranscriptEntry(conversationId: string, message: RelayedMessage, text: string, attachments: number) {
+  if (!message.transcriptId) {
+    return;
+  }
+  const code = getConversationCode(await getPseudonymSecret(), conversationId);
+  await workspace().transcriptStore.update(code, message.transcriptId, text, attachments);
+}
+
+/**
+ * Re-render every copy of a relayed message after its content or reactions changed
+ */
+async function updateCopies(client: any, relayed: RelayedMessageRef) {
+  const { message } = relayed;
+  const content = renderRelayedMessage(message);
+
+  let updatedCount = 0;
+  for (const copy of message.copies) {
+    try {
+      await client.chat.update({
+        channel: copy.channel,
+        ts: copy.ts,
+        ...content
+      });
+      updatedCount++;
+    } catch (error) {
+      logger.warn(`Couldn't update copy of message in ${copy.channel}:`, error);
+    }
+  }
+
+  logger.info(`Updated ${updatedCount} out of ${message.copies.length} copies. Conversation ID: ${relayed.conversationId}`);
+}
+
+/**
+ * Mirror a reaction on one copy of a relayed message onto every copy
+ */
+async function handleReactionChanged(client: any, event: any, added: boolean) {
+  if (event.item?.type !== 'message') {
+    return;
+  }
+
+  const relayed = await workspace().conversationStore.findRelayedMessageByCopy(event.item.channel, event.item.ts);
+  if (!relayed) {
+    return;
+  }
+
+  if (!applyReaction(relayed.message, event.user, event.reaction, added)) {
+    return;
+  }
+  await workspace().conversationStore.recordRelayedMessage(relayed.conversationId, relayed.sourceKey, relayed.message);
+
+  await updateCopies(client, relayed);
+}
+
+/**
+ * Delete every copy of a relayed DM after the sender deleted it
+ */
+async function handleMessageDeleted(client: any, msg: any) {
+  // Deleting a message that is still waiting to go out cancels it
+  const pending = await workspace().deliveryQueue.findByMessage(msg.channel, msg.deleted_ts);
+  if (pending) {
+    await cancelScheduledDelivery(client, pending.id);
+    return;
+  }
+
+  await deleteRelayedCopies(client, await getSourceKey(msg.channel, msg.deleted_ts));
+}
+
+/**
+ * Delete every copy of a relayed message, with its attachments, digest items and transcript entry
+ * @returns false if the message isn't known (anymore)
+ */
+async function deleteRelayedCopies(client: any, sourceKey: string): Promise<boolean> {
+  const relayed = await workspace().conversationStore.getRelayedMessage(sourceKey);
+  if (!relayed) {
+    return false;
+  }
+
+  let deletedCount = 0;
+  for (const copy of relayed.message.copies) {
+    // Re-hosted attachments go too; one that can't be deleted doesn't keep the message up
+    for (const fileId of copy.fileIds || []) {
+      try {
+        await client.files.delete({ file: fileId });
+      } catch (error) {
+        logger.warn(`Couldn't delete attachment ${fileId} of message in ${copy.channel}:`, error);
+      }
+    }
+    try {
+      await client.chat.delete({
+        channel: copy.channel,
+        ts: copy.ts
+      });
+      deletedCount++;
+    } catch (error) {
+      logger.warn(`Couldn't delete copy of message in ${copy.channel}:`, error);
+    }
+  }
+
+  await workspace().conversationStore.removeRelayedMessage(sourceKey);
+  if (relayed.message.digestId) {
+    await workspace().preferencesStore.removeFromDigests(relayed.message.digestId);
+  }
+  if (relayed.message.transcriptId) {
+    const code = getConversationCode(await getPseudonymSecret(), relayed.conversationId);
+    await workspace().transcriptStore.remove(code, relayed.message.transcriptId);
+  }
+  logger.info(`Deleted ${deletedCount} out of ${relayed.message.copies.length} copies. Conversation ID: ${relayed.conversationId}`);
+  return true;
+}
+
+/**
+ * Get the room to use when none was picked explicitly
+ * Only unambiguous when the bot is in exactly one channel
+ */
+async function getDefaultRoom(client: any): Promise<Room | null> {
+  const rooms = await workspace().roomDirectory.list(client);
+  return rooms.length === 1 ? rooms[0] : null;
+}
+
+/**
+ * Format rooms as a list of channel names
+ */
+function formatRoomList(rooms: Room[]): string {
+  return rooms.map(room => `#${room.name}`).join(', ');
+}
+
+/**
+ * Ask the sender which room a DM should go to
+ */
+async function postRoomPicker(client: any, msg: any, rooms: Room[]) {
+  await client.chat.postMessage({
+    channel: msg.channel,
+    thread_ts: msg.ts,
+    text: `Which room should this anonymous message go to?`,
+    blocks: [
+      {
+        type: "section",
+        block_id: `room_picker:${msg.ts}`,
+        text: {
+          type: "mrkdwn",
+          text: `Which room should this anonymous message go to? You can also start a message with \`#room\` to skip this step.`
+        },
+        accessory: {
+          type: "static_select",
+          action_id: "select_room",
+          placeholder: {
+            type: "plain_text",
+            text: "Pick a room"
+          },
+          options: rooms.slice(0, 100).map(room => ({
+            text: {
+              type: "plain_text",
+              text: `#${room.name}`
+            },
+            value: room.id
+          }))
+        }
+      }
+    ]
+  });
+}
+
+/**
+ * Check a DM against the moderation rules, then relay it or hold it for review
+ */
+async function submitDirectMessage(client: any, msg: any, room: Room, text: string, confirmed: boolean = false) {
+  // `poll "Question?" "A" "B"` starts a poll instead of a conversation
+  if (!msg.thread_ts && isPollRequest(text)) {
+    await submitPoll(client, msg.user, msg.channel, room, text);
+    return;
+  }
+  
+  // A preview already points out identifying content, so it doesn't need its own confirmation
+  if (!confirmed && await holdForPreview(client, msg, room, text)) {
+    return;
+  }
+  const send = () => submitDirectMessage(client, msg, room, text, true);
+  if (!confirmed && await holdIdentifyingMessage(client, msg.user, msg.channel, text, send, { threadTs: msg.thread_ts, held: { msg, room } })) {
+    return;
+  }
+  
+  const reasons = checkMessage(text, await getModerationRules());
+  if (reasons.length === 0 && DELIVERY_DELAY_MAX_MS > 0) {
+    await scheduleDelivery(client, msg.user, {
+      kind: 'dm',
+      roomId: room.id,
+      text,
+      message: {
+        user: msg.user,
+        channel: msg.channel,
+        ts: msg.ts,
+        thread_ts: msg.thread_ts,
+        files: getFilesFromMessage(msg)
+      }
+    }, msg.ts);
+    return;
+  }
+  if (reasons.length === 0) {
+    await relayDirectMessage(client, msg, room, text);
+    return;
+  }
+  
+  // Without admins there is nobody to review, so the message is rejected outright
+  const { moderationAdmins } = await workspace().settings.get();
+  if (moderationAdmins.length === 0) {
+    await client.chat.postEphemeral({
+      channel: msg.channel,
+      user: msg.user,
+      text: `Your message wasn't sent: ${reasons.join('; ')}.`
+    });
+    return;
+  }
+  
+  const held = await workspace().moderationQueue.hold({
+    roomId: room.id,
+    text,
+    reasons,
+    message: {
+      user: msg.user,
+      channel: msg.channel,
+      ts: msg.ts,
+      thread_ts: msg.thread_ts,
+      files: getFilesFromMessage(msg)
+    }
+  });
+  
+  for (const adminId of moderationAdmins) {
+    try {
+      const dmChannel = await workspace().deliveryEngine.openDm(client, adminId);
+      const response = await client.chat.postMessage({
+        channel: dmChannel,
+        text: `An anonymous message for #${room.name} was held for review`,
+        blocks: buildReviewBlocks(held, room)
+      });
+      await workspace().moderationQueue.addReview(held.id, { channel: dmChannel!, ts: response.ts });
+    } catch (error) {
+      logger.error(`Couldn't send review request to admin ${adminId}:`, error);
+    }
+  }
+  
+  await client.chat.postEphemeral({
+    channel: msg.channel,
+    user: msg.user,
+    text: `Your message was held for review by an admin (${reasons.join('; ')}). You'll be told when it's approved or rejected.`
+  });
+  logger.info(`Held message ${held.id} for review. Room: #${room.name}`);
+}
+
+/**
+ * Build the review prompt admins get for a held message - it never includes the sender
+ */
+function buildReviewBlocks(held: HeldMessage, room: Room): any[] {
+  const quoted = held.text.split('\n').map(line => `>${line}`).join('\n');
+  const kind = held.message.thread_ts ? 'reply' : 'message';
+  return [
+    {
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: `*Anonymous ${kind} held for review* in #${room.name}\n${quoted}`
+      }
+    },
+    {
+      type: "context",
+      elements: [
+        {
+          type: "mrkdwn",
+          text: `Reasons: ${held.reasons.join('; ')}`
+        }
+      ]
+    },
+    {
+      type: "actions",
+      elements: [
+        {
+          type: "button",
+          action_id: "moderation_approve",
+          style: "primary",
+          text: {
+            type: "plain_text",
+            text: "Approve"
+          },
+          value: held.id
+        },
+        {
+          type: "button",
+          action_id: "moderation_reject",
+          style: "danger",
+          text: {
+            type: "plain_text",
+            text: "Reject"
+          },
+          value: held.id
+        }
+      ]
+    }
+  ];
+}
+
+/**
+ * Approve or reject a held message and close every admin's review prompt
+ */
+async function resolveHeldMessage(client: any, heldId: string, adminId: string, approved: boolean): Promise<boolean> {
+  const held = await workspace().moderationQueue.take(heldId);
+  if (!held) {
+    return false;
+  }
+  
+  // Taking the message first stops two admins approving it at once; it goes back if relaying fails
+  const room = await workspace().roomDirectory.get(client, held.roomId);
+  if (approved && room) {
+    try {
+      await relayDirectMessage(client, held.message, room, held.text);
+    } catch (error) {
+      await workspace().moderationQueue.restore(held);
+      throw error;
+    }
+  }
+  
+  const outcome = approved ? 'Approved' : 'Rejected';
+  for (const review of held.reviews) {
+    try {
+      await client.chat.update({
+        channel: review.channel,
+        ts: review.ts,
+        text: `${outcome} by <@${adminId}>`,
+        blocks: [
+          {
+            type: "section",
+            text: {
+              type: "mrkdwn",
+              text: `~Anonymous message held for review~ *${outcome}* by <@${adminId}>`
+            }
+          }
+        ]
+      });
+    } catch (error) {
+      logger.warn(`Couldn't update review prompt in ${review.channel}:`, error);
+    }
+  }
+  
+  await client.chat.postMessage({
+    channel: held.message.channel,
+    thread_ts: held.message.thread_ts || held.message.ts,
+    text: approved
+      ? (room ? `Your anonymous message was approved and sent to #${room.name}.` : `Your anonymous message was approved, but its room is no longer available.`)
+      : `Your anonymous message was rejected by an admin and wasn't sent.`
+  });
+  
+  logger.info(`${outcome} held message ${held.id}`);
+  return true;
+}
+
+/**
+ * Notify admins about a reported anonymous message - the reporter stays anonymous too
+ */
+async function reportMessage(client: any, channel: string, ts: string, reason: string): Promise<boolean> {
+  const relayed = await workspace().conversationStore.findRelayedMessageByCopy(channel, ts);
+  if (!relayed) {
+    return false;
+  }
+  
+  const roomId = await workspace().conversationStore.getRoomId(relayed.conversationId);
+  const room = roomId ? await workspace().roomDirectory.get(client, roomId) : null;
+  const quoted = relayed.message.content.text.split('\n').map(line => `>${line}`).join('\n');
+  
+  for (const adminId of (await workspace().settings.get()).moderationAdmins) {
+    try {
+      const dmChannel = await workspace().deliveryEngine.openDm(client, adminId);
+      await client.chat.postMessage({
+        channel: dmChannel,
+        text: `An anonymous message was reported`,
+        blocks: [
+          {
+            type: "section",
+            text: {
+              type: "mrkdwn",
+              text: `*Anonymous message reported*${room ? ` in #${room.name}` : ''}\n${quoted}`
+            }
+          },
+          {
+            type: "context",
+            elements: [
+              {
+                type: "mrkdwn",
+                text: reason ? `Reason: ${reason}` : 'No reason given'
+              }
+            ]
+          }
+        ]
+      });
+    } catch (error) {
+      logger.error(`Couldn't send report to admin ${adminId}:`, error);
+    }
+  }
+  
+  logger.info(`Reported message in conversation ${relayed.conversationId}`);
+  return true;
+}
+
+/**
+ * Validate a poll and post it to a room
+ * @param channel Where to tell the creator about problems
+ * @param confirmed Whether the creator already confirmed a poll that looked identifying
+ */
+async function submitPoll(client: any, userId: string, channel: string, room: Room, text: string, confirmed: boolean = false) {
+  if (!(await workspace().settings.get()).polls) {
+    await client.chat.postEphemeral({
+      channel,
+      user: userId,
+      text: `Polls are turned off in this workspace.`
+    });
+    return;
+  }
+  
+  const request = parsePollRequest(text);
+  if ('error' in request) {
+    await client.chat.postEphemeral({
+      channel,
+      user: userId,
+      text: `${request.error} Usage: \`/54y poll "Question?" "Option A" "Option B" [--hidden] [--close 2h]\``
+    });
+    return;
+  }
+  
+  // Polls can't wait for review, so anything the rules would hold is rejected
+  const pollText = [request.question, ...request.options].join('\n');
+  const reasons = checkMessage(pollText, await getModerationRules());
+  if (reasons.length > 0) {
+    await client.chat.postEphemeral({
+      channel,
+      user: userId,
+      text: `Your poll wasn't posted: ${reasons.join('; ')}.`
+    });
+    return;
+  }
+  if (!confirmed && await holdIdentifyingMessage(client, userId, channel, pollText, () => submitPoll(client, userId, channel, room, text, true))) {
+    return;
+  }
+  
+  // The poll is kept as shown, so every re-render of its copies is sanitized too
+  const shown = {
+    ...request,
+    question: await sanitizeRelayedText(client, request.question),
+    options: await Promise.all(request.options.map(option => sanitizeRelayedText(client, option)))
+  };
+  const secret = await getPseudonymSecret();
+  const poll = await workspace().pollStore.create(room.id, shown, pollId => getPseudonymKey(secret, `${pollId}:creator`, userId));
+  const conversationId = createConversationId();
+  const sourceKey = `poll:${poll.id}`;
+  await workspace().pollStore.setSource(poll.id, conversationId, sourceKey);
+  await workspace().conversationStore.setRoomId(conversationId, room.id);
+  
+  // Everyone gets a copy to vote on, the creator included
+  const members = await getChannelMembers(client, room.id);
+  const { report, copies, content, digestId } = await broadcastToMembers(
+    client,
+    members,
+    null,
+    formatPollText(poll, conversationId),
+    conversationId,
+    new Map<string, string>(),
+    false,
+    undefined,
+    buildPollBlocks(poll)
+  );
+  await workspace().conversationStore.recordRelayedMessage(conversationId, sourceKey, {
+    isThreadReply: false,
+    content,
+    copies,
+    digestId,
+    transcriptId: await logTranscriptEntry(
+      conversationId,
+      room.id,
+      'Anonymous',
+      [`Poll: ${shown.question}`, ...shown.options.map(option => `• ${option}`)].join('\n'),
+      false,
+      0,
+      [userId, ...copies.map(copy => copy.userId)]
+    )
+  });
+  await escrowSender(await getConversationEscrowTarget(conversationId), room.id, userId, request.question);
+  
+  // The creator can close the poll early from their DM with the bot
+  const dmChannel = await workspace().deliveryEngine.openDm(client, userId);
+  const notice = `Your anonymous poll was sent to ${report.delivered} member${report.delivered === 1 ? '' : 's'} of #${room.name}.`;
+  await client.chat.postMessage({
+    channel: dmChannel,
+    text: notice,
+    blocks: [
+      {
+        type: "section",
+        text: {
+          type: "mrkdwn",
+          text: notice
+        }
+      },
+      {
+        type: "actions",
+        elements: [
+          {
+            type: "button",
+            action_id: "close_poll",
+            text: {
+              type: "plain_text",
+              text: "Close poll"
+            },
+            value: poll.id
+          }
+        ]
+      }
+    ]
+  });
+  
+  logger.info(`Broadcast anonymous poll ${poll.id} to ${report.delivered} members. Room: #${room.name}, Conversation ID: ${conversationId}`);
+}
+
+/**
+ * Text of a poll's copies - the question with the hidden conversation ID
+ */
+function formatPollText(poll: Poll, conversationId: string): string {
+  return formatMessageWithId(`:bar_chart: *${poll.question}*`, conversationId);
+}
+
+/**
+ * Re-render every copy of a relayed message from its latest state
+ * A refresh waits a moment before reading the state, so changes made in the meantime join it;
+ * changes made while copies are being updated get one follow-up refresh.
+ * @param render Builds the new content, or returns null to leave the copies alone
+ */
+function refreshCopies(client: any, sourceKey: string, render: (conversationId: string) => Promise<{ text: string; blocks?: any[] } | null>): Promise<void> {
+  const refreshes = workspace().copyRefreshes;
+  let refresh = refreshes.get(sourceKey);
+  if (!refresh) {
+    refresh = {
+      queue: new WriteQueue(async () => {
+        const relayed = await workspace().conversationStore.getRelayedMessage(sourceKey);
+        const content = relayed ? await render(relayed.conversationId) : null;
+        if (!relayed || !content) {
+          return;
+        }
+        relayed.message.content = content;
+        await workspace().conversationStore.recordRelayedMessage(relayed.conversationId, relayed.sourceKey, relayed.message);
+        await updateCopies(client, relayed);
+      }),
+      scheduled: null
+    };
+    refreshes.set(sourceKey, refresh);
+  }
+  
+  const current = refresh;
+  if (!current.scheduled) {
+    current.scheduled = new Promise(resolve => setTimeout(resolve, COPY_REFRESH_DELAY_MS))
+      .then(() => {
+        current.scheduled = null;
+        return current.queue.flush();
+      })
+      .finally(() => {
+        if (!current.scheduled && refreshes.get(sourceKey) === current) {
+          refreshes.delete(sourceKey);
+        }
+      });
+  }
+  return current.scheduled;
+}
+
+/**
+ * Re-render every copy of a poll with the latest counts
+ */
+async function refreshPoll(client: any, pollId: string) {
+  const poll = await workspace().pollStore.get(pollId);
+  if (!poll?.sourceKey) {
+    return;
+  }
+  await refreshCopies(client, poll.sourceKey, async conversationId => {
+    const latest = await workspace().pollStore.get(pollId);
+    return latest ? buildMessageContent(formatPollText(latest, conversationId), 0, buildPollBlocks(latest)) : null;
+  });
+}
+
+/**
+ * Close polls whose close time has passed and show their final results
+ */
+async function processDuePolls(client: any) {
+  for (const poll of await workspace().pollStore.closeDue()) {
+    logger.info(`Closed poll ${poll.id}`);
+    await refreshPoll(client, poll.id);
+  }
+}
+
+/**
+ * Find the Q&A session a DM question is meant for
+ * A "#room" prefix picks the session; without one, the only open session is used.
+ * @returns The session, or why there isn't one
+ */
+async function findQaSession(client: any, prefix: { channelId?: string; name?: string }): Promise<QaSession | string> {
+  if (prefix.channelId || prefix.name) {
+    const room = prefix.channelId
+      ? await workspace().roomDirectory.get(client, prefix.channelId)
+      : await workspace().roomDirectory.findByName(client, prefix.name!);
+    const session = room ? await workspace().qaStore.getOpen(room.id) : null;
+    return session || `There's no open Q&A session in that channel.`;
+  }
+
+  const sessions = await workspace().qaStore.listOpen();
+  if (sessions.length === 0) {
+    return `There's no open Q&A session right now.`;
+  }
+  if (sessions.length > 1) {
+    return `Several Q&A sessions are open. Start your question with the channel, e.g. \`#channel qa Your question\`.`;
+  }
+  return sessions[0];
+}
+
+/**
+ * Add a DM question to a Q&A session and broadcast it to the room for upvoting
+ * @param confirmed Whether the asker already confirmed a question that looked identifying
+ */
+async function submitQaQuestion(client: any, msg: any, prefix: { channelId?: string; name?: string; text: string }, confirmed: boolean = false) {
+  if (!(await workspace().settings.get()).qa) {
+    await client.chat.postEphemeral({
+      channel: msg.channel,
+      user: msg.user,
+      text: `Q&A sessions are turned off in this workspace.`
+    });
+    return;
+  }
+  
+  const session = await findQaSession(client, prefix);
+  if (typeof session === 'string') {
+    await client.chat.postEphemeral({
+      channel: msg.channel,
+      user: msg.user,
+      text: session
+    });
+    return;
+  }
+  
+  // Questions can't wait for review, so anything the rules would hold is rejected
+  const text = getQaQuestionText(prefix.text);
+  const reasons = checkMessage(text, await getModerationRules());
+  if (reasons.length > 0) {
+    await client.chat.postEphemeral({
+      channel: msg.channel,
+      user: msg.user,
+      text: `Your question wasn't sent: ${reasons.join('; ')}.`
+    });
+    return;
+  }
+  if (!confirmed && await holdIdentifyingMessage(client, msg.user, msg.channel, text, () => submitQaQuestion(client, msg, prefix, true))) {
+    return;
+  }
+  
+  const conversationId = createConversationId();
+  const question = await workspace().qaStore.addQuestion(session.id, conversationId, await sanitizeRelayedText(client, text));
+  if (!question) {
+    return;
+  }
+  await workspace().conversationStore.setRoomId(conversationId, session.channelId);
+  
+  const members = await getChannelMembers(client, session.channelId);
+  const { report, copies, content, digestId } = await broadcastToMembers(
+    client,
+    members,
+    msg.user,
+    formatQuestionText(question),
+    conversationId,
+    new Map<string, string>(),
+    false,
+    undefined,
+    buildQuestionBlocks(session, question)
+  );
+  await workspace().conversationStore.recordRelayedMessage(conversationId, getQuestionSourceKey(session.id, question.id), {
+    isThreadReply: false,
+    content,
+    copies,
+    digestId,
+    transcriptId: await logTranscriptEntry(conversationId, session.channelId, 'Anonymous', `Question: ${question.text}`, false, 0, [msg.user, ...copies.map(copy => copy.userId)])
+  });
+  await escrowSender(await getConversationEscrowTarget(conversationId), session.channelId, msg.user, text);
+  
+  // The asker's own DM is their thread for the conversation
+  await workspace().conversationStore.setThreadTs(conversationId, getStarterKey(await getPseudonymSecret(), conversationId, msg.user), msg.ts);
+  
+  await client.chat.postEphemeral({
+    channel: msg.channel,
+    user: msg.user,
+    text: `Your question was added to the Q&A anonymously.`
+  });
+  logger.info(`Broadcast Q&A question to ${report.delivered} members. Session: ${session.id}, Conversation ID: ${conversationId}`);
+}
+
+/**
+ * Text of a question's copies - the question with the hidden conversation ID
+ */
+function formatQuestionText(question: QaQuestion): string {
+  return formatMessageWithId(`:question: *Question:* ${question.text}`, question.conversationId);
+}
+
+/**
+ * Key a question's copies are recorded under in the conversation store
+ */
+function getQuestionSourceKey(sessionId: string, questionId: string): string {
+  return `qa:${sessionId}:${questionId}`;
+}
+
+/**
+ * Re-render every copy of a question with the latest upvotes and status
+ */
+async function refreshQuestion(client: any, sessionId: string, questionId: string) {
+  await refreshCopies(client, getQuestionSourceKey(sessionId, questionId), async () => {
+    const session = await workspace().qaStore.get(sessionId);
+    const question = session?.questions[questionId];
+    return session && question
+      ? buildMessageContent(formatQuestionText(question), 0, buildQuestionBlocks(session, question))
+      : null;
+  });
+}
+
+/**
+ * Whether a user may run a Q&A session - its host or a moderation admin
+ */
+async function canManageQa(session: QaSession, userId: string): Promise<boolean> {
+  return session.hostId === userId || (await workspace().settings.get()).moderationAdmins.includes(userId);
+}
+
+/**
+ * Build a page of the ranked question list; the host gets buttons to post and mark questions
+ * @param page Zero-based page; pages keep the list within Slack's block limit
+ */
+function buildQaListBlocks(session: QaSession, asHost: boolean, page: number = 0): any[] {
+  const ranked = rankQuestions(session);
+  const pageCount = Math.max(1, Math.ceil(ranked.length / QA_LIST_PAGE_SIZE));
+  page = Math.min(Math.max(page, 0), pageCount - 1);
+  const first = page * QA_LIST_PAGE_SIZE;
+  const questions = ranked.slice(first, first + QA_LIST_PAGE_SIZE);
+  const blocks: any[] = [
+    {
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: ranked.length === 0
+          ? `No questions yet in <#${session.channelId}>.`
+          : `*Questions in <#${session.channelId}>*, most upvoted first${pageCount > 1 ? ` (page ${page + 1} of ${pageCount})` : ''}:`
+      }
+    }
+  ];
+  
+  questions.forEach((question, index) => {
+    const status = question.answered ? ' · :white_check_mark: answered' : '';
+    blocks.push({
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: `*${first + index + 1}.* ${question.text}\n_${question.upvotes.length} upvote${question.upvotes.length === 1 ? '' : 's'}${status}_`
+      }
+    });
+    if (asHost) {
+      // The page goes along, so the list stays where the host was
+      const value = `${session.id}:${question.id}:${page}`;
+      const elements: any[] = [
+        {
+          type: "button",
+          action_id: "qa_post",
+          text: {
+            type: "plain_text",
+            text: "Post to channel"
+          },
+          value
+        }
+      ];
+      if (!question.answered) {
+        elements.push({
+          type: "button",
+          action_id: "qa_answered",
+          style: "primary",
+          text: {
+            type: "plain_text",
+            text: "Mark answered"
+          },
+          value
+        });
+      }
+      blocks.push({
+        type: "actions",
+        block_id: `qa_question_${question.id}`,
+        elements
+      });
+    }
+  });
+  
+  if (pageCount > 1) {
+    const elements: any[] = [];
+    if (page > 0) {
+      elements.push({
+        type: "button",
+        action_id: "qa_list_previous",
+        text: { type: "plain_text", text: "Previous" },
+        value: `${session.id}:${page - 1}`
+      });
+    }
+    if (page < pageCount - 1) {
+      elements.push({
+        type: "button",
+        action_id: "qa_list_next",
+        text: { type: "plain_text", text: "Next" },
+        value: `${session.id}:${page + 1}`
+      });
+    }
+    blocks.push({
+      type: "actions",
+      block_id: "qa_list_pages",
+      elements
+    });
+  }
+  
+  return blocks;
+}
+
+/**
+ * Send held messages to members whose quiet hours are over, one digest each
+ */
+async function processDigests(client: any) {
+  const deliveryClient = getDeliveryClient(client);
+  for (const { userId, items } of await workspace().preferencesStore.takeReadyDigests()) {
+    try {
+      const dmChannel = await workspace().deliveryEngine.openDm(deliveryClient, userId);
+      const blocks = await buildDigestBlocks(client, items);
+      await workspace().deliveryEngine.withRetry(() => deliveryClient.chat.postMessage({
+        channel: dmChannel,
+        text: `${items.length} anonymous message${items.length === 1 ? '' : 's'} arrived during your quiet hours`,
+        blocks
+      }));
+    } catch (error) {
+      logger.error(`Failed to deliver digest to user ${userId}:`, error);
+    }
+  }
+}
+
+/**
+ * Build a digest of held messages, each labelled with the room it came from
+ */
+async function buildDigestBlocks(client: any, items: DigestItem[]): Promise<any[]> {
+  const blocks: any[] = [
+    {
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: `*${items.length} anonymous message${items.length === 1 ? '' : 's'} arrived during your quiet hours:*`
+      }
+    }
+  ];
+  
+  // Slack allows 50 blocks per message
+  const shown = items.slice(0, DIGEST_MAX_ITEMS);
+  for (const item of shown) {
+    const roomId = await workspace().conversationStore.getRoomId(item.conversationId);
+    const room = roomId ? await workspace().roomDirectory.get(client, roomId) : null;
+    const seconds = Math.floor(item.receivedAt / 1000);
+    blocks.push({
+      type: "context",
+      elements: [
+        {
+          type: "mrkdwn",
+          text: `${room ? `#${room.name}` : 'Anonymous'}${item.isThreadReply ? ' · reply' : ''} · <!date^${seconds}^{time}|${new Date(item.receivedAt).toISOString()}>`
+        }
+      ]
+    });
+    blocks.push({
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: item.text.length > 2900 ? `${item.text.slice(0, 2900)}…` : item.text
+      }
+    });
+  }
+  if (items.length > shown.length) {
+    blocks.push({
+      type: "context",
+      elements: [
+        {
+          type: "mrkdwn",
+          text: `…and ${items.length - shown.length} more.`
+        }
+      ]
+    });
+  }
+  
+  return blocks;
+}
+
+/**
+ * Publish a member's Home tab with the conversations they take part in
+ */
+async function publishHome(client: any, userId: string) {
+  const summaries = await workspace().conversationStore.listConversationsForUser(await getThreadKeys(userId), HOME_CONVERSATION_LIMIT);
+  const secret = await getPseudonymSecret();
+  const preferences = await workspace().preferencesStore.get(userId);
+  const dmChannel = summaries.length > 0 ? await workspace().deliveryEngine.openDm(client, userId) : null;
+  
+  const conversations: HomeConversation[] = [];
+  for (const summary of summaries) {
+    const room = summary.roomId ? await workspace().roomDirectory.get(client, summary.roomId) : null;
+    const code = getConversationCode(secret, summary.conversationId);
+    
+    let permalink: string | undefined;
+    try {
+      const response = await client.chat.getPermalink({ channel: dmChannel, message_ts: summary.threadTs });
+      permalink = response.permalink;
+    } catch (error) {
+      logger.warn(`Couldn't get permalink for a Home tab conversation:`, error);
+    }
+    
+    conversations.push({
+      roomName: room?.name,
+      firstLine: getFirstLine(summary.root?.text || ''),
+      replyCount: summary.replyCount,
+      updatedAt: summary.updatedAt,
+      state: summary.state,
+      exportable: TRANSCRIPT_RETENTION_MS > 0,
+      // Only the starter's thread is kept under their keyed hash
+      startedByMe: summary.key === getStarterKey(secret, summary.conversationId, userId),
+      permalink,
+      code,
+      muted: preferences.muted.includes(code)
+    });
+  }
+  
+  await client.views.publish({
+    user_id: userId,
+    view: buildHomeView(conversations, preferences.optedOut)
+  });
+}
+
+/**
+ * First line of a relayed message without its label and hidden ID, for previews
+ */
+function getFirstLine(text: string): string {
+  const line = text.replace(/^\[[^\]]*\]\s*/, '').split('\n')[0].trim();
+  return line.length > 150 ? `${line.slice(0, 150)}…` : line;
+}
+
+/**
+ * Queue an anonymous message for delivery after a random delay
+ * The sender gets a notice in their DM with the bot where they can send it now,
+ * pick a time, or cancel it.
+ */
+async function scheduleDelivery(client: any, userId: string, payload: ScheduledPayload, threadTs?: string) {
+  const delay = getJitteredDelay(DELIVERY_DELAY_MIN_MS, DELIVERY_DELAY_MAX_MS);
+  const delivery = await workspace().deliveryQueue.add(userId, Date.now() + delay, payload);
+  
+  try {
+    const dmChannel = payload.kind === 'dm' ? payload.message.channel : await workspace().deliveryEngine.openDm(client, userId);
+    const response = await client.chat.postMessage({
+      channel: dmChannel,
+      thread_ts: threadTs,
+      text: `Your anonymous message is queued`,
+      blocks: await buildScheduledBlocks(client, delivery)
+    });
+    await workspace().deliveryQueue.update(delivery.id, { notice: { channel: dmChannel!, ts: response.ts } });
+  } catch (error) {
+    logger.error('Error posting scheduled delivery notice:', error);
+  }
+  
+  logger.info(`Queued delivery ${delivery.id} in ${Math.round(delay / 1000)}s`);
+}
+
+/**
+ * Describe a queued delivery with buttons to send it now, reschedule or cancel it
+ */
+async function buildScheduledBlocks(client: any, delivery: ScheduledDelivery): Promise<any[]> {
+  const payload = delivery.payload;
+  let destination: string;
+  if (payload.kind === 'dm') {
+    const room = await workspace().roomDirectory.get(client, payload.roomId);
+    destination = room ? `#${room.name}` : 'its room';
+  } else {
+    destination = `<#${payload.channelId}>`;
+  }
+  
+  const seconds = Math.floor(delivery.dueAt / 1000);
+  const preview = payload.text.length > 80 ? `${payload.text.slice(0, 80)}…` : payload.text;
+  return [
+    {
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: `Your anonymous message to ${destination} will be sent at <!date^${seconds}^{date_short_pretty} {time}|${new Date(delivery.dueAt).toISOString()}>\n>${preview.replace(/\n/g, ' ')}`
+      }
+    },
+    {
+      type: "actions",
+      elements: [
+        {
+          type: "button",
+          action_id: "send_scheduled_now",
+          text: {
+            type: "plain_text",
+            text: "Send now"
+          },
+          value: delivery.id
+        },
+        {
+          type: "button",
+          action_id: "reschedule_delivery",
+          text: {
+            type: "plain_text",
+            text: "Pick a time"
+          },
+          value: delivery.id
+        },
+        {
+          type: "button",
+          action_id: "cancel_scheduled",
+          style: "danger",
+          text: {
+            type: "plain_text",
+            text: "Cancel"
+          },
+          value: delivery.id
+        }
+      ]
+    }
+  ];
+}
+
+/**
+ * Replace a delivery's notice with a final status
+ */
+async function closeScheduledNotice(client: any, delivery: ScheduledDelivery, text: string) {
+  if (!delivery.notice) {
+    return;
+  }
+  try {
+    await client.chat.update({
+      channel: delivery.notice.channel,
+      ts: delivery.notice.ts,
+      text,
+      blocks: []
+    });
+  } catch (error) {
+    logger.warn('Error updating scheduled delivery notice:', error);
+  }
+}
+
+/**
+ * Send a queued message
+ */
+async function deliverScheduled(client: any, delivery: ScheduledDelivery) {
+  const payload = delivery.payload;
+  try {
+    if (payload.kind === 'dm') {
+      const room = await workspace().roomDirectory.get(client, payload.roomId);
+      if (!room) {
+        await closeScheduledNotice(client, delivery, `Your anonymous message wasn't sent: its room is no longer available.`);
+        return;
+      }
+      await relayDirectMessage(client, payload.message, room, payload.text);
+    } else {
+      await postChannelMessage(client, payload.channelId, payload.text, delivery.userId);
+    }
+    await closeScheduledNotice(client, delivery, `Your anonymous message was sent.`);
+  } catch (error) {
+    logger.error(`Error delivering scheduled message ${delivery.id}:`, error);
+    await closeScheduledNotice(client, delivery, `Your anonymous message couldn't be sent: ${error instanceof Error ? error.message : 'something went wrong'}.`);
+  }
+}
+
+/**
+ * Cancel a queued message
+ * @returns false if it was already sent or cancelled
+ */
+async function cancelScheduledDelivery(client: any, deliveryId: string): Promise<boolean> {
+  const delivery = await workspace().deliveryQueue.remove(deliveryId);
+  if (!delivery) {
+    return false;
+  }
+  await closeScheduledNotice(client, delivery, `Your anonymous message was cancelled and won't be sent.`);
+  logger.info(`Cancelled delivery ${delivery.id}`);
+  return true;
+}
+
+/**
+ * Send everything that is due, in random order
+ */
+async function processDueDeliveries(client: any) {
+  const due = shuffle(await workspace().deliveryQueue.takeDue());
+  for (const delivery of due) {
+    await deliverScheduled(client, delivery);
+  }
+}
+
+/**
+ * Relay a DM anonymously to every member of a room
+ */
+async function relayDirectMessage(client: any, msg: any, room: Room, rawText: string) {
+  const text = await sanitizeRelayedText(client, rawText);
+  
+  // Get members of the room
+  const members = await getChannelMembers(client, room.id);
+  
+  // Get sender info to exclude them from broadcast
+  const senderId = msg.user;
+  
+  // Check if the message is a thread reply
+  const isThreadReply = msg.thread_ts !== undefined;
+  
+  // Get or create conversation ID
+  const conversationId = await getOrCreateConversationId(client, msg, isThreadReply);
+  // The conversation may have been locked while the reply was held or scheduled
+  if (isThreadReply && !await checkConversationOpen(client, msg.channel, senderId, conversationId)) {
+    return;
+  }
+  if (!isThreadReply) {
+    await workspace().conversationStore.setRoomId(conversationId, room.id);
+  }
+  
+  // Load the thread map for this conversation, or start a new one
+  const threadMap: ThreadMap = await workspace().conversationStore.getThreadMap(conversationId) || new Map<string, string>();
+  
+  // Label the sender with their pseudonym, assigning one to the original poster up front
+  const label = await getParticipantLabel(conversationId, room.id, senderId, !isThreadReply);
+  
+  // Format the message with conversation ID at the beginning
+  const messageText = isThreadReply 
+    ? formatReplyWithId(text, conversationId, label)
+    : formatMessageWithId(text, conversationId);
+  
+  // Check for files in the message
+  const files = getFilesFromMessage(msg);
+  let hasFiles = files.length > 0;
+  
+  // Files are re-hosted by the bot during the broadcast
+  if (hasFiles) {
+    logger.info(`Message contains ${files.length} files/images`);
+  }
+  
+  // Broadcast to all members
+  const { report, copies, content, rejectedFiles, digestId } = await broadcastToMembers(
+    client, 
+    members, 
+    senderId, 
+    messageText, 
+    conversationId,
+    threadMap, 
+    isThreadReply,
+    files
+  );
+  
+  // Remember where the copies went so edits and deletions can follow
+  await workspace().conversationStore.recordRelayedMessage(conversationId, await getSourceKey(msg.channel, msg.ts), {
+    isThreadReply,
+    content,
+    copies,
+    digestId,
+    transcriptId: await logTranscriptEntry(conversationId, room.id, label, text, isThreadReply, files.length - rejectedFiles.length, [senderId, ...copies.map(copy => copy.userId)])
+  });
+  await escrowSender(await getConversationEscrowTarget(conversationId), room.id, senderId, text);
+  
+  // Tell the sender about attachments that couldn't be sent
+  if (rejectedFiles.length > 0) {
+    await client.chat.postEphemeral({
+      channel: msg.channel,
+      user: msg.user,
+      text: `These attachments weren't sent: ${rejectedFiles.join(', ')}.`
+    });
+  }
+  
+  // Notify user if not everyone received their message
+  // Senders can take the message back for a moment, e.g. to fix a typo
+  const summary = formatDeliverySummary(report, room.name);
+  if (UNDO_WINDOW_MS > 0 && copies.length > 0) {
+    await offerUndo(client, msg, summary || `Your anonymous ${isThreadReply ? 'reply' : 'message'} was sent to #${room.name}.`);
+  } else if (summary) {
+    await client.chat.postEphemeral({
+      channel: msg.channel,
+      user: msg.user,
+      text: summary
+    });
+  }
+  
+  // Store the sender's thread timestamp too, under a keyed hash so the record doesn't name who started it
+  const starterKey = getStarterKey(await getPseudonymSecret(), conversationId, senderId);
+  if (!isThreadReply) {
+    await workspace().conversationStore.setThreadTs(conversationId, starterKey, msg.ts);
+  } else if (!threadMap.has(senderId) && !threadMap.has(starterKey)) {
+    // Update the sender's thread timestamp if needed
+    await workspace().conversationStore.setThreadTs(conversationId, senderId, msg.thread_ts as string);
+  }
+  
+  const messageType = hasFiles ? 
+    'message with files' : 
+    (isThreadReply ? 'thread reply' : 'message');
+  
+  logger.info(`Broadcast anonymous ${messageType} to ${report.delivered} members (${report.failed} failed). Room: #${room.name}, Conversation ID: ${conversationId}`);
+  
+  // Clean up idle conversation maps and quiet senders
+  await cleanupOldConversations();
+  workspace().rateLimiter.prune();
+}
+
+/**
+ * Relay a reply made in the channel thread of a mirrored conversation to everyone's DM thread
+ * The reply is shown under the replier's name, as it already is in the channel.
+ */
+async function relayChannelReply(client: any, msg: any) {
+  const conversationId = await workspace().conversationStore.findConversationId(msg.thread_ts, () => [msg.channel]);
+  if (!conversationId || !(await workspace().roomSettings.get(msg.channel)).mirror) {
+    return;
+  }
+  if (!await checkConversationOpen(client, msg.channel, msg.user, conversationId)) {
+    return;
+  }
+  
+  const threadMap = await workspace().conversationStore.getThreadMap(conversationId);
+  if (!threadMap) {
+    return;
+  }
+  
+  // The reply is signed, but it still reaches people in DMs, so the rules apply like they do to edits
+  const reasons = checkMessage(msg.text || '', await getModerationRules());
+  if (reasons.length > 0) {
+    await client.chat.postEphemeral({
+      channel: msg.channel,
+      user: msg.user,
+      thread_ts: msg.thread_ts,
+      text: `Your reply wasn't passed on to the people taking part anonymously: ${reasons.join('; ')}.`
+    });
+    return;
+  }
+  
+  const members = await getChannelMembers(client, msg.channel);
+  const text = await sanitizeRelayedText(client, msg.text || '');
+  const messageText = formatReplyWithId(text, conversationId, `<@${msg.user}>`);
+  const files = getFilesFromMessage(msg);
+  
+  // The reply is already in the channel, so it isn't mirrored back
+  const { report, copies, content, rejectedFiles, digestId } = await broadcastToMembers(
+    client,
+    members,
+    msg.user,
+    messageText,
+    conversationId,
+    threadMap,
+    true,
+    files,
+    undefined,
+    false
+  );
+  
+  // Replies in the channel are signed, but the transcript only ever shows labels
+  await workspace().conversationStore.recordRelayedMessage(conversationId, await getSourceKey(msg.channel, msg.ts), {
+    isThreadReply: true,
+    content,
+    copies,
+    digestId,
+    transcriptId: await logTranscriptEntry(conversationId, msg.channel, 'Channel member', text, true, files.length - rejectedFiles.length, [msg.user, ...copies.map(copy => copy.userId)])
+  });
+  
+  logger.info(`Relayed channel reply to ${report.delivered} members (${report.failed} failed). Conversation ID: ${conversationId}`);
+}
+
+// ============================================================================
+// Command Handlers
+// ============================================================================
+
+/**
+ * Handle '/54y send' command
+ */
+async function handleSendCommand(client: any, command: any, args: string[]) {
+  const channelName = args[1];
+  const message = args.slice(2).join(' ');
+  
+  if (!channelName || !message) {
+    await client.chat.postEphemeral({
+      channel: command.channel_id,
+      user: command.user_id,
+      text: 'Usage: /54y send #channel message'
+    });
+    return;
+  }
+  
+  // Resolve "#name", "name", a channel ID or Slack's escaped <#C123|name>
+  const ref = parseChannelRef(channelName);
+  const channel = ref ? await workspace().channelDirectory.resolve(client, ref) : null;
+  const error = getSendChannelError(channelName, channel);
+  if (error) {
+    await client.chat.postEphemeral({
+      channel: command.channel_id,
+      user: command.user_id,
+      text: error
+    });
+    return;
+  }
+  
+  if (!await checkRateLimit(client, command.channel_id, command.user_id, message)) {
+    return;
+  }
+  
+  const send = () => sendToChannel(client, command, channel!, message);
+  if (!await holdIdentifyingMessage(client, command.user_id, command.channel_id, message, send)) {
+    await send();
+  }
+}
+
+/**
+ * Send or queue a '/54y send' message once it passed the checks
+ */
+async function sendToChannel(client: any, command: any, channel: ChannelInfo, message: string) {
+  // With delayed delivery, the message waits in the queue instead
+  if (DELIVERY_DELAY_MAX_MS > 0) {
+    await scheduleDelivery(client, command.user_id, {
+      kind: 'send',
+      channelId: channel.id,
+      text: message
+    });
+    await client.chat.postEphemeral({
+      channel: command.channel_id,
+      user: command.user_id,
+      text: `Your anonymous message to #${channel.name} was queued. Check your DMs with me to send it now or cancel it.`
+    });
+    return;
+  }
+  
+  try {
+    // Post anonymous message
+    await postChannelMessage(client, channel.id, message, command.user_id);
+    
+    // Confirm to user with ephemeral message
+    await client.chat.postEphemeral({
+      channel: command.channel_id,
+      user: command.user_id,
+      text: `Your anonymous message was sent to #${channel.name}`
+    });
+  } catch (error) {
+    await client.chat.postEphemeral({
+      channel: command.channel_id,
+      user: command.user_id,
+      text: `Error: ${error instanceof Error ? error.message : 'Could not send message'}`
+    });
+  }
+}
+
+/**
+ * Handle '/54y poll' command
+ * The poll goes to the room given with a "#room" prefix, or the channel the command was run in.
+ */
+async function handlePollCommand(client: any, command: any) {
+  const prefix = parseRoomPrefix(command.text.trim().replace(/^poll\s*/i, ''));
+  let room: Room | null;
+  if (prefix.channelId || prefix.name) {
+    room = prefix.channelId
+      ? await workspace().roomDirectory.get(client, prefix.channelId)
+      : await workspace().roomDirectory.findByName(client, prefix.name!);
+  } else {
+    room = await workspace().roomDirectory.get(client, command.channel_id) || await getDefaultRoom(client);
+  }
+  
+  if (!room) {
+    await client.chat.postEphemeral({
+      channel: command.channel_id,
+      user: command.user_id,
+      text: `Pick a room for the poll, e.g. \`/54y poll #room "Question?" "Option A" "Option B"\`. Available rooms: ${formatRoomList(await workspace().roomDirectory.list(client))}`
+    });
+    return;
+  }
+  
+  if (!await checkRateLimit(client, command.channel_id, command.user_id, prefix.text)) {
+    return;
+  }
+  
+  await submitPoll(client, command.user_id, command.channel_id, room, prefix.text);
+}
+
+/**
+ * Handle '/54y qa start|stop|list' - run an anonymous Q&A session in the current channel
+ */
+async function handleQaCommand(client: any, command: any, args: string[]) {
+  const subcommand = args[1]?.toLowerCase();
+  const reply = (text: string, blocks?: any[]) => client.chat.postEphemeral({
+    channel: command.channel_id,
+    user: command.user_id,
+    text,
+    blocks
+  });
+  
+  if (subcommand === 'start') {
+    if (!(await workspace().settings.get()).qa) {
+      await reply(`Q&A sessions are turned off in this workspace.`);
+      return;
+    }
+    
+    const room = await workspace().roomDirectory.get(client, command.channel_id);
+    if (!room) {
+      await reply(`Add me to this channel before starting a Q&A session here.`);
+      return;
+    }
+    
+    const session = await workspace().qaStore.start(room.id, command.user_id);
+    if (!session) {
+      await reply(`A Q&A session is already open in #${room.name}.`);
+      return;
+    }
+    
+    const botUserId = await workspace().roomDirectory.getBotUserId(client);
+    await client.chat.postMessage({
+      channel: room.id,
+      text: `:raising_hand: An anonymous Q&A session is open. DM <@${botUserId}> \`qa Your question\` to ask anonymously, and upvote the questions you want answered.`
+    });
+    logger.info(`Started Q&A session ${session.id} in #${room.name}`);
+    return;
+  }
+  
+  const session = await workspace().qaStore.getOpen(command.channel_id);
+  if (!session) {
+    await reply(subcommand === 'stop' || subcommand === 'list'
+      ? `There's no open Q&A session in this channel.`
+      : 'Usage: `/54y qa start`, `/54y qa stop` or `/54y qa list` (run in the Q&A channel)');
+    return;
+  }
+  
+  if (subcommand === 'list') {
+    await reply(`Questions in the Q&A session`, buildQaListBlocks(session, await canManageQa(session, command.user_id)));
+    return;
+  }
+  
+  if (subcommand === 'stop') {
+    if (!await canManageQa(session, command.user_id)) {
+      await reply(`Only the host can stop this Q&A session.`);
+      return;
+    }
+    
+    await workspace().qaStore.stop(session.channelId);
+    const questions = Object.values(session.questions);
+    const answered = questions.filter(question => question.answered).length;
+    await client.chat.postMessage({
+      channel: session.channelId,
+      text: `The anonymous Q&A session has ended. ${questions.length} question${questions.length === 1 ? ' was' : 's were'} asked and ${answered} answered.`
+    });
+    logger.info(`Stopped Q&A session ${session.id}`);
+    
+    // Take the upvote buttons off the questions that are still waiting
+    for (const question of questions.filter(question => !question.answered)) {
+      await refreshQuestion(client, session.id, question.id);
+    }
+    return;
+  }
+  
+  await reply('Usage: `/54y qa start`, `/54y qa stop` or `/54y qa list` (run in the Q&A channel)');
+}
+
+/**
+ * Handle '/54y mute [code]' and '/54y unmute <code>'
+ * Without a code, '/54y mute' lists the muted conversations.
+ */
+async function handleMuteCommand(client: any, command: any, args: string[], muted: boolean) {
+  const code = args[1]?.toLowerCase();
+  const reply = (text: string) => client.chat.postEphemeral({
+    channel: command.channel_id,
+    user: command.user_id,
+    text
+  });
+  
+  if (!code) {
+    if (!muted) {
+      await reply('Usage: `/54y unmute <conversation code>`');
+      return;
+    }
+    const preferences = await workspace().preferencesStore.get(command.user_id);
+    await reply(preferences.muted.length === 0
+      ? `You haven't muted any conversations. Use the "Mute conversation" button on a message, or \`/54y mute <conversation code>\`.`
+      : `Muted conversations: ${preferences.muted.map(code => `\`${code}\``).join(', ')}. Use \`/54y unmute <conversation code>\` to unmute one.`);
+    return;
+  }
+  
+  if (!/^[a-f0-9]{8}$/.test(code)) {
+    await reply(`\`${code}\` isn't a conversation code. Codes are shown when you mute a conversation with the button on a message.`);
+    return;
+  }
+  
+  const changed = await workspace().preferencesStore.setMuted(command.user_id, code, muted);
+  if (muted) {
+    await reply(changed
+      ? `Muted conversation \`${code}\`. Use \`/54y unmute ${code}\` to undo.`
+      : `Conversation \`${code}\` is already muted.`);
+  } else {
+    await reply(changed
+      ? `Unmuted conversation \`${code}\`. You'll get its new messages again.`
+      : `Conversation \`${code}\` isn't muted.`);
+  }
+}
+
+/**
+ * Handle '/54y optout' and '/54y optin' for all anonymous broadcasts
+ */
+async function handleOptOutCommand(client: any, command: any, optedOut: boolean) {
+  await workspace().preferencesStore.setOptedOut(command.user_id, optedOut);
+  await client.chat.postEphemeral({
+    channel: command.channel_id,
+    user: command.user_id,
+    text: optedOut
+      ? `You won't receive anonymous messages anymore. Nobody is told that you opted out. Use \`/54y optin\` to receive them again.`
+      : `You'll receive anonymous messages again.`
+  });
+}
+
+/**
+ * Handle '/54y preview [on|off]' - whether the sender's DMs are previewed before they go out
+ */
+async function handlePreviewCommand(client: any, command: any, args: string[]) {
+  const setting = args[1]?.toLowerCase();
+  const reply = (text: string) => client.chat.postEphemeral({
+    channel: command.channel_id,
+    user: command.user_id,
+    text
+  });
+  
+  if (setting !== 'on' && setting !== 'off') {
+    const { preview } = await workspace().preferencesStore.get(command.user_id);
+    const enabled = preview ?? (await workspace().settings.get()).preview;
+    await reply(`Previews are ${enabled ? 'on' : 'off'} for your DMs. Usage: /54y preview on|off`);
+    return;
+  }
+  
+  await workspace().preferencesStore.setPreview(command.user_id, setting === 'on');
+  await reply(setting === 'on'
+    ? `Your DMs will be previewed with Send and Cancel buttons before they go out.`
+    : `Your DMs will go out right away.${UNDO_WINDOW_MS > 0 ? ` You can still undo them for ${config.delivery.undoSeconds} seconds.` : ''}`);
+}
+
+/**
+ * Handle '/54y quiet [HH:MM-HH:MM|off]' - hold messages for a digest during quiet hours
+ */
+async function handleQuietCommand(client: any, command: any, args: string[]) {
+  const value = args.slice(1).join('');
+  const reply = (text: string) => client.chat.postEphemeral({
+    channel: command.channel_id,
+    user: command.user_id,
+    text
+  });
+  
+  if (!value) {
+    const { quietHours } = await workspace().preferencesStore.get(command.user_id);
+    await reply(quietHours
+      ? `Your quiet hours are ${formatTimeOfDay(quietHours.start)}-${formatTimeOfDay(quietHours.end)} (${quietHours.timeZone}). Use \`/54y quiet off\` to turn them off.`
+      : 'You have no quiet hours. Set them with e.g. `/54y quiet 22:00-08:00`.');
+    return;
+  }
+  
+  if (value.toLowerCase() === 'off') {
+    await workspace().preferencesStore.setQuietHours(command.user_id, null);
+    await reply(`Quiet hours are off. Anything held for your digest will arrive shortly.`);
+    return;
+  }
+  
+  const range = parseQuietHours(value);
+  if (!range) {
+    await reply('Usage: `/54y quiet 22:00-08:00` or `/54y quiet off`');
+    return;
+  }
+  
+  // Quiet hours follow the member's own time zone
+  const response = await client.users.info({ user: command.user_id });
+  const timeZone = response.user?.tz || 'UTC';
+  await workspace().preferencesStore.setQuietHours(command.user_id, { ...range, timeZone });
+  await reply(`Your quiet hours are now ${formatTimeOfDay(range.start)}-${formatTimeOfDay(range.end)} (${timeZone}). Messages sent during them arrive as a digest afterwards.`);
+}
+
+/**
+ * Whether someone may change settings: a workspace admin or owner, or one of the admins setting
+ */
+async function isSettingsAdmin(client: any, userId: string): Promise<boolean> {
+  if ((await workspace().settings.get()).admins.includes(userId)) {
+    return true;
+  }
+  try {
+    const info = await client.users.info({ user: userId });
+    return Boolean(info.user?.is_admin || info.user?.is_owner);
+  } catch (error) {
+    logger.warn(`Couldn't check whether ${userId} is a workspace admin:`, error);
+    return false;
+  }
+}
+
+/**
+ * Format a setting's value, showing rooms as channel links, admins as mentions and the escrow key by its fingerprint
+ */
+function formatAdminSetting(key: keyof RuntimeSettings, value: RuntimeSettings[keyof RuntimeSettings] | null): string {
+  if (key === 'rooms' && Array.isArray(value)) {
+    return value.length > 0 ? value.map(id => `<#${id}>`).join(', ') : 'every channel I am in';
+  }
+  if ((key === 'admins' || key === 'moderationAdmins' || key === 'escrowAdmins') && Array.isArray(value) && value.length > 0) {
+    return value.map(id => `<@${id}>`).join(', ');
+  }
+  if (key === 'escrowKey' && typeof value === 'string') {
+    return value ? `the key \`${getKeyFingerprint(loadEscrowPublicKey(value))}\`` : 'off';
+  }
+  return formatSettingValue(value);
+}
+
+/**
+ * Why settings would leave sender escrow unable to reveal anyone, if they would
+ * The admin who requests a reveal can't approve it, so escrow needs more admins than approvals.
+ */
+function getEscrowSettingsProblem(settings: RuntimeSettings): string | null {
+  const escrowAdmins = getEscrowAdmins(settings);
+  if (settings.escrowKey && escrowAdmins.length <= ESCROW_APPROVALS) {
+    return `Sender escrow needs more than ${ESCROW_APPROVALS} escrow admins, since a reveal needs ${ESCROW_APPROVALS} approvals besides the admin who asked. Set \`escrow-admins\` (or \`moderation-admins\`) first.`;
+  }
+  return null;
+}
+
+/**
+ * Resolve the channels given for the 'rooms' setting to their IDs
+ */
+async function resolveRoomIds(client: any, value: string): Promise<{ value: string[] } | { error: string }> {
+  if (value.toLowerCase() === 'all') {
+    return { value: [] };
+  }
+  
+  const ids: string[] = [];
+  for (const token of value.split(/[\s,]+/).filter(Boolean)) {
+    const ref = parseChannelRef(token);
+    const channel = ref ? await workspace().channelDirectory.resolve(client, ref) : null;
+    if (!channel) {
+      return { error: `I couldn't find the channel ${token}` };
+    }
+    if (!channel.isMember) {
+      return { error: `I'm not a member of #${channel.name}; add me to it first` };
+    }
+    ids.push(channel.id);
+  }
+  return { value: ids };
+}
+
+/**
+ * Handle '/54y admin [set <setting> <value>|reset <setting>|audit]' - change settings at runtime
+ */
+async function handleAdminCommand(client: any, command: any, args: string[]) {
+  const reply = (text: string) => client.chat.postEphemeral({
+    channel: command.channel_id,
+    user: command.user_id,
+    text
+  });
+  
+  if (!await isSettingsAdmin(client, command.user_id)) {
+    await reply('Only workspace admins can change settings.');
+    return;
+  }
+  
+  const { settings } = workspace();
+  const subcommand = args[1]?.toLowerCase() || 'show';
+  
+  if (subcommand === 'show') {
+    const current = await settings.get();
+    const lines: string[] = [];
+    for (const definition of SETTING_DEFINITIONS) {
+      const changed = await settings.isOverridden(definition.key) ? ' _(changed)_' : '';
+      lines.push(`• \`${definition.name}\`: ${formatAdminSetting(definition.key, current[definition.key])}${changed} - ${definition.description}`);
+    }
+    await reply(`*Settings*\n${lines.join('\n')}\nChange one with \`/54y admin set <setting> <value>\` and undo a change with \`/54y admin reset <setting>\`. \`/54y admin audit\` shows recent changes.`);
+    return;
+  }
+  
+  if (subcommand === 'audit') {
+    const entries = await settings.getAudit(ADMIN_AUDIT_LIMIT);
+    if (entries.length === 0) {
+      await reply('No settings have been changed.');
+      return;
+    }
+    const lines = entries.map(entry => {
+      const name = SETTING_DEFINITIONS.find(definition => definition.key === entry.setting)?.name || entry.setting;
+      const change = entry.value === null
+        ? `reset \`${name}\``
+        : `set \`${name}\` to ${formatAdminSetting(entry.setting as keyof RuntimeSettings, entry.value)}`;
+      return `• <!date^${Math.floor(entry.at / 1000)}^{date_short} {time}|${new Date(entry.at).toISOString()}> <@${entry.userId}> ${change}`;
+    });
+    await reply(`*Recent settings changes*\n${lines.join('\n')}`);
+    return;
+  }
+  
+  const definition = args[2] ? findSetting(args[2]) : undefined;
+  if ((subcommand !== 'set' && subcommand !== 'reset') || !definition) {
+    await reply(`Usage: \`/54y admin set <setting> <value>\`, \`/54y admin reset <setting>\` or \`/54y admin audit\`. Settings: ${SETTING_DEFINITIONS.map(d => `\`${d.name}\``).join(', ')}`);
+    return;
+  }
+  
+  if (subcommand === 'reset') {
+    const escrowProblem = getEscrowSettingsProblem({ ...await settings.get(), [definition.key]: config.settings[definition.key] });
+    if (escrowProblem) {
+      await reply(escrowProblem);
+      return;
+    }
+    await settings.reset(definition.key, command.user_id);
+    const value = (await settings.get())[definition.key];
+    logger.info(`${command.user_id} reset setting ${definition.name}`);
+    await reply(`\`${definition.name}\` is back to its default: ${formatAdminSetting(definition.key, value)}.`);
+    return;
+  }
+  
+  const raw = args.slice(3).join(' ').trim();
+  if (!raw) {
+    await reply(`Give a value for \`${definition.name}\`: ${definition.description}. Use \`none\` to clear a list.`);
+    return;
+  }
+  
+  const result = definition.key === 'rooms'
+    ? await resolveRoomIds(client, raw)
+    : raw.toLowerCase() === 'none' && Array.isArray(config.settings[definition.key])
+      ? { value: [] }
+      : definition.parse(raw);
+  if ('error' in result) {
+    await reply(`\`${definition.name}\` ${result.error}.`);
+    return;
+  }
+  const escrowProblem = getEscrowSettingsProblem({ ...await settings.get(), [definition.key]: result.value });
+  if (escrowProblem) {
+    await reply(escrowProblem);
+    return;
+  }
+  
+  await settings.set(definition.key, result.value, command.user_id);
+  logger.info(`${command.user_id} set ${definition.name} to ${formatSettingValue(result.value)}`);
+  await reply(`\`${definition.name}\` is now ${formatAdminSetting(definition.key, result.value)}.`);
+}
+
+/**
+ * Handle '/54y lock|unlock <conversation code or message link>'
+ * Locked conversations keep their messages but don't take new replies.
+ */
+async function handleLockCommand(client: any, command: any, args: string[], locked: boolean) {
+  const reply = (text: string) => client.chat.postEphemeral({
+    channel: command.channel_id,
+    user: command.user_id,
+    text
+  });
+  
+  if (!(await workspace().settings.get()).moderationAdmins.includes(command.user_id) && !await isSettingsAdmin(client, command.user_id)) {
+    await reply(`Only admins can lock conversations.`);
+    return;
+  }
+  
+  const input = args[1];
+  if (!input) {
+    await reply(`Usage: \`/54y ${locked ? 'lock' : 'unlock'} <conversation code or message link>\``);
+    return;
+  }
+  
+  const conversationId = await resolveConversation(input);
+  const state = conversationId ? await workspace().conversationStore.getState(conversationId) : null;
+  if (!conversationId || !state) {
+    await reply(`I couldn't find that conversation.`);
+    return;
+  }
+  if (state === 'expired') {
+    await reply(`That conversation has already expired.`);
+    return;
+  }
+  if (state === (locked ? 'locked' : 'open')) {
+    await reply(`That conversation is already ${locked ? 'locked' : 'open'}.`);
+    return;
+  }
+  
+  await workspace().conversationStore.setState(conversationId, locked ? 'locked' : 'open');
+  const code = getConversationCode(await getPseudonymSecret(), conversationId);
+  logger.info(`${command.user_id} ${locked ? 'locked' : 'unlocked'} conversation ${code}`);
+  
+  // Let everyone taking part know, in their own thread
+  const roomId = await workspace().conversationStore.getRoomId(conversationId);
+  const threadMap = await workspace().conversationStore.getThreadMap(conversationId) || new Map<string, string>();
+  for (const [userId, threadTs] of threadMap) {
+    // Whoever started the conversation is only known by a keyed hash, so they can't be told
+    if (isStarterKey(userId)) {
+      continue;
+    }
+    try {
+      const channel = userId === roomId ? roomId : await workspace().deliveryEngine.openDm(client, userId);
+      await client.chat.postMessage({
+        channel,
+        thread_ts: threadTs,
+        text: locked
+          ? `:lock: An admin locked this conversation. New replies won't be sent.`
+          : `:unlock: An admin reopened this conversation. Replies are sent again.`
+      });
+    } catch (error) {
+      logger.warn(`Couldn't tell ${userId} that conversation ${code} was ${locked ? 'locked' : 'unlocked'}:`, error);
+    }
+  }
+  
+  await reply(`Conversation \`${code}\` is now ${locked ? 'locked' : 'open'}.`);
+}
+
+/**
+ * Handle '/54y export <conversation code or message link> [markdown|json]'
+ */
+async function handleExportCommand(client: any, command: any, args: string[]) {
+  const reply = (text: string) => client.chat.postEphemeral({
+    channel: command.channel_id,
+    user: command.user_id,
+    text
+  });
+  
+  const input = args[1];
+  const format = (args[2] || 'markdown').toLowerCase();
+  if (!input || !['markdown', 'md', 'json'].includes(format)) {
+    await reply('Usage: `/54y export <conversation code or message link> [markdown|json]`');
+    return;
+  }
+  
+  const code = await resolveConversationCode(input);
+  if (!code) {
+    await reply(`I couldn't find that conversation.`);
+    return;
+  }
+  
+  const problem = await exportTranscript(client, command.user_id, code, format === 'json' ? 'json' : 'markdown');
+  await reply(problem || `The transcript of conversation \`${code}\` is in your DM with me.`);
+}
+
+/**
+ * Upload a conversation's transcript to a member's DM with the bot
+ * Members who took part can export it, and admins can export any conversation.
+ * @returns Why it couldn't be exported, or null once it was uploaded
+ */
+async function exportTranscript(client: any, userId: string, code: string, format: TranscriptFormat): Promise<string | null> {
+  if (TRANSCRIPT_RETENTION_MS === 0) {
+    return `Transcripts aren't kept in this workspace, so conversations can't be exported.`;
+  }
+  const transcript = await workspace().transcriptStore.get(code);
+  if (!transcript) {
+    return `There's no transcript of conversation \`${code}\`. Transcripts are kept for ${config.transcripts.retentionDays} days.`;
+  }
+  
+  // Who took part is kept with the transcript, since the conversation itself is pruned sooner
+  const participantKey = getTranscriptParticipantKey(await getPseudonymSecret(), code, userId);
+  if (!transcript.participants?.includes(participantKey) && !(await workspace().settings.get()).moderationAdmins.includes(userId) && !await isSettingsAdmin(client, userId)) {
+    return `You can only export conversations you took part in.`;
+  }
+  
+  // Mentions are written out as names, so the file has no user IDs
+  const userNames = await getUserNames(client, getMentionedUserIds(transcript));
+  
+  const room = transcript.roomId ? await workspace().roomDirectory.get(client, transcript.roomId) : null;
+  const content = formatTranscript(transcript, format, { code, roomName: room?.name, exportedAt: Date.now() }, userNames);
+  const dmChannel = await workspace().deliveryEngine.openDm(client, userId);
+  await client.files.uploadV2({
+    channel_id: dmChannel,
+    filename: `conversation-${code}.${format === 'json' ? 'json' : 'md'}`,
+    title: `Anonymous conversation ${code}`,
+    content,
+    initial_comment: `Transcript of conversation \`${code}\` (${transcript.entries.length} message${transcript.entries.length === 1 ? '' : 's'})`
+  });
+  logger.info(`Exported the transcript of conversation ${code}`);
+  return null;
+}
+
+/**
+ * Find the code of the conversation a member means - the code itself, or a link to one of its messages
+ */
+async function resolveConversationCode(input: string): Promise<string | null> {
+  if (/^[a-f0-9]{8}$/i.test(input)) {
+    return input.toLowerCase();
+  }
+  const conversationId = await resolveConversation(input);
+  return conversationId ? getConversationCode(await getPseudonymSecret(), conversationId) : null;
+}
+
+/**
+ * Find the conversation an admin means - a conversation code, or a link to one of its messages
+ */
+async function resolveConversation(input: string): Promise<string | null> {
+  if (/^[a-f0-9]{8}$/i.test(input)) {
+    const secret = await getPseudonymSecret();
+    const conversationIds = await workspace().conversationStore.listConversationIds();
+    return conversationIds.find(conversationId => getConversationCode(secret, conversationId) === input.toLowerCase()) || null;
+  }
+  
+  const permalink = parseMessagePermalink(input);
+  if (!permalink) {
+    return null;
+  }
+  const relayed = await workspace().conversationStore.findRelayedMessageByCopy(permalink.channel, permalink.ts);
+  return relayed ? relayed.conversationId : null;
+}
+
+/**
+ * Handle '/54y escrow reveal <code or message link> <reason>' and '/54y escrow status'
+ * A reveal only starts a request; it happens once enough admins approved with their key shares.
+ */
+async function handleEscrowCommand(client: any, command: any, args: string[]) {
+  const reply = (text: string) => client.chat.postEphemeral({
+    channel: command.channel_id,
+    user: command.user_id,
+    text
+  });
+  
+  const settings = await workspace().settings.get();
+  if (!getEscrowAdmins(settings).includes(command.user_id)) {
+    await reply(`Only escrow admins can use this command.`);
+    return;
+  }
+  const escrowPublicKey = settings.escrowKey ? loadEscrowPublicKey(settings.escrowKey) : null;
+  if (!escrowPublicKey) {
+    await reply(`Sender escrow isn't enabled, so senders can't be revealed.`);
+    return;
+  }
+  
+  const subcommand = args[1]?.toLowerCase();
+  if (subcommand === 'status') {
+    await reply(`Sender escrow is enabled (key \`${getKeyFingerprint(escrowPublicKey)}\`). A reveal needs ${ESCROW_APPROVALS} admin approvals and enough key shares. Pending requests: ${workspace().revealRequests.size}.`);
+    return;
+  }
+  
+  const input = args[2];
+  const reason = args.slice(3).join(' ').trim();
+  if (subcommand !== 'reveal' || !input || !reason) {
+    await reply('Usage: `/54y escrow reveal <conversation code or message link> <reason>` or `/54y escrow status`');
+    return;
+  }
+  
+  const target = await resolveEscrowTarget(input);
+  const record = target ? await workspace().escrowStore.get(target) : null;
+  if (!target || !record) {
+    await reply(`There's no escrow record for that conversation or message.`);
+    return;
+  }
+  
+  const request: RevealRequest = {
+    id: crypto.randomBytes(6).toString('hex'),
+    target,
+    reason,
+    requestedBy: command.user_id,
+    approvedBy: [],
+    shares: {},
+    prompts: [],
+    createdAt: Date.now()
+  };
+  workspace().revealRequests.set(request.id, request);
+  logger.warn(`Reveal of ${target} requested by ${command.user_id}: ${reason}`);
+  
+  for (const adminId of getEscrowAdmins(settings)) {
+    try {
+      const dmChannel = await workspace().deliveryEngine.openDm(client, adminId);
+      const response = await client.chat.postMessage({
+        channel: dmChannel,
+        text: `A reveal of an anonymous sender was requested`,
+        blocks: buildRevealRequestBlocks(request, record.channelId)
+      });
+      request.prompts.push({ channel: dmChannel!, ts: response.ts });
+    } catch (error) {
+      logger.error(`Couldn't send reveal request to admin ${adminId}:`, error);
+    }
+  }
+  
+  await reply(`Reveal requested. It happens once ${ESCROW_APPROVALS} admins approved it and enough key shares were added.`);
+}
+
+/**
+ * Find the escrow record an admin means - a conversation code, or a link to a message
+ */
+async function resolveEscrowTarget(input: string): Promise<string | null> {
+  if (/^[a-f0-9]{8}$/i.test(input)) {
+    return `conversation:${input.toLowerCase()}`;
+  }
+  
+  const permalink = parseMessagePermalink(input);
+  if (!permalink) {
+    return null;
+  }
+  
+  // A '/54y send' or '/54y reply' message in a channel, or a copy of a relayed conversation
+  const messageTarget = getMessageEscrowTarget(permalink.channel, permalink.ts);
+  if (await workspace().escrowStore.get(messageTarget)) {
+    return messageTarget;
+  }
+  const relayed = await workspace().conversationStore.findRelayedMessageByCopy(permalink.channel, permalink.ts);
+  return relayed ? getConversationEscrowTarget(relayed.conversationId) : null;
+}
+
+/**
+ * Build the prompt admins get for a reveal request
+ */
+function buildRevealRequestBlocks(request: RevealRequest, channelId: string): any[] {
+  const label = request.target.startsWith('conversation:')
+    ? `anonymous conversation \`${request.target.replace('conversation:', '')}\``
+    : 'an anonymous message';
+  return [
+    {
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: `<@${request.requestedBy}> asked to reveal who sent ${label} in <#${channelId}>.\n*Reason:* ${request.reason}\n\nThe reveal needs ${ESCROW_APPROVALS} admin approvals, and admins holding a key share should add it. Every reveal is logged and announced in the channel.`
+      }
+    },
+    {
+      type: "actions",
+      elements: [
+        {
+          type: "button",
+          action_id: "escrow_approve",
+          style: "danger",
+          text: {
+            type: "plain_text",
+            text: "Approve"
+          },
+          value: request.id
+        },
+        {
+          type: "button",
+          action_id: "escrow_deny",
+          text: {
+            type: "plain_text",
+            text: "Deny"
+          },
+          value: request.id
+        }
+      ]
+    }
+  ];
+}
+
+/**
+ * Get a reveal request that hasn't expired
+ */
+function getRevealRequest(requestId: string): RevealRequest | null {
+  const request = workspace().revealRequests.get(requestId);
+  if (request && Date.now() - request.createdAt > REVEAL_REQUEST_TTL_MS) {
+    workspace().revealRequests.delete(requestId);
+    return null;
+  }
+  return request || null;
+}
+
+/**
+ * Replace every admin's prompt for a request with its outcome
+ */
+async function closeRevealPrompts(client: any, request: RevealRequest, text: string) {
+  for (const prompt of request.prompts) {
+    try {
+      await client.chat.update({
+        channel: prompt.channel,
+        ts: prompt.ts,
+        text,
+        blocks: []
+      });
+    } catch (error) {
+      logger.warn('Error updating reveal request prompt:', error);
+    }
+  }
+}
+
+/**
+ * Reveal the senders once a request has enough approvals and shares
+ * The rebuilt key and the shares are dropped right after.
+ */
+async function completeReveal(client: any, request: RevealRequest) {
+  const shares = Object.values(request.shares);
+  const threshold = shares[0]?.threshold || Infinity;
+  if (request.approvedBy.length < ESCROW_APPROVALS || shares.length < threshold) {
+    return;
+  }
+  workspace().revealRequests.delete(request.id);
+  
+  const record = await workspace().escrowStore.get(request.target);
+  const escrowPublicKey = await getEscrowPublicKey();
+  if (!record || !escrowPublicKey) {
+    await closeRevealPrompts(client, request, `The reveal couldn't be completed: the escrow record is gone.`);
+    return;
+  }
+  
+  let lines: string[];
+  try {
+    const privateKey = recoverPrivateKey(shares, escrowPublicKey);
+    lines = record.senders.map((sealed, index) => {
+      const payload = openSealedSender(privateKey, sealed);
+      const seconds = Math.floor(sealed.sealedAt / 1000);
+      return `${index + 1}. <@${payload.userId}> at <!date^${seconds}^{date_short_pretty} {time}|${new Date(sealed.sealedAt).toISOString()}>: "${payload.excerpt}"`;
+    });
+  } catch (error) {
+    logger.error(`Reveal ${request.id} failed:`, error);
+    await closeRevealPrompts(client, request, `The reveal failed: ${error instanceof Error ? error.message : 'the shares could not be used'}.`);
+    return;
+  } finally {
+    request.shares = {};
+  }
+  
+  await workspace().escrowStore.logReveal({
+    target: request.target,
+    reason: request.reason,
+    requestedBy: request.requestedBy,
+    approvedBy: request.approvedBy,
+    revealedAt: Date.now()
+  });
+  logger.warn(`Revealed senders of ${request.target}, requested by ${request.requestedBy} and approved by ${request.approvedBy.join(', ')}`);
+  
+  // Only the admins who approved see who it was
+  for (const adminId of request.approvedBy) {
+    try {
+      const dmChannel = await workspace().deliveryEngine.openDm(client, adminId);
+      await client.chat.postMessage({
+        channel: dmChannel,
+        text: `Revealed senders (reason: ${request.reason}):\n${lines.join('\n')}`
+      });
+    } catch (error) {
+      logger.error(`Couldn't send reveal result to admin ${adminId}:`, error);
+    }
+  }
+  await closeRevealPrompts(client, request, `The sender was revealed to the approving admins: ${request.approvedBy.map(id => `<@${id}>`).join(', ')}.`);
+  
+  // The channel is told that a reveal happened, but not who was revealed
+  try {
+    await client.chat.postMessage({
+      channel: record.channelId,
+      text: `:rotating_light: Admins revealed who sent an anonymous ${request.target.startsWith('conversation:') ? 'conversation' : 'message'} in this channel. Approved by ${request.approvedBy.map(id => `<@${id}>`).join(', ')}. Reason: ${request.reason}`
+    });
+  } catch (error) {
+    logger.error('Error announcing reveal in channel:', error);
+  }
+}
+
+/**
+ * Post an anonymous message directly into a channel
+ */
+async function postChannelMessage(client: any, channelId: string, text: string, senderId: string) {
+  const response = await client.chat.postMessage({
+    channel: channelId,
+    text: await sanitizeRelayedText(client, text),
+    username: 'Anonymous',
+  });
+  await escrowSender(getMessageEscrowTarget(channelId, response.ts), channelId, senderId, text);
+}
+
+/**
+ * Handle '/54y pending' command - list the sender's queued messages
+ */
+async function handlePendingCommand(client: any, command: any) {
+  const pending = await workspace().deliveryQueue.listForUser(command.user_id);
+  if (pending.length === 0) {
+    await client.chat.postEphemeral({
+      channel: command.channel_id,
+      user: command.user_id,
+      text: `You have no anonymous messages waiting to be sent.`
+    });
+    return;
+  }
+  
+  const blocks: any[] = [];
+  for (const delivery of pending) {
+    blocks.push(...await buildScheduledBlocks(client, delivery));
+  }
+  await client.chat.postEphemeral({
+    channel: command.channel_id,
+    user: command.user_id,
+    text: `You have ${pending.length} anonymous message${pending.length === 1 ? '' : 's'} waiting to be sent.`,
+    blocks
+  });
+}
+
+/**
+ * Check whether '/54y send' may post to a channel
+ * @returns An explanation for the user, or null if the channel is fine
+ */
+function getSendChannelError(input: string, channel: ChannelInfo | null): string | null {
+  if (!channel) {
+    return `I couldn't find the channel ${input}. If it's a private channel, invite me to it first.`;
+  }
+  if (!channel.isMember) {
+    return `I'm not a member of #${channel.name}. Add me with \`/invite @54y\` in that channel first.`;
+  }
+  if (SEND_CHANNELS.length > 0 && !SEND_CHANNELS.includes(channel.id.toLowerCase()) && !SEND_CHANNELS.includes(channel.name.toLowerCase())) {
+    return `Anonymous posting isn't enabled for #${channel.name}.`;
+  }
+  return null;
+}
+
+/**
+ * Handle '/54y pseudonyms on|off' command, run in a room's channel
+ */
+async function handlePseudonymsCommand(client: any, command: any, args: string[]) {
+  const setting = args[1]?.toLowerCase();
+  const room = await workspace().roomDirectory.get(client, command.channel_id);
+  
+  if (!room) {
+    await client.chat.postEphemeral({
+      channel: command.channel_id,
+      user: command.user_id,
+      text: 'Run this command in an anonymous room (a channel I am a member of).'
+    });
+    return;
+  }
+  
+  if (setting !== 'on' && setting !== 'off') {
+    const current = await workspace().roomSettings.get(room.id);
+    await client.chat.postEphemeral({
+      channel: command.channel_id,
+      user: command.user_id,
+      text: `Pseudonyms are ${current.pseudonyms ? 'on' : 'off'} in #${room.name}. Usage: /54y pseudonyms on|off`
+    });
+    return;
+  }
+
+  if (!await isSettingsAdmin(client, command.user_id)) {
+    await client.chat.postEphemeral({
+      channel: command.channel_id,
+      user: command.user_id,
+      text: 'Only workspace admins can change pseudonyms.'
+    });
+    return;
+  }
+
+  await workspace().roomSettings.update(room.id, { pseudonyms: setting === 'on' });
+  await client.chat.postEphemeral({
+    channel: command.channel_id,
+    user: command.user_id,
+    text: `Pseudonyms are now ${setting} in #${room.name}.`
+  });
+}
+
+/**
+ * Handle '/54y mirror on|off' command, run in a room's channel
+ */
+async function handleMirrorCommand(client: any, command: any, args: string[]) {
+  const setting = args[1]?.toLowerCase();
+  const room = await workspace().roomDirectory.get(client, command.channel_id);
+  
+  if (!room) {
+    await client.chat.postEphemeral({
+      channel: command.channel_id,
+      user: command.user_id,
+      text: 'Run this command in an anonymous room (a channel I am a member of).'
+    });
+    return;
+  }
+  
+  if (setting !== 'on' && setting !== 'off') {
+    const current = await workspace().roomSettings.get(room.id);
+    await client.chat.postEphemeral({
+      channel: command.channel_id,
+      user: command.user_id,
+      text: `Mirroring is ${current.mirror ? 'on' : 'off'} in #${room.name}. Usage: /54y mirror on|off`
+    });
+    return;
+  }
+  
+  // Mirroring makes conversations readable by anyone who joins the channel later
+  if (!await isSettingsAdmin(client, command.user_id)) {
+    await client.chat.postEphemeral({
+      channel: command.channel_id,
+      user: command.user_id,
+      text: 'Only workspace admins can change mirroring.'
+    });
+    return;
+  }
+  
+  await workspace().roomSettings.update(room.id, { mirror: setting === 'on' });
+  await client.chat.postMessage({
+    channel: room.id,
+    text: setting === 'on'
+      ? 'New anonymous conversations in this room are now also posted here. Reply in their threads to answer everyone taking part.'
+      : 'Anonymous conversations are no longer posted in this channel.'
+  });
+}
+
+/**
+ * Handle '/54y reply' command
+ */
+async function handleReplyCommand(client: any, command: any, args: string[]) {
+  const target = args[1];
+  const message = args.slice(2).join(' ');
+  
+  if (!target || !message) {
+    await client.chat.postEphemeral({
+      channel: command.channel_id,
+      user: command.user_id,
+      text: 'Usage: /54y reply <message_ts or message link> message'
+    });
+    return;
+  }
+  
+  // Accept a permalink from "Copy link", or a raw ts in the current channel
+  const permalink = parseMessagePermalink(target);
+  const channel = permalink ? permalink.channel : command.channel_id;
+  const messageTs = permalink ? permalink.threadTs || permalink.ts : target;
+  
+  if (!permalink && !/^\d+\.\d+$/.test(messageTs)) {
+    await client.chat.postEphemeral({
+      channel: command.channel_id,
+      user: command.user_id,
+      text: `"${target}" isn't a message timestamp or a message link.`
+    });
+    return;
+  }
+  
+  const send = async () => {
+    const error = await postAnonymousReply(client, command.user_id, channel, messageTs, message);
+    await client.chat.postEphemeral({
+      channel: command.channel_id,
+      user: command.user_id,
+      text: error ? `Error: ${error}` : `Your anonymous reply was posted in the thread`
+    });
+  };
+  if (!await holdIdentifyingMessage(client, command.user_id, command.channel_id, message, send)) {
+    await send();
+  }
+}
+
+/**
+ * Post an anonymous reply into the thread of a channel message
+ * @returns An error to show the user, or null on success
+ */
+async function postAnonymousReply(client: any, userId: string, channel: string, messageTs: string, text: string): Promise<string | null> {
+  // Make sure the message exists and find the root of its thread
+  let threadTs: string;
+  try {
+    const replies = await client.conversations.replies({
+      channel,
+      ts: messageTs,
+      limit: 1
+    });
+    const target = replies.messages?.[0];
+    if (!target) {
+      return `I couldn't find that message.`;
+    }
+    threadTs = target.thread_ts || target.ts;
+  } catch (error: unknown) {
+    const code = (error as webApi.WebAPIPlatformError).data?.error;
+    if (code === 'not_in_channel' || code === 'channel_not_found') {
+      return `I'm not a member of that channel. Invite me to it first.`;
+    }
+    if (code === 'thread_not_found' || code === 'message_not_found') {
+      return `I couldn't find that message.`;
+    }
+    return error instanceof Error ? error.message : 'Could not find the message';
+  }
+  
+  const limit = await takeRateLimit(userId, text);
+  if (!limit.allowed) {
+    return `${limit.reason}. Please try again in ${formatRetryAfter(limit.retryAfterMs)}.`;
+  }
+  
+  try {
+    // Post anonymous reply in thread
+    const response = await client.chat.postMessage({
+      channel,
+      text: await sanitizeRelayedText(client, text),
+      thread_ts: threadTs,
+      username: 'Anonymous',
+    });
+    await escrowSender(getMessageEscrowTarget(channel, response.ts), channel, userId, text);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Could not post reply';
+  }
+}
+
+/**
+ * Handle an admin's approve/reject click on a held message
+ */
+async function handleModerationAction(client: any, body: any, action: any, approved: boolean) {
+  const adminId = body.user.id;
+  const channelId = body.channel?.id;
+  
+  try {
+    if (!(await workspace().settings.get()).moderationAdmins.includes(adminId)) {
+      await client.chat.postEphemeral({
+        channel: channelId,
+        user: adminId,
+        text: `Only moderation admins can review held messages.`
+      });
+      return;
+    }
+    
+    if (!await resolveHeldMessage(client, action.value, adminId, approved)) {
+      await client.chat.postEphemeral({
+        channel: channelId,
+        user: adminId,
+        text: `This message was already handled.`
+      });
+    }
+  } catch (error) {
+    logger.error('Error handling moderation action:', error);
+    await client.chat.postEphemeral({
+      channel: channelId,
+      user: adminId,
+      text: `Error: ${error instanceof Error ? error.message : 'Something went wrong'}`
+    });
+  }
+}
+
+// ============================================================================
+// Workspaces
+// ============================================================================
+
+// Clients for background jobs, by workspace
+const installationClients = new Map<string, { token: string; client: any }>();
+
+/**
+ * Run a background job once for every workspace, with that workspace as the current one
+ * One workspace failing doesn't stop the others.
+ */
+async function forEachWorkspace(job: string, task: (client: any) => Promise<void>) {
+  const targets: { workspaceId: string; client: any }[] = [];
+  if (OAUTH_ENABLED) {
+    for (const { workspaceId, installation } of await installationStore.list()) {
+      const token = installation.bot?.token;
+      if (!token) {
+        continue;
+      }
+      let cached = installationClients.get(workspaceId);
+      if (cached?.token !== token) {
+        cached = { token, client: new webApi.WebClient(token, { logger }) };
+        installationClients.set(workspaceId, cached);
+      }
+      targets.push({ workspaceId, client: cached.client });
+    }
+  } else {
+    targets.push({ workspaceId: SINGLE_WORKSPACE_ID, client: app.client });
+  }
+  
+  for (const { workspaceId, client } of targets) {
+    try {
+      await workspaces.run(workspaceId, () => task(client));
+    } catch (error) {
+      logger.error(`Error ${job} in workspace ${workspaceId}:`, error);
+    }
+  }
+}
+
+/**
+ * Forget everything about a workspace the app was uninstalled from
+ */
+async function removeWorkspace(workspaceId: string) {
+  // Writes still queued would otherwise put files back after the directory is gone
+  if (workspaces.has(workspaceId)) {
+    const removed = workspaces.get(workspaceId);
+    workspaces.forget(workspaceId);
+    await Promise.all([
+      removed.settings,
+      removed.conversationStore,
+      removed.moderationQueue,
+      removed.pollStore,
+      removed.qaStore,
+      removed.preferencesStore,
+      removed.escrowStore,
+      removed.transcriptStore,
+      removed.deliveryQueue,
+      removed.roomSettings
+    ].map(store => store.drain()));
+  }
+  installationClients.delete(workspaceId);
+  await installationStore.remove(workspaceId);
+  await fs.rm(getWorkspaceDataDir(workspaceId), { recursive: true, force: true });
+  logger.info(`Removed the data of workspace ${workspaceId} after uninstall`);
+}
+
+// ============================================================================
+// Event Handlers
+// ============================================================================
+
+// Handle every event with the state of the workspace it came from
+app.use(async ({ context, next }) => {
+  const workspaceId = OAUTH_ENABLED ? getWorkspaceId(context) : SINGLE_WORKSPACE_ID;
+  if (!workspaceId) {
+    logger.warn('Ignoring an event that belongs to no workspace');
+    return;
+  }
+  await workspaces.run(workspaceId, next);
+});
+
+// Clean up after the app is removed from a workspace
+app.event('app_uninstalled', async ({ context }) => {
+  const workspaceId = getWorkspaceId(context);
+  if (!OAUTH_ENABLED || !workspaceId) {
+    // With a single bot token, DATA_DIR may hold more than this app's state
+    logger.warn('The app was uninstalled; its data in DATA_DIR is kept');
+    return;
+  }
+  try {
+    await removeWorkspace(workspaceId);
+  } catch (error) {
+    logger.error('Error cleaning up after uninstall:', error);
+  }
+});
+
+// Command handler for '/54y'
+app.command('/54y', async ({ command, ack, client }) => {
+  // Acknowledge command request
+  await ack();
+  
+  const { text } = command;
+  const args = text.trim().split(' ');
+  const action = args[0]?.toLowerCase();
+  
+  try {
+    if (action === 'send') {
+      await handleSendCommand(client, command, args);
+    } 
+    else if (action === 'reply') {
+      await handleReplyCommand(client, command, args);
+    }
+    else if (action === 'pseudonyms') {
+      await handlePseudonymsCommand(client, command, args);
+    }
+    else if (action === 'mirror') {
+      await handleMirrorCommand(client, command, args);
+    }
+    else if (action === 'pending') {
+      await handlePendingCommand(client, command);
+    }
+    else if (action === 'poll') {
+      await handlePollCommand(client, command);
+    }
+    else if (action === 'qa') {
+      await handleQaCommand(client, command, args);
+    }
+    else if (action === 'mute' || action === 'unmute') {
+      await handleMuteCommand(client, command, args, action === 'mute');
+    }
+    else if (action === 'optout' || action === 'optin') {
+      await handleOptOutCommand(client, command, action === 'optout');
+    }
+    else if (action === 'preview') {
+      await handlePreviewCommand(client, command, args);
+    }
+    else if (action === 'quiet') {
+      await handleQuietCommand(client, command, args);
+    }
+    else if (action === 'escrow') {
+      await handleEscrowCommand(client, command, args);
+    }
+    else if (action === 'admin') {
+      await handleAdminCommand(client, command, args);
+    }
+    else if (action === 'export') {
+      await handleExportCommand(client, command, args);
+    }
+    else if (action === 'lock' || action === 'unlock') {
+      await handleLockCommand(client, command, args, action === 'lock');
+    }
+    else {
+      // Unknown command
+      await client.chat.postEphemeral({
+        channel: command.channel_id,
+        user: command.user_id,
+        text: 'Available commands: `/54y send #channel message`, `/54y reply <message_ts or link> message`, `/54y poll "Question?" "Option A" "Option B"`, `/54y qa start|stop|list`, `/54y mute|unmute <code>`, `/54y optout|optin`, `/54y quiet HH:MM-HH:MM|off`, `/54y preview on|off`, `/54y pending`, `/54y pseudonyms on|off`, `/54y mirror on|off`, `/54y export <code>`, `/54y lock|unlock <code>` or `/54y admin`'
+      });
+    }
+  } catch (error) {
+    console.error(error);
+    // Send error message to user
+    await client.chat.postEphemeral({
+      channel: command.channel_id,
+      user: command.user_id,
+      text: `Error: ${error instanceof Error ? error.message : 'Something went wrong'}`
+    });
+  }
+});
+
+// Handle direct messages to the bot - broadcast to all channel members
+app.message(async ({ message, client }) => {
+  // Properly type the message
+  const msg = message as any;
+  
+  // Propagate edits and deletions of relayed DMs and mirrored channel replies to every copy
+  if (msg.subtype === 'message_changed') {
+    try {
+      await handleMessageEdited(client, msg);
+    } catch (error) {
+      logger.error('Error propagating message edit:', error);
+    }
+    return;
+  }
+  if (msg.subtype === 'message_deleted') {
+    try {
+      await handleMessageDeleted(client, msg);
+    } catch (error) {
+      logger.error('Error propagating message deletion:', error);
+    }
+    return;
+  }
+  
+  // Replies in the thread of a mirrored conversation go to everyone taking part
+  if (msg.channel_type !== 'im' && msg.thread_ts && msg.thread_ts !== msg.ts && !msg.bot_id
+    && (!msg.subtype || msg.subtype === 'file_share')) {
+    try {
+      await relayChannelReply(client, msg);
+    } catch (error) {
+      logger.error('Error relaying channel reply:', error);
+    }
+    return;
+  }
+  
+  // Only process direct messages (im) that aren't from bots
+  // Allow file_share subtype specifically for file attachments
+  if (msg.channel_type !== 'im' || (msg.subtype && msg.subtype !== 'file_share')) {
+    logger.info("Not a direct message or unsupported subtype, skipping", msg);
+    return;
+  }
+  
+  logger.info(`Received DM: ${msg.text?.substring(0, 20) || '[No text, possible file upload]'}...`, msg);
+  
+  try {
+    // Keep a single sender from flooding the room
+    if (!await checkRateLimit(client, msg.channel, msg.user, msg.text || '')) {
+      return;
+    }
+    
+    // Check if the message is a thread reply
+    const isThreadReply = msg.thread_ts !== undefined;
+    
+    // Replies go to the room the conversation started in
+    if (isThreadReply) {
+      const conversationId = await getOrCreateConversationId(client, msg, isThreadReply);
+      if (!await checkConversationOpen(client, msg.channel, msg.user, conversationId)) {
+        return;
       }
+      const roomId = await workspace().conversationStore.getRoomId(conversationId);
+      const room = roomId
+        ? await workspace().roomDirectory.get(client, roomId)
+        : await getDefaultRoom(client);
       
-      // Open DM channel with the user
-      const dmResponse = await client.conversations.open({
-        users: memberId
+      if (!room) {
+        await client.chat.postEphemeral({
+          channel: msg.channel,
+          user: msg.user,
+          text: `The room this conversation started in is no longer available.`
+        });
+        return;
+      }
+      
+      await submitDirectMessage(client, msg, room, msg.text || '');
+      return;
+    }
+    
+    // New posts pick a room with a "#room" prefix, or from a picker when ambiguous
+    const rooms = await workspace().roomDirectory.list(client);
+    if (rooms.length === 0) {
+      await client.chat.postEphemeral({
+        channel: msg.channel,
+        user: msg.user,
+        text: `I couldn't find a channel to use for anonymous messaging. Please add me to a channel first.`
       });
+      return;
+    }
+    
+    const prefix = parseRoomPrefix(msg.text || '');
+    
+    // "qa <question>" goes to an open Q&A session; without one it is just a message
+    if (isQaQuestion(prefix.text) && (await workspace().settings.get()).qa && (await workspace().qaStore.listOpen()).length > 0) {
+      await submitQaQuestion(client, msg, prefix);
+      return;
+    }
+    
+    if (prefix.channelId || prefix.name) {
+      const room = prefix.channelId
+        ? await workspace().roomDirectory.get(client, prefix.channelId)
+        : await workspace().roomDirectory.findByName(client, prefix.name!);
       
-      if (!dmResponse.channel?.id) {
-        continue;
+      if (room) {
+        await submitDirectMessage(client, msg, room, prefix.text);
+        return;
       }
       
-      // If this is a thread reply and we have a thread mapping for this user
-      const userThreadTs = threadMap.get(memberId);
-      
-      // Prepare message options with common properties
-      const messageOptions: any = {
-        channel: dmResponse.channel.id,
-        mrkdwn: true
-      };
-
-      // Add files if they exist and were successfully shared
-      if (sharedFiles.length > 0) {
-        // Create blocks for better message formatting
-        messageOptions.blocks = [
-          {
-            type: "section",
-            text: {
-              type: "mrkdwn",
-              text: messageText
-            }
-          }
-        ];
-        
-        // Add each file as a separate block
-        for (const file of sharedFiles) {
-          // For images, create an image block
-          if (file.mimetype && file.mimetype.startsWith('image/')) {
-            messageOptions.blocks.push({
-              type: "image",
-              title: {
-                type: "plain_text",
-                text: file.name || "Image"
-              },
-              image_url: file.url_private,
-              alt_text: file.name || "Image"
-            });
-          } else {
-            // For other files, create a section with a link
-            messageOptions.blocks.push({
-              type: "section",
-              text: {
-                type: "mrkdwn",
-                text: `*File:* <${file.url_private}|${file.name || "Attachment"}> (${file.pretty_type || file.filetype || "File"})`
-              }
-            });
+      // An explicit channel mention must name a room; a plain "#word" may just be text
+      if (prefix.channelId) {
+        await client.chat.postEphemeral({
+          channel: msg.channel,
+          user: msg.user,
+          text: `I'm not a member of that channel. Available rooms: ${formatRoomList(rooms)}`
+        });
+        return;
+      }
+    }
+    
+    if (rooms.length === 1) {
+      await submitDirectMessage(client, msg, rooms[0], msg.text || '');
+      return;
+    }
+    
+    await postRoomPicker(client, msg, rooms);
+  } catch (error) {
+    logger.error('Error processing DM:', error);
+    
+    // Notify the user of the error
+    await client.chat.postEphemeral({
+      channel: msg.channel,
+      user: msg.user,
+      text: `Error: ${error instanceof Error ? error.message : 'Something went wrong'}`
+    });
+  }
+});
+
+// Send a DM that was waiting for a room to be picked
+app.action<BlockAction<StaticSelectAction>>('select_room', async ({ ack, body, action, client }) => {
+  await ack();
+  
+  const selected = action.selected_option?.value;
+  const sourceTs = action.block_id.replace(/^room_picker:/, '');
+  const channelId = body.channel!.id;
+  const userId = body.user.id;
+  const pickerTs = body.message!.ts;
+  
+  try {
+    const room = selected ? await workspace().roomDirectory.get(client, selected) : null;
+    if (!room) {
+      await client.chat.postEphemeral({
+        channel: channelId,
+        user: userId,
+        text: `That room is no longer available.`
+      });
+      return;
+    }
+    
+    // Load the original DM again
+    const history = await client.conversations.history({
+      channel: channelId,
+      latest: sourceTs,
+      inclusive: true,
+      limit: 1
+    });
+    const original = history.messages?.find((m: any) => m.ts === sourceTs);
+    if (!original) {
+      await client.chat.update({
+        channel: channelId,
+        ts: pickerTs,
+        text: `Your message was deleted, so nothing was sent.`,
+        blocks: []
+      });
+      return;
+    }
+    
+    await client.chat.update({
+      channel: channelId,
+      ts: pickerTs,
+      text: `Sending to #${room.name}`,
+      blocks: []
+    });
+    
+    await submitDirectMessage(client, { ...original, channel: channelId, user: userId }, room, parseRoomPrefix(original.text || '').text);
+  } catch (error) {
+    logger.error('Error sending DM after room selection:', error);
+    await client.chat.postEphemeral({
+      channel: channelId,
+      user: userId,
+      text: `Error: ${error instanceof Error ? error.message : 'Something went wrong'}`
+    });
+  }
+});
+
+// Admins approve or reject held messages
+app.action<BlockAction<ButtonAction>>('moderation_approve', async ({ ack, body, action, client }) => {
+  await ack();
+  await handleModerationAction(client, body, action, true);
+});
+
+app.action<BlockAction<ButtonAction>>('moderation_reject', async ({ ack, body, action, client }) => {
+  await ack();
+  await handleModerationAction(client, body, action, false);
+});
+
+// Report button on anonymous copies - asks for an optional reason
+app.action<BlockAction<ButtonAction>>('report_message', async ({ ack, body, client }) => {
+  await ack();
+  
+  await client.views.open({
+    trigger_id: body.trigger_id,
+    view: {
+      type: 'modal',
+      callback_id: 'report_message_modal',
+      private_metadata: JSON.stringify({ channel: body.channel?.id, ts: body.message?.ts }),
+      title: {
+        type: 'plain_text',
+        text: 'Report message'
+      },
+      submit: {
+        type: 'plain_text',
+        text: 'Report'
+      },
+      blocks: [
+        {
+          type: 'input',
+          block_id: 'reason',
+          optional: true,
+          label: {
+            type: 'plain_text',
+            text: 'What is wrong with this message?'
+          },
+          element: {
+            type: 'plain_text_input',
+            action_id: 'value',
+            multiline: true
           }
+        },
+        {
+          type: 'context',
+          elements: [
+            {
+              type: 'mrkdwn',
+              text: 'Admins will see the message and your reason, but not who reported it.'
+            }
+          ]
         }
-        
-        // Add context info at the bottom
-        messageOptions.blocks.push({
-          type: "context",
+      ]
+    }
+  });
+});
+
+app.view('report_message_modal', async ({ ack, view, body, client }) => {
+  await ack();
+  
+  const { channel, ts } = JSON.parse(view.private_metadata || '{}');
+  const reason = view.state.values.reason?.value?.value || '';
+  
+  try {
+    const reported = (await workspace().settings.get()).moderationAdmins.length > 0 && await reportMessage(client, channel, ts, reason);
+    await client.chat.postEphemeral({
+      channel,
+      user: body.user.id,
+      text: reported
+        ? `Thanks, the admins were notified. They won't see who reported it.`
+        : `Sorry, this message couldn't be reported.`
+    });
+  } catch (error) {
+    logger.error('Error reporting message:', error);
+  }
+});
+
+// "Reply anonymously" message shortcut - asks for the reply in a modal
+app.shortcut<MessageShortcut>('reply_anonymously', async ({ ack, shortcut, client }) => {
+  await ack();
+  
+  await client.views.open({
+    trigger_id: shortcut.trigger_id,
+    view: {
+      type: 'modal',
+      callback_id: 'reply_anonymously_modal',
+      private_metadata: JSON.stringify({
+        channel: shortcut.channel.id,
+        ts: shortcut.message.thread_ts || shortcut.message.ts
+      }),
+      title: {
+        type: 'plain_text',
+        text: 'Reply anonymously'
+      },
+      submit: {
+        type: 'plain_text',
+        text: 'Reply'
+      },
+      blocks: [
+        {
+          type: 'input',
+          block_id: 'reply',
+          label: {
+            type: 'plain_text',
+            text: 'Your reply'
+          },
+          element: {
+            type: 'plain_text_input',
+            action_id: 'value',
+            multiline: true
+          }
+        },
+        {
+          type: 'context',
           elements: [
             {
-              type: "plain_text",
-              text: "Anonymous shared file"
+              type: 'mrkdwn',
+              text: 'Your reply will be posted in the thread without your name.'
             }
           ]
-        });
-      } else {
-        messageOptions.text = messageText;
-      }
-      
-      if (isThreadReply && userThreadTs) {
-        try {
-          // Send as reply to the correct thread for this user
-          messageOptions.thread_ts = userThreadTs;
-          const response = await client.chat.postMessage(messageOptions);
-          
-          successCount++;
-        } catch (threadError) {
-          // If posting to thread fails, send as regular message
-          logger.warn(`Couldn't post to thread for user ${memberId}, sending as regular message: ${threadError}`);
-          
-          // Send as new message and store the new thread reference
-          delete messageOptions.thread_ts;
-          const response = await client.chat.postMessage(messageOptions);
-          
-          // Update the thread mapping with new timestamp
-          threadMap.set(memberId, response.ts as string);
-          successCount++;
         }
-      } else {
-        // Send as regular message
-        const response = await client.chat.postMessage(messageOptions);
-        
-        // Store this message's timestamp for this user
-        threadMap.set(memberId, response.ts as string);
-        successCount++;
+      ]
+    }
+  });
+});
+
+/**
+ * Build the second step of the reply shortcut, shown on top of the reply form
+ * With a confirmation ID it offers "Send anyway"; once the reply is sent, closing it closes the form too.
+ */
+function buildReplyNoticeView(text: string, options: { externalId?: string; confirmationId?: string; sent?: boolean } = {}): any {
+  return {
+    type: 'modal',
+    callback_id: 'reply_anonymously_confirm',
+    external_id: options.externalId,
+    private_metadata: options.confirmationId || '',
+    title: { type: 'plain_text', text: 'Reply anonymously' },
+    submit: options.confirmationId ? { type: 'plain_text', text: 'Send anyway' } : undefined,
+    close: { type: 'plain_text', text: options.sent ? 'Close' : 'Edit' },
+    clear_on_close: options.sent || undefined,
+    blocks: [
+      {
+        type: 'section',
+        text: { type: 'mrkdwn', text }
       }
-    } catch (dmError) {
-      logger.error(`Failed to DM user ${memberId}:`, dmError);
-      // Continue with other users even if one fails
+    ]
+  };
+}
+
+app.view('reply_anonymously_modal', async ({ ack, view, body, client }) => {
+  const { channel, ts } = JSON.parse(view.private_metadata || '{}');
+  const text = view.state.values.reply?.value?.value || '';
+  if (!text.trim()) {
+    await ack({
+      response_action: 'errors',
+      errors: { reply: 'Write a reply first' }
+    });
+    return;
+  }
+  
+  // Checking and posting the reply can take longer than Slack waits for an answer, so the
+  // outcome is shown in a view on top of the form; going back to the form keeps the text
+  const externalId = `reply-${crypto.randomBytes(8).toString('hex')}`;
+  await ack({
+    response_action: 'push',
+    view: buildReplyNoticeView('Sending your reply…', { externalId })
+  });
+  
+  let notice: any;
+  try {
+    // Replies that look like they identify the sender need confirming first
+    const findings = await checkIdentifyingContent(client, body.user.id, text);
+    if (findings.length > 0) {
+      const confirmationId = addConfirmation(body.user.id, async () => {
+        const error = await postAnonymousReply(client, body.user.id, channel, ts, text);
+        if (error) {
+          throw new Error(error);
+        }
+      });
+      notice = buildReplyNoticeView(`:warning: Your reply might give you away: ${findings.join('; ')}. Send it anyway?`, { externalId, confirmationId });
+    } else {
+      const error = await postAnonymousReply(client, body.user.id, channel, ts, text);
+      notice = error
+        ? buildReplyNoticeView(`Your reply wasn't sent: ${error}`, { externalId })
+        : buildReplyNoticeView('Your anonymous reply was posted in the thread.', { externalId, sent: true });
     }
+  } catch (error) {
+    logger.error('Error sending a reply from the shortcut:', error);
+    notice = buildReplyNoticeView(`Your reply wasn't sent: ${error instanceof Error ? error.message : 'Could not post reply'}`, { externalId });
+  }
+  await client.views.update({ external_id: externalId, view: notice });
+});
+
+// A reply from the shortcut, sent after its sender confirmed it
+app.view('reply_anonymously_confirm', async ({ ack, view, body, client }) => {
+  const confirmation = takeConfirmation(view.private_metadata, body.user.id);
+  if (!confirmation) {
+    await ack({ response_action: 'update', view: buildReplyNoticeView(`This reply waited too long and wasn't sent. Go back to send it again.`) });
+    return;
   }
   
-  return { successCount, botCount, eligibleRecipients };
-}
+  // Like the first step, the outcome replaces the notice once the reply went out
+  await ack({ response_action: 'update', view: buildReplyNoticeView('Sending your reply…') });
+  let notice: any;
+  try {
+    await confirmation.send();
+    notice = buildReplyNoticeView('Your anonymous reply was posted in the thread.', { sent: true });
+  } catch (error) {
+    logger.error('Error sending a confirmed reply from the shortcut:', error);
+    notice = buildReplyNoticeView(`Your reply wasn't sent: ${error instanceof Error ? error.message : 'Could not post reply'}`);
+  }
+  await client.views.update({ view_id: view.id, view: notice });
+});
 
-// ============================================================================
-// Command Handlers
-// ============================================================================
+// Previewed messages and ones that looked identifying, sent or dropped once their sender decided
+app.action<BlockAction<ButtonAction>>(/^(identity|preview)_(send|cancel)$/, async ({ ack, body, action, client, respond }) => {
+  await ack();
+  
+  const confirmation = takeConfirmation(action.value!, body.user.id);
+  if (!confirmation) {
+    await respond({ replace_original: true, text: `This message waited too long and wasn't sent. Please send it again.` });
+    return;
+  }
+  if (action.action_id.endsWith('_cancel')) {
+    await respond({ replace_original: true, text: `Your message wasn't sent.` });
+    return;
+  }
+  
+  await respond({ replace_original: true, text: `Sending your message.` });
+  try {
+    await confirmation.send();
+  } catch (error) {
+    logger.error('Error sending a confirmed message:', error);
+    await client.chat.postEphemeral({
+      channel: body.channel!.id,
+      user: body.user.id,
+      text: `Error: ${error instanceof Error ? error.message : 'Something went wrong'}`
+    });
+  }
+});
 
-/**
- * Handle '/54y send' command
- */
-async function handleSendCommand(client: any, command: any, args: string[]) {
-  const channelName = args[1];
-  const message = args.slice(2).join(' ');
+// Take back a DM shortly after it went out
+app.action<BlockAction<ButtonAction>>('undo_send', async ({ ack, body, action, respond, client }) => {
+  await ack();
+  
+  const { channel, ts, until } = JSON.parse(action.value!);
+  // Only the sender sees the button, in their DM with the bot
+  if (channel !== body.channel?.id) {
+    return;
+  }
+  if (Date.now() > until) {
+    await respond({ replace_original: true, text: `It's too late to undo this message. You can still delete your DM to remove every copy.` });
+    return;
+  }
+  
+  try {
+    const deleted = await deleteRelayedCopies(client, await getSourceKey(channel, ts));
+    await respond({ replace_original: true, text: deleted ? `Your message was taken back and every copy was deleted.` : `This message was already deleted.` });
+  } catch (error) {
+    logger.error('Error undoing a message:', error);
+  }
+});
+
+// Votes on poll copies - the voter is only stored as a per-poll keyed hash
+app.action<BlockAction<ButtonAction>>('poll_vote', async ({ ack, body, action, client }) => {
+  await ack();
+  
+  const [pollId, index] = action.value!.split(':');
+  const userId = body.user.id;
+  const channelId = body.channel!.id;
+  
+  try {
+    const poll = await workspace().pollStore.get(pollId);
+    if (!poll) {
+      return;
+    }
+    
+    const voterKey = getPseudonymKey(await getPseudonymSecret(), poll.id, userId);
+    const result = await workspace().pollStore.vote(poll.id, voterKey, Number(index));
+    if (!result) {
+      await client.chat.postEphemeral({
+        channel: channelId,
+        user: userId,
+        text: `This poll is closed.`
+      });
+      return;
+    }
+    
+    await client.chat.postEphemeral({
+      channel: channelId,
+      user: userId,
+      text: result.choice === null
+        ? `You took back your vote.`
+        : `You voted for *${poll.options[result.choice]}*. Vote again to change it, or click the same option to take it back.`
+    });
+    await refreshPoll(client, poll.id);
+  } catch (error) {
+    logger.error('Error recording poll vote:', error);
+  }
+});
+
+// The creator closes their poll early
+app.action<BlockAction<ButtonAction>>('close_poll', async ({ ack, body, action, client }) => {
+  await ack();
+  
+  try {
+    const poll = await workspace().pollStore.get(action.value!);
+    if (!poll || poll.creatorKey !== getPseudonymKey(await getPseudonymSecret(), `${poll.id}:creator`, body.user.id)) {
+      return;
+    }
+    
+    if (await workspace().pollStore.close(poll.id)) {
+      logger.info(`Closed poll ${poll.id}`);
+      await refreshPoll(client, poll.id);
+    }
+    await client.chat.update({
+      channel: body.channel!.id,
+      ts: body.message!.ts,
+      text: `Your anonymous poll is closed.`,
+      blocks: []
+    });
+  } catch (error) {
+    logger.error('Error closing poll:', error);
+    await client.chat.postEphemeral({
+      channel: body.channel!.id,
+      user: body.user.id,
+      text: `Error: ${error instanceof Error ? error.message : 'Something went wrong'}`
+    });
+  }
+});
+
+// Admins approve a reveal, adding their key share if they hold one
+app.action<BlockAction<ButtonAction>>('escrow_approve', async ({ ack, body, action, client }) => {
+  await ack();
+  
+  const request = getRevealRequest(action.value!);
+  if (!request || !await isEscrowAdmin(body.user.id)) {
+    return;
+  }
+  // A reveal always needs admins other than the one who asked for it
+  if (body.user.id === request.requestedBy) {
+    await client.chat.postEphemeral({
+      channel: body.channel!.id,
+      user: body.user.id,
+      text: `You requested this reveal, so other admins have to approve it.`
+    });
+    return;
+  }
+  
+  await client.views.open({
+    trigger_id: body.trigger_id,
+    view: {
+      type: 'modal',
+      callback_id: 'escrow_approve_modal',
+      private_metadata: request.id,
+      title: {
+        type: 'plain_text',
+        text: 'Approve reveal'
+      },
+      submit: {
+        type: 'plain_text',
+        text: 'Approve'
+      },
+      blocks: [
+        {
+          type: 'section',
+          text: {
+            type: 'mrkdwn',
+            text: `*Reason:* ${request.reason}\nApprovals so far: ${request.approvedBy.length} of ${ESCROW_APPROVALS}.`
+          }
+        },
+        {
+          type: 'input',
+          block_id: 'share',
+          optional: true,
+          label: {
+            type: 'plain_text',
+            text: 'Your key share'
+          },
+          hint: {
+            type: 'plain_text',
+            text: 'It is only kept in memory until the reveal completes.'
+          },
+          element: {
+            type: 'plain_text_input',
+            action_id: 'value'
+          }
+        }
+      ]
+    }
+  });
+});
+
+app.view('escrow_approve_modal', async ({ ack, view, body, client }) => {
+  const request = getRevealRequest(view.private_metadata);
+  const adminId = body.user.id;
+  const input = view.state.values.share?.value?.value?.trim() || '';
+  
+  if (!request || !await isEscrowAdmin(adminId) || adminId === request.requestedBy) {
+    await ack();
+    return;
+  }
+  
+  if (input) {
+    const share = parseShare(input);
+    const escrowPublicKey = await getEscrowPublicKey();
+    if (!share || !escrowPublicKey || share.fingerprint !== getKeyFingerprint(escrowPublicKey)) {
+      await ack({
+        response_action: 'errors',
+        errors: { share: `That isn't a share of the current escrow key.` }
+      });
+      return;
+    }
+    if (request.shares[adminId]) {
+      await ack({
+        response_action: 'errors',
+        errors: { share: `You already added a share to this request.` }
+      });
+      return;
+    }
+    if (Object.values(request.shares).some(existing => existing.x === share.x)) {
+      await ack({
+        response_action: 'errors',
+        errors: { share: `That share was already added.` }
+      });
+      return;
+    }
+    request.shares[adminId] = share;
+  }
+  await ack();
+  
+  if (!request.approvedBy.includes(adminId)) {
+    request.approvedBy.push(adminId);
+  }
+  logger.warn(`Reveal ${request.id} approved by ${adminId}${input ? ' with a key share' : ''}`);
+  
+  await completeReveal(client, request);
+});
+
+// Any admin can stop a reveal
+app.action<BlockAction<ButtonAction>>('escrow_deny', async ({ ack, body, action, client }) => {
+  await ack();
   
-  if (!channelName || !message) {
-    await client.chat.postEphemeral({
-      channel: command.channel_id,
-      user: command.user_id,
-      text: 'Usage: /54y send #channel message'
-    });
+  const request = getRevealRequest(action.value!);
+  if (!request || !await isEscrowAdmin(body.user.id)) {
     return;
   }
   
-  // Extract channel ID from channel name
-  const channelId = channelName.startsWith('#') 
-    ? channelName.substring(1) 
-    : channelName;
+  workspace().revealRequests.delete(request.id);
+  logger.warn(`Reveal ${request.id} denied by ${body.user.id}`);
+  await closeRevealPrompts(client, request, `The reveal request was denied by <@${body.user.id}>. Nothing was revealed.`);
+});
+
+// Home tab with the member's anonymous conversations
+app.event('app_home_opened', async ({ event, client }) => {
+  if (event.tab !== 'home') {
+    return;
+  }
+  try {
+    await publishHome(client, event.user);
+  } catch (error) {
+    logger.error('Error publishing Home tab:', error);
+  }
+});
+
+// Link buttons still send an action, which has to be acknowledged
+app.action('home_open_thread', async ({ ack }) => {
+  await ack();
+});
+
+app.action<BlockAction<ButtonAction>>(/^home_(mute|unmute)$/, async ({ ack, body, action, client }) => {
+  await ack();
   
+  const code = action.value!;
+  const muted = action.action_id === 'home_mute';
   try {
-    // Post anonymous message
-    await client.chat.postMessage({
-      channel: channelId,
-      text: message,
-      username: 'Anonymous',
-    });
-    
-    // Confirm to user with ephemeral message
-    await client.chat.postEphemeral({
-      channel: command.channel_id,
-      user: command.user_id,
-      text: `Your anonymous message was sent to ${channelName}`
-    });
+    await workspace().preferencesStore.setMuted(body.user.id, code, muted);
+    await publishHome(client, body.user.id);
   } catch (error) {
+    logger.error('Error changing mute from the Home tab:', error);
+    // The Home tab has no channel of its own, so the error goes to the DM with the bot
+    const dmChannel = await workspace().deliveryEngine.openDm(client, body.user.id);
     await client.chat.postEphemeral({
-      channel: command.channel_id,
-      user: command.user_id,
-      text: `Error: ${error instanceof Error ? error.message : 'Could not send message'}`
+      channel: dmChannel!,
+      user: body.user.id,
+      text: `Error: the conversation couldn't be ${muted ? 'muted' : 'unmuted'}: ${error instanceof Error ? error.message : 'Something went wrong'}`
     });
   }
-}
+});
 
-/**
- * Handle '/54y reply' command
- */
-async function handleReplyCommand(client: any, command: any, args: string[]) {
-  const messageTs = args[1];
-  const message = args.slice(2).join(' ');
+app.action<BlockAction<ButtonAction>>('home_new_post', async ({ ack, body, client }) => {
+  await ack();
   
-  if (!messageTs || !message) {
-    await client.chat.postEphemeral({
-      channel: command.channel_id,
-      user: command.user_id,
-      text: 'Usage: /54y reply message_ts message'
-    });
+  const rooms = await workspace().roomDirectory.list(client);
+  if (rooms.length === 0) {
+    logger.warn('New anonymous post requested, but there are no rooms');
     return;
   }
+  await client.views.open({
+    trigger_id: body.trigger_id,
+    view: buildNewPostModal(rooms)
+  });
+});
+
+// A post from the Home tab is relayed like a DM. The bot's confirmation in the
+// sender's DM stands in for the DM, so replies in its thread join the conversation.
+app.view('new_post_modal', async ({ ack, view, body, client }) => {
+  await ack();
+  
+  const userId = body.user.id;
+  const roomId = view.state.values.room?.value?.selected_option?.value;
+  const text = view.state.values.text?.value?.value?.trim() || '';
   
   try {
-    // Post anonymous reply in thread
-    await client.chat.postMessage({
-      channel: command.channel_id,
-      text: message,
-      thread_ts: messageTs,
-      username: 'Anonymous',
-    });
+    const room = roomId ? await workspace().roomDirectory.get(client, roomId) : null;
+    const dmChannel = await workspace().deliveryEngine.openDm(client, userId);
+    if (!room || !text || !dmChannel) {
+      return;
+    }
     
-    // Confirm to user with ephemeral message
-    await client.chat.postEphemeral({
-      channel: command.channel_id,
-      user: command.user_id,
-      text: `Your anonymous reply was posted in the thread`
+    if (!await checkRateLimit(client, dmChannel, userId, text)) {
+      return;
+    }
+    
+    const quoted = text.split('\n').map(line => `>${line}`).join('\n');
+    const notice = await client.chat.postMessage({
+      channel: dmChannel,
+      text: `Your anonymous post to #${room.name}:\n${quoted}\nReplies will show up in this thread.`
     });
+    await submitDirectMessage(client, { user: userId, channel: dmChannel, ts: notice.ts, text }, room, text);
+    await publishHome(client, userId);
   } catch (error) {
-    await client.chat.postEphemeral({
-      channel: command.channel_id,
-      user: command.user_id,
-      text: `Error: ${error instanceof Error ? error.message : 'Could not post reply'}`
-    });
+    logger.error('Error sending post from the Home tab:', error);
   }
-}
-
-// ============================================================================
-// Event Handlers
-// ============================================================================
+});
 
-// Command handler for '/54y'
-app.command('/54y', async ({ command, ack, client }) => {
-  // Acknowledge command request
+// Upload a conversation's transcript from the Home tab
+app.action<BlockAction<ButtonAction>>('home_export', async ({ ack, body, action, client }) => {
   await ack();
   
-  const { text } = command;
-  const args = text.trim().split(' ');
-  const action = args[0]?.toLowerCase();
-  
+  const userId = body.user.id;
+  const code = action.value!;
   try {
-    if (action === 'send') {
-      await handleSendCommand(client, command, args);
-    } 
-    else if (action === 'reply') {
-      await handleReplyCommand(client, command, args);
-    }
-    else {
-      // Unknown command
-      await client.chat.postEphemeral({
-        channel: command.channel_id,
-        user: command.user_id,
-        text: 'Available commands: `/54y send #channel message` or `/54y reply message_ts message`'
-      });
+    const problem = await exportTranscript(client, userId, code, 'markdown');
+    if (problem) {
+      const dmChannel = await workspace().deliveryEngine.openDm(client, userId);
+      await client.chat.postMessage({ channel: dmChannel!, text: problem });
     }
   } catch (error) {
-    console.error(error);
-    // Send error message to user
-    await client.chat.postEphemeral({
-      channel: command.channel_id,
-      user: command.user_id,
-      text: `Error: ${error instanceof Error ? error.message : 'Something went wrong'}`
-    });
+    logger.error('Error exporting a transcript from the Home tab:', error);
   }
 });
 
-// Handle direct messages to the bot - broadcast to all channel members
-app.message(async ({ message, client }) => {
-  // Properly type the message
-  const msg = message as any;
+// Mute the conversation a copy belongs to
+app.action<BlockAction<ButtonAction>>('mute_conversation', async ({ ack, body, client }) => {
+  await ack();
   
-  // Only process direct messages (im) that aren't from bots
-  // Allow file_share subtype specifically for file attachments
-  if (msg.channel_type !== 'im' || (msg.subtype && msg.subtype !== 'file_share')) {
-    logger.info("Not a direct message or unsupported subtype, skipping", msg);
+  const relayed = await workspace().conversationStore.findRelayedMessageByCopy(body.channel!.id, body.message!.ts);
+  if (!relayed) {
+    await client.chat.postEphemeral({
+      channel: body.channel!.id,
+      user: body.user.id,
+      text: `I couldn't find the conversation this message belongs to.`
+    });
     return;
   }
   
-  logger.info(`Received DM: ${msg.text?.substring(0, 20) || '[No text, possible file upload]'}...`, msg);
+  const code = getConversationCode(await getPseudonymSecret(), relayed.conversationId);
+  await workspace().preferencesStore.setMuted(body.user.id, code, true);
+  await client.chat.postEphemeral({
+    channel: body.channel!.id,
+    user: body.user.id,
+    text: `Muted conversation \`${code}\`. You won't get its new messages. Use \`/54y unmute ${code}\` to undo.`
+  });
+});
+
+// Upvotes on Q&A questions - the voter is only stored as a per-question keyed hash
+app.action<BlockAction<ButtonAction>>('qa_upvote', async ({ ack, body, action, client }) => {
+  await ack();
+  
+  const [sessionId, questionId] = action.value!.split(':');
+  const userId = body.user.id;
   
   try {
-    // Find the target channel
-    const targetChannel = await findTargetChannel(client);
-    
-    if (!targetChannel || !targetChannel.id) {
+    const voterKey = getPseudonymKey(await getPseudonymSecret(), `qa:${sessionId}:${questionId}`, userId);
+    const result = await workspace().qaStore.toggleUpvote(sessionId, questionId, voterKey);
+    if (!result) {
       await client.chat.postEphemeral({
-        channel: msg.channel,
-        user: msg.user,
-        text: `I couldn't find a channel to use for anonymous messaging. Please add me to a channel first.`
+        channel: body.channel!.id,
+        user: userId,
+        text: `This question can't be upvoted anymore.`
       });
       return;
     }
-    
-    // Get members of the target channel
-    const members = await getChannelMembers(client, targetChannel.id);
-    
-    // Get sender info to exclude them from broadcast
-    const senderId = msg.user;
-    
-    // Check if the message is a thread reply
-    const isThreadReply = msg.thread_ts !== undefined;
-    
-    // Get or create conversation ID
-    const conversationId = await getOrCreateConversationId(client, msg, isThreadReply);
-    
-    // Initialize thread map for this conversation if it doesn't exist
-    if (!messageThreadMap.has(conversationId)) {
-      messageThreadMap.set(conversationId, new Map<string, string>());
-    }
-    
-    // Get thread map for this conversation
-    const threadMap = messageThreadMap.get(conversationId)!;
-    
-    // Format the message with conversation ID at the beginning
-    const messageText = isThreadReply 
-      ? formatReplyWithId(msg.text || '', conversationId)
-      : formatMessageWithId(msg.text || '', conversationId);
-    
-    // Check for files in the message
-    const files = getFilesFromMessage(msg);
-    let hasFiles = files.length > 0;
-    
-    // If there are files, ensure they're shared first (for images)
-    if (hasFiles) {
-      logger.info(`Message contains ${files.length} files/images`);
-    }
-    
-    // Broadcast to all members
-    const { successCount, botCount, eligibleRecipients } = await broadcastToMembers(
-      client, 
-      members, 
-      senderId, 
-      messageText, 
-      threadMap, 
-      isThreadReply,
-      files
-    );
-    
-    // Notify user if no one received their message
-    if (eligibleRecipients === 0) {
-      await client.chat.postEphemeral({
-        channel: msg.channel,
-        user: msg.user,
-        text: `Your message wasn't delivered to anyone. All other members in #${targetChannel.name} are bots or couldn't be reached.`
-      });
-    } else if (successCount === 0) {
-      await client.chat.postEphemeral({
-        channel: msg.channel,
-        user: msg.user,
-        text: `Your message couldn't be delivered to any members in #${targetChannel.name}. There might be an issue with DM permissions.`
-      });
-    } else if (successCount < eligibleRecipients) {
-      await client.chat.postEphemeral({
-        channel: msg.channel,
-        user: msg.user,
-        text: `Your message was delivered to ${successCount} out of ${eligibleRecipients} members in #${targetChannel.name}.`
-      });
-    }
-    
-    // Store the sender's thread timestamp too (removed the threaded reply with conversation ID)
-    if (!isThreadReply) {
-      threadMap.set(senderId, msg.ts);
-    } else if (!threadMap.has(senderId)) {
-      // Update the sender's thread timestamp if needed
-      threadMap.set(senderId, msg.thread_ts as string);
-    }
-    
-    const messageType = hasFiles ? 
-      'message with files' : 
-      (isThreadReply ? 'thread reply' : 'message');
-    
-    logger.info(`Broadcast anonymous ${messageType} to ${successCount} members. Channel: #${targetChannel.name}, Conversation ID: ${conversationId}`);
-    
-    // Clean up old conversation maps
-    cleanupOldConversations();
+    await refreshQuestion(client, sessionId, questionId);
   } catch (error) {
-    logger.error('Error processing DM:', error);
-    
-    // Notify the user of the error
-    await client.chat.postEphemeral({
-      channel: msg.channel,
-      user: msg.user,
-      text: `Error: ${error instanceof Error ? error.message : 'Something went wrong'}`
+    logger.error('Error recording Q&A upvote:', error);
+  }
+});
+
+// The host posts a question into the Q&A channel to answer it there
+app.action<BlockAction<ButtonAction>>('qa_post', async ({ ack, body, action, client, respond }) => {
+  await ack();
+  
+  const [sessionId, questionId, page] = action.value!.split(':');
+  const session = await workspace().qaStore.get(sessionId);
+  const question = session?.questions[questionId];
+  if (!session || !question || !await canManageQa(session, body.user.id)) {
+    return;
+  }
+  
+  await client.chat.postMessage({
+    channel: session.channelId,
+    text: `:question: *Anonymous question* (${question.upvotes.length} upvote${question.upvotes.length === 1 ? '' : 's'})\n>${question.text.replace(/\n/g, '\n>')}`
+  });
+  await respond({ replace_original: true, text: `Questions in the Q&A session`, blocks: buildQaListBlocks(session, true, Number(page) || 0) });
+});
+
+// The host marks a question as answered
+app.action<BlockAction<ButtonAction>>('qa_answered', async ({ ack, body, action, client, respond }) => {
+  await ack();
+  
+  const [sessionId, questionId, page] = action.value!.split(':');
+  const session = await workspace().qaStore.get(sessionId);
+  if (!session || !await canManageQa(session, body.user.id)) {
+    return;
+  }
+  
+  if (await workspace().qaStore.markAnswered(sessionId, questionId)) {
+    await refreshQuestion(client, sessionId, questionId);
+  }
+  await respond({ replace_original: true, text: `Questions in the Q&A session`, blocks: buildQaListBlocks(session, true, Number(page) || 0) });
+});
+
+// Pages of the question list
+app.action<BlockAction<ButtonAction>>(/^qa_list_(previous|next)$/, async ({ ack, body, action, respond }) => {
+  await ack();
+  
+  const [sessionId, page] = action.value!.split(':');
+  const session = await workspace().qaStore.get(sessionId);
+  if (!session) {
+    await respond({ replace_original: true, text: `This Q&A session is gone.` });
+    return;
+  }
+  await respond({
+    replace_original: true,
+    text: `Questions in the Q&A session`,
+    blocks: buildQaListBlocks(session, await canManageQa(session, body.user.id), Number(page))
+  });
+});
+
+// Buttons on queued message notices
+app.action<BlockAction<ButtonAction>>('send_scheduled_now', async ({ ack, body, action, client }) => {
+  await ack();
+  
+  const delivery = await workspace().deliveryQueue.get(action.value!);
+  if (!delivery || delivery.userId !== body.user.id) {
+    return;
+  }
+  if (await workspace().deliveryQueue.remove(delivery.id)) {
+    await deliverScheduled(client, delivery);
+  }
+});
+
+app.action<BlockAction<ButtonAction>>('cancel_scheduled', async ({ ack, body, action, client }) => {
+  await ack();
+  
+  const delivery = await workspace().deliveryQueue.get(action.value!);
+  if (delivery && delivery.userId === body.user.id) {
+    await cancelScheduledDelivery(client, delivery.id);
+  }
+});
+
+app.action<BlockAction<ButtonAction>>('reschedule_delivery', async ({ ack, body, action, client }) => {
+  await ack();
+  
+  const delivery = await workspace().deliveryQueue.get(action.value!);
+  if (!delivery || delivery.userId !== body.user.id) {
+    return;
+  }
+  
+  await client.views.open({
+    trigger_id: body.trigger_id,
+    view: {
+      type: 'modal',
+      callback_id: 'reschedule_delivery_modal',
+      private_metadata: delivery.id,
+      title: {
+        type: 'plain_text',
+        text: 'Schedule message'
+      },
+      submit: {
+        type: 'plain_text',
+        text: 'Schedule'
+      },
+      blocks: [
+        {
+          type: 'input',
+          block_id: 'due_at',
+          label: {
+            type: 'plain_text',
+            text: 'Send at'
+          },
+          element: {
+            type: 'datetimepicker',
+            action_id: 'value',
+            initial_date_time: Math.floor(delivery.dueAt / 1000)
+          }
+        }
+      ]
+    }
+  });
+});
+
+app.view('reschedule_delivery_modal', async ({ ack, view, body, client }) => {
+  const dueAt = (view.state.values.due_at?.value?.selected_date_time || 0) * 1000;
+  if (dueAt <= Date.now()) {
+    await ack({
+      response_action: 'errors',
+      errors: { due_at: 'Pick a time in the future.' }
+    });
+    return;
+  }
+  await ack();
+  
+  const delivery = await workspace().deliveryQueue.get(view.private_metadata);
+  if (!delivery || delivery.userId !== body.user.id) {
+    return;
+  }
+  const updated = await workspace().deliveryQueue.update(delivery.id, { dueAt });
+  if (updated?.notice) {
+    await client.chat.update({
+      channel: updated.notice.channel,
+      ts: updated.notice.ts,
+      text: `Your anonymous message is queued`,
+      blocks: await buildScheduledBlocks(client, updated)
     });
   }
 });
 
+// Keep the room list up to date as the bot joins and leaves channels
+app.event('member_joined_channel', async ({ event, client }) => {
+  if (event.user === await workspace().roomDirectory.getBotUserId(client)) {
+    await workspace().roomDirectory.add(client, event.channel);
+  }
+});
+
+app.event('member_left_channel', async ({ event, client }) => {
+  if (event.user === await workspace().roomDirectory.getBotUserId(client)) {
+    workspace().roomDirectory.remove(event.channel);
+  }
+});
+
+app.event('channel_left', async ({ event }) => {
+  workspace().roomDirectory.remove(event.channel);
+});
+
+app.event('group_left', async ({ event }) => {
+  workspace().roomDirectory.remove(event.channel);
+});
+
+app.event('channel_archive', async ({ event }) => {
+  workspace().roomDirectory.remove(event.channel);
+});
+
+app.event('channel_rename', async ({ event, client }) => {
+  if (await workspace().roomDirectory.get(client, event.channel.id)) {
+    await workspace().roomDirectory.add(client, event.channel.id);
+  }
+});
+
+// Mirror reactions on anonymous messages across every copy
+app.event('reaction_added', async ({ event, client }) => {
+  try {
+    await handleReactionChanged(client, event, true);
+  } catch (error) {
+    logger.error('Error mirroring added reaction:', error);
+  }
+});
+
+app.event('reaction_removed', async ({ event, client }) => {
+  try {
+    await handleReactionChanged(client, event, false);
+  } catch (error) {
+    logger.error('Error mirroring removed reaction:', error);
+  }
+});
+
 // Simple ping-pong test handler for debugging
 app.message('ping', async ({ message, say }) => {
   await say('pong');
@@ -754,19 +5005,40 @@ app.message('ping', async ({ message, say }) => {
 
 // Start the app
 (async () => {
-  const port = process.env.PORT || 3000;
+  const port = config.port;
   await app.start(port);
   console.log(`⚡️ 54y Slack bot is running on port ${port}`);
+  if (OAUTH_ENABLED) {
+    console.log(`🔑 Install the app to a workspace at /slack/install on port ${port}`);
+  }
   
-  // Try to find the anonymous channel at startup
-  try {
-    const channel = await findAnonymousChannel(app.client);
-    if (channel) {
-      console.log(`✅ Using #${channel.name} as the anonymous channel`);
+  // Send queued messages as they come due, including ones queued before a restart
+  setInterval(() => {
+    forEachWorkspace('processing the delivery queue', processDueDeliveries).catch(error => logger.error('Error processing delivery queue:', error));
+  }, DELIVERY_QUEUE_INTERVAL_MS);
+  
+  // Send digests once members' quiet hours are over
+  setInterval(() => {
+    forEachWorkspace('sending digests', processDigests).catch(error => logger.error('Error sending digests:', error));
+  }, DIGEST_INTERVAL_MS);
+  
+  // Expire idle conversations even when nothing is being sent
+  setInterval(() => {
+    forEachWorkspace('cleaning up conversations', cleanupOldConversations).catch(error => logger.error('Error cleaning up conversations:', error));
+  }, CONVERSATION_CLEANUP_INTERVAL_MS);
+  
+  // Close polls when their close time comes
+  setInterval(() => {
+    forEachWorkspace('closing polls', processDuePolls).catch(error => logger.error('Error closing polls:', error));
+  }, POLL_CLOSE_INTERVAL_MS);
+  
+  // Load the anonymous rooms at startup
+  await forEachWorkspace('loading anonymous rooms', async client => {
+    const rooms = await workspace().roomDirectory.refresh(client);
+    if (rooms.length > 0) {
+      console.log(`✅ Anonymous rooms: ${formatRoomList(rooms)}`);
     } else {
       console.log(`⚠️ No channel found for anonymous messaging. Please add the bot to a channel.`);
     }
-  } catch (error) {
-    console.error(`❌ Error finding anonymous channel at startup:`, error);
-  }
-})();
\ No newline at end of file
+  });
+})();
@@ -0,0 +1,300 @@
+/**
+ * Attachment re-hosting
+ * Recipients usually can't open the sender's url_private links, so the bot downloads
+ * each attachment, strips identifying metadata and uploads a fresh copy itself.
+ */
+
+export interface AttachmentPolicy {
+  maxBytes: number;
+  allowedTypes: string[];
+}
+
+/**
+ * An attachment ready to be uploaded to recipients
+ */
+export interface PreparedAttachment {
+  data: Buffer;
+  filename: string;
+  mimetype: string;
+}
+
+// PDFs aren't included: their author fields and XMP can't be stripped here
+export const DEFAULT_ALLOWED_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  'text/plain'
+];
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'application/pdf': 'pdf',
+  'text/plain': 'txt'
+};
+
+/**
+ * Check a Slack file object against the policy
+ * @returns Why the file can't be sent, or null if it's fine
+ */
+export function checkAttachment(file: any, policy: AttachmentPolicy): string | null {
+  const mimetype = (file.mimetype || '').toLowerCase();
+  if (!policy.allowedTypes.includes(mimetype)) {
+    return `${file.pretty_type || mimetype || 'this file type'} isn't allowed`;
+  }
+  if (typeof file.size === 'number' && file.size > policy.maxBytes) {
+    return `larger than ${formatBytes(policy.maxBytes)}`;
+  }
+  return null;
+}
+
+/**
+ * Download a private Slack file with the bot's token
+ * Stops reading as soon as the file turns out to be larger than `maxBytes`.
+ */
+export async function downloadFile(url: string, token: string, maxBytes: number): Promise<Buffer> {
+  const response = await fetch(url, {
+    headers: { Authorization: `Bearer ${token}` }
+  });
+  if (!response.ok) {
+    throw new Error(`Download failed with HTTP ${response.status}`);
+  }
+  const tooLarge = new Error(`File is larger than ${formatBytes(maxBytes)}`);
+  if (Number(response.headers.get('content-length')) > maxBytes) {
+    await response.body?.cancel();
+    throw tooLarge;
+  }
+  if (!response.body) {
+    return Buffer.alloc(0);
+  }
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = response.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return Buffer.concat(chunks);
+    }
+    size += value.length;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw tooLarge;
+    }
+    chunks.push(value);
+  }
+}
+
+/**
+ * Generic filename for a re-hosted attachment, so the original name isn't leaked
+ */
+export function getAnonymousFilename(mimetype: string, index: number): string {
+  return `attachment-${index + 1}.${EXTENSIONS[mimetype] || 'bin'}`;
+}
+
+/**
+ * Remove identifying metadata (EXIF/GPS, XMP, IPTC, text chunks, comments) from an image
+ * Other file types, e.g. plain text, are returned unchanged.
+ */
+export function stripMetadata(data: Buffer, mimetype: string): Buffer {
+  switch (mimetype) {
+    case 'image/jpeg':
+      return stripJpegMetadata(data);
+    case 'image/png':
+      return stripPngMetadata(data);
+    case 'image/webp':
+      return stripWebpMetadata(data);
+    case 'image/gif':
+      return stripGifMetadata(data);
+    default:
+      return data;
+  }
+}
+
+/**
+ * Drop APP1 (EXIF/XMP), APP13 (IPTC) and comment segments from a JPEG
+ * Note that this also drops the EXIF orientation, so some photos may show rotated.
+ */
+function stripJpegMetadata(data: Buffer): Buffer {
+  if (data.length < 4 || data[0] !== 0xff || data[1] !== 0xd8) {
+    throw new Error('Not a valid JPEG file');
+  }
+
+  const parts: Buffer[] = [data.subarray(0, 2)];
+  let offset = 2;
+  while (offset + 4 <= data.length) {
+    if (data[offset] !== 0xff) {
+      throw new Error('Corrupt JPEG segment');
+    }
+    const marker = data[offset + 1];
+
+    // Start of scan - the rest is image data
+    if (marker === 0xda) {
+      parts.push(data.subarray(offset));
+      return Buffer.concat(parts);
+    }
+
+    const length = data.readUInt16BE(offset + 2);
+    const end = offset + 2 + length;
+    if (end > data.length) {
+      throw new Error('Corrupt JPEG segment');
+    }
+    if (marker !== 0xe1 && marker !== 0xed && marker !== 0xfe) {
+      parts.push(data.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  throw new Error('Corrupt JPEG file');
+}
+
+/**
+ * Drop text, EXIF and timestamp chunks from a PNG
+ */
+function stripPngMetadata(data: Buffer): Buffer {
+  const signature = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+  if (data.length < 8 || !data.subarray(0, 8).equals(signature)) {
+    throw new Error('Not a valid PNG file');
+  }
+
+  const dropped = ['tEXt', 'iTXt', 'zTXt', 'eXIf', 'tIME'];
+  const parts: Buffer[] = [signature];
+  let offset = 8;
+  while (offset + 12 <= data.length) {
+    const length = data.readUInt32BE(offset);
+    const type = data.toString('latin1', offset + 4, offset + 8);
+    const end = offset + 12 + length;
+    if (end > data.length) {
+      throw new Error('Corrupt PNG chunk');
+    }
+    if (!dropped.includes(type)) {
+      parts.push(data.subarray(offset, end));
+    }
+    offset = end;
+    if (type === 'IEND') {
+      break;
+    }
+  }
+  return Buffer.concat(parts);
+}
+
+/**
+ * Drop EXIF and XMP chunks from a WebP and clear their flags
+ */
+function stripWebpMetadata(data: Buffer): Buffer {
+  if (data.length < 12 || data.toString('latin1', 0, 4) !== 'RIFF' || data.toString('latin1', 8, 12) !== 'WEBP') {
+    throw new Error('Not a valid WebP file');
+  }
+
+  const parts: Buffer[] = [];
+  let offset = 12;
+  while (offset + 8 <= data.length) {
+    const type = data.toString('latin1', offset, offset + 4);
+    const size = data.readUInt32LE(offset + 4);
+    const end = offset + 8 + size + (size % 2);
+    if (offset + 8 + size > data.length) {
+      throw new Error('Corrupt WebP chunk');
+    }
+
+    if (type === 'VP8X') {
+      const chunk = Buffer.from(data.subarray(offset, Math.min(end, data.length)));
+      // Clear the EXIF (0x08) and XMP (0x04) flags
+      chunk[8] &= ~0x0c;
+      parts.push(chunk);
+    } else if (type !== 'EXIF' && type !== 'XMP ') {
+      parts.push(data.subarray(offset, Math.min(end, data.length)));
+    }
+    offset = end;
+  }
+
+  const body = Buffer.concat(parts);
+  const header = Buffer.alloc(12);
+  header.write('RIFF', 0, 'latin1');
+  header.writeUInt32LE(body.length + 4, 4);
+  header.write('WEBP', 8, 'latin1');
+  return Buffer.concat([header, body]);
+}
+
+/**
+ * Drop comment and application extensions (e.g. XMP) from a GIF
+ * The NETSCAPE2.0 extension only holds the loop count and is kept, so animations still loop.
+ */
+function stripGifMetadata(data: Buffer): Buffer {
+  const version = data.toString('latin1', 0, 6);
+  if (data.length < 13 || (version !== 'GIF87a' && version !== 'GIF89a')) {
+    throw new Error('Not a valid GIF file');
+  }
+
+  // Header, logical screen descriptor and global color table
+  let offset = 13 + getGifColorTableSize(data[10]);
+  const parts: Buffer[] = [data.subarray(0, offset)];
+  while (offset < data.length) {
+    const start = offset;
+    const introducer = data[offset];
+
+    // Trailer
+    if (introducer === 0x3b) {
+      parts.push(data.subarray(offset, offset + 1));
+      return Buffer.concat(parts);
+    }
+
+    if (introducer === 0x2c) {
+      // Image descriptor, local color table, LZW code size and image data
+      if (offset + 10 > data.length) {
+        throw new Error('Corrupt GIF image');
+      }
+      offset = skipGifSubBlocks(data, offset + 10 + getGifColorTableSize(data[offset + 9]) + 1);
+      parts.push(data.subarray(start, offset));
+    } else if (introducer === 0x21) {
+      const label = data[offset + 1];
+      const identifier = data.toString('latin1', offset + 3, offset + 14);
+      offset = skipGifSubBlocks(data, offset + 2);
+      const isLoopCount = label === 0xff && identifier === 'NETSCAPE2.0';
+      if (label !== 0xfe && (label !== 0xff || isLoopCount)) {
+        parts.push(data.subarray(start, offset));
+      }
+    } else {
+      throw new Error('Corrupt GIF block');
+    }
+  }
+
+  throw new Error('Corrupt GIF file');
+}
+
+/**
+ * Size in bytes of the color table a GIF descriptor's packed field announces
+ */
+function getGifColorTableSize(packed: number): number {
+  return packed & 0x80 ? 3 * 2 ** ((packed & 0x07) + 1) : 0;
+}
+
+/**
+ * Skip a chain of GIF data sub-blocks
+ * @returns The offset just past the terminating empty block
+ */
+function skipGifSubBlocks(data: Buffer, offset: number): number {
+  while (offset < data.length) {
+    const size = data[offset];
+    offset += 1 + size;
+    if (size === 0) {
+      return offset;
+    }
+  }
+  throw new Error('Corrupt GIF data');
+}
+
+/**
+ * Format a byte count like "10 MB"
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) {
+    return `${Math.round(bytes / (1024 * 1024))} MB`;
+  }
+  if (bytes >= 1024) {
+    return `${Math.round(bytes / 1024)} KB`;
+  }
+  return `${bytes} bytes`;
+}
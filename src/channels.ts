@@ -0,0 +1,156 @@
+/**
+ * Channel directory
+ * Resolves the ways people refer to channels ("#general", "general", "C123",
+ * or Slack's escaped "<#C123|general>") to channel IDs, with a cached listing.
+ */
+
+export interface ChannelInfo {
+  id: string;
+  name: string;
+  isPrivate: boolean;
+  isMember: boolean;
+}
+
+/**
+ * A parsed channel reference from user input
+ */
+export interface ChannelRef {
+  id?: string;
+  name?: string;
+}
+
+/**
+ * Parse a channel reference from command text
+ */
+export function parseChannelRef(value: string): ChannelRef | null {
+  const trimmed = value.trim();
+
+  const escaped = trimmed.match(/^<#([A-Z0-9]+)(?:\|([^>]*))?>$/);
+  if (escaped) {
+    return { id: escaped[1], name: escaped[2] || undefined };
+  }
+
+  if (/^[CG][A-Z0-9]{6,}$/.test(trimmed)) {
+    return { id: trimmed };
+  }
+
+  const name = trimmed.replace(/^#/, '').toLowerCase();
+  return /^[a-z0-9][a-z0-9_-]*$/.test(name) ? { name } : null;
+}
+
+/**
+ * Parse a Slack message permalink, e.g.
+ * https://team.slack.com/archives/C123ABC/p1707748394126200?thread_ts=1707748394.000100&cid=C123ABC
+ * @returns The channel, the message ts and the thread it belongs to (if it's a reply)
+ */
+export function parseMessagePermalink(value: string): { channel: string; ts: string; threadTs?: string } | null {
+  // Slack escapes links in command text as <url> or <url|label>
+  const url = value.trim().replace(/^<([^|>]+)(?:\|[^>]*)?>$/, '$1');
+  const match = url.match(/^https:\/\/[^/]+\/archives\/([A-Z0-9]+)\/p(\d{10})(\d{6})(?:\?(.*))?$/);
+  if (!match) {
+    return null;
+  }
+
+  const threadTs = new URLSearchParams(match[4] || '').get('thread_ts') || undefined;
+  return { channel: match[1], ts: `${match[2]}.${match[3]}`, threadTs };
+}
+
+export class ChannelDirectory {
+  private byId = new Map<string, ChannelInfo>();
+  private loadedAt = 0;
+  private loading: Promise<void> | null = null;
+
+  /**
+   * @param ttlMs How long the channel listing is trusted before it is loaded again
+   */
+  constructor(private readonly ttlMs: number) {}
+
+  /**
+   * Resolve a channel reference
+   * Falls back to asking Slack directly when the cached listing is stale or incomplete.
+   * @returns The channel, or null if the bot can't see it
+   */
+  async resolve(client: any, ref: ChannelRef): Promise<ChannelInfo | null> {
+    if (Date.now() - this.loadedAt > this.ttlMs) {
+      await this.load(client);
+    }
+
+    if (ref.id) {
+      const cached = this.byId.get(ref.id);
+      // Membership changes often, so double check before reporting the bot isn't in it
+      return cached && cached.isMember ? cached : this.fetch(client, ref.id);
+    }
+
+    const cached = this.findByName(ref.name!);
+    if (cached) {
+      return cached.isMember ? cached : this.fetch(client, cached.id);
+    }
+
+    // The channel may be new - reload once before giving up
+    await this.load(client);
+    return this.findByName(ref.name!);
+  }
+
+  private findByName(name: string): ChannelInfo | null {
+    for (const channel of this.byId.values()) {
+      if (channel.name.toLowerCase() === name.toLowerCase()) {
+        return channel;
+      }
+    }
+    return null;
+  }
+
+  private async fetch(client: any, channelId: string): Promise<ChannelInfo | null> {
+    try {
+      const response = await client.conversations.info({ channel: channelId });
+      if (!response.channel) {
+        return null;
+      }
+      const channel = toChannelInfo(response.channel);
+      this.byId.set(channel.id, channel);
+      return channel;
+    } catch {
+      // channel_not_found - private channels the bot isn't in are invisible to it
+      return null;
+    }
+  }
+
+  private load(client: any): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.list(client).finally(() => {
+        this.loading = null;
+      });
+    }
+    return this.loading;
+  }
+
+  private async list(client: any): Promise<void> {
+    const byId = new Map<string, ChannelInfo>();
+    let cursor: string | undefined;
+
+    do {
+      const response = await client.conversations.list({
+        types: 'public_channel,private_channel',
+        exclude_archived: true,
+        limit: 200, // Maximum allowed by Slack API
+        cursor
+      });
+      for (const channel of response.channels || []) {
+        byId.set(channel.id, toChannelInfo(channel));
+      }
+      cursor = response.response_metadata?.next_cursor;
+    } while (cursor);
+
+    this.byId = byId;
+    this.loadedAt = Date.now();
+  }
+}
+
+function toChannelInfo(channel: any): ChannelInfo {
+  return {
+    id: channel.id,
+    name: channel.name,
+    isPrivate: Boolean(channel.is_private),
+    isMember: Boolean(channel.is_member)
+  };
+}
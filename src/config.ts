@@ -0,0 +1,300 @@
+/**
+ * Configuration
+ * Read once at startup from an optional JSON file and from environment variables,
+ * which take precedence. Everything is checked up front, so a broken setup stops
+ * with a list of what's wrong instead of crashing later on.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import {
+  DEFAULT_RUNTIME_SETTINGS,
+  getEscrowAdmins,
+  ParseResult,
+  RuntimeSettings,
+  SETTING_DEFINITIONS,
+  SettingDefinition,
+  parseEnumValue,
+  parseListValue,
+  parseNumberValue
+} from './settings';
+
+export type LogLevelName = 'debug' | 'info' | 'warn' | 'error';
+
+export interface AppConfig {
+  dataDir: string;
+  logLevel: LogLevelName;
+  port: number;
+  slack: {
+    appToken: string;
+    signingSecret?: string;
+    // Either a bot token for one workspace, or OAuth credentials to serve several
+    botToken?: string;
+    clientId?: string;
+    clientSecret?: string;
+    stateSecret?: string;
+  };
+  conversationStore: 'file' | 'memory';
+  // Conversations stop taking replies after this many idle days, and are forgotten after the retention
+  conversationTtlDays: number;
+  conversationRetentionDays: number;
+  pseudonymSecret?: string;
+  rateLimit: {
+    duplicates: number;
+    duplicateCooldownSeconds: number;
+  };
+  delivery: {
+    concurrency: number;
+    maxRetries: number;
+    delayMinSeconds: number;
+    delayMaxSeconds: number;
+    // How long senders can take back a DM after it went out; 0 turns undo off
+    undoSeconds: number;
+  };
+  attachments: {
+    maxMb: number;
+    // Empty means the default types
+    types: string[];
+  };
+  // Channel names or IDs '/54y send' may post to; empty means any channel the bot is in
+  sendChannels: string[];
+  escrow: {
+    approvals: number;
+    retentionDays: number;
+  };
+  transcripts: {
+    // How long the content log of a conversation is kept for export; 0 turns the log off
+    retentionDays: number;
+  };
+  // Defaults for the settings admins can change at runtime
+  settings: RuntimeSettings;
+}
+
+/**
+ * Thrown when the configuration is invalid, with every problem found
+ */
+export class ConfigError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid configuration:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+const DEFAULT_CONFIG_FILE = '54y.config.json';
+
+/**
+ * Load and check the configuration
+ * @throws ConfigError listing every problem found
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): AppConfig {
+  const configFile = env.CONFIG_FILE || DEFAULT_CONFIG_FILE;
+  const reader = new ConfigReader(env, readConfigFile(configFile, Boolean(env.CONFIG_FILE)), configFile);
+
+  const settings: RuntimeSettings = { ...DEFAULT_RUNTIME_SETTINGS };
+  for (const definition of SETTING_DEFINITIONS) {
+    readSetting(reader, settings, definition);
+  }
+
+  const config: AppConfig = {
+    dataDir: reader.string('DATA_DIR', 'dataDir') || path.join(process.cwd(), 'data'),
+    logLevel: reader.read('LOG_LEVEL', 'logLevel', value => parseEnumValue<LogLevelName>(value, ['debug', 'info', 'warn', 'error']), 'info'),
+    port: reader.read('PORT', 'port', value => parseNumberValue(value, 1), 3000),
+    slack: {
+      appToken: reader.string('SLACK_APP_TOKEN', 'slack.appToken') || '',
+      signingSecret: reader.string('SLACK_SIGNING_SECRET', 'slack.signingSecret'),
+      botToken: reader.string('SLACK_BOT_TOKEN', 'slack.botToken'),
+      clientId: reader.string('SLACK_CLIENT_ID', 'slack.clientId'),
+      clientSecret: reader.string('SLACK_CLIENT_SECRET', 'slack.clientSecret'),
+      stateSecret: reader.string('SLACK_STATE_SECRET', 'slack.stateSecret')
+    },
+    conversationStore: reader.read('CONVERSATION_STORE', 'conversationStore', value => parseEnumValue(value, ['file', 'memory'] as const), 'file'),
+    conversationTtlDays: reader.read('CONVERSATION_TTL_DAYS', 'conversationTtlDays', value => parseNumberValue(value, 1), 14),
+    conversationRetentionDays: reader.read('CONVERSATION_RETENTION_DAYS', 'conversationRetentionDays', value => parseNumberValue(value, 1), 30),
+    pseudonymSecret: reader.string('PSEUDONYM_SECRET', 'pseudonymSecret'),
+    rateLimit: {
+      duplicates: reader.read('RATE_LIMIT_DUPLICATES', 'rateLimit.duplicates', value => parseNumberValue(value, 0), 2),
+      duplicateCooldownSeconds: reader.read('RATE_LIMIT_DUPLICATE_COOLDOWN_SECONDS', 'rateLimit.duplicateCooldownSeconds', value => parseNumberValue(value, 0), 300)
+    },
+    delivery: {
+      concurrency: reader.read('DELIVERY_CONCURRENCY', 'delivery.concurrency', value => parseNumberValue(value, 1), 8),
+      maxRetries: reader.read('DELIVERY_MAX_RETRIES', 'delivery.maxRetries', value => parseNumberValue(value, 0), 3),
+      delayMinSeconds: reader.read('DELIVERY_DELAY_MIN_SECONDS', 'delivery.delayMinSeconds', value => parseNumberValue(value, 0), 0),
+      delayMaxSeconds: reader.read('DELIVERY_DELAY_MAX_SECONDS', 'delivery.delayMaxSeconds', value => parseNumberValue(value, 0), 0),
+      undoSeconds: reader.read('DELIVERY_UNDO_SECONDS', 'delivery.undoSeconds', value => parseNumberValue(value, 0), 30)
+    },
+    attachments: {
+      maxMb: reader.read('ATTACHMENT_MAX_MB', 'attachments.maxMb', value => parseNumberValue(value, 1), 10),
+      types: reader.read('ATTACHMENT_TYPES', 'attachments.types', parseListValue, []).map(type => type.toLowerCase())
+    },
+    sendChannels: reader.read('SEND_CHANNELS', 'sendChannels', parseListValue, []),
+    escrow: {
+      approvals: reader.read('ESCROW_APPROVALS', 'escrow.approvals', value => parseNumberValue(value, 1), 2),
+      retentionDays: reader.read('ESCROW_RETENTION_DAYS', 'escrow.retentionDays', value => parseNumberValue(value, 1), 90)
+    },
+    transcripts: {
+      retentionDays: reader.read('TRANSCRIPT_RETENTION_DAYS', 'transcripts.retentionDays', value => parseNumberValue(value, 0), 90)
+    },
+    settings
+  };
+
+  // Checks that involve more than one value
+  const problems = reader.finish();
+  if (!config.slack.appToken) {
+    problems.push('SLACK_APP_TOKEN (slack.appToken) is required: generate an app-level token with the connections:write scope');
+  }
+  if (config.slack.clientId) {
+    if (!config.slack.clientSecret || !config.slack.stateSecret) {
+      problems.push('SLACK_CLIENT_SECRET and SLACK_STATE_SECRET are required when SLACK_CLIENT_ID is set');
+    }
+    // User IDs and the escrow key belong to one workspace, so each workspace sets its own with '/54y admin set'
+    const singleWorkspaceOnly: [string, boolean][] = [
+      ['ADMINS', config.settings.admins.length > 0],
+      ['MODERATION_ADMINS', config.settings.moderationAdmins.length > 0],
+      ['ESCROW_ADMINS', config.settings.escrowAdmins.length > 0],
+      ['ESCROW_PUBLIC_KEY', Boolean(config.settings.escrowKey)]
+    ];
+    const set = singleWorkspaceOnly.filter(([, isSet]) => isSet).map(([name]) => name);
+    if (set.length > 0) {
+      problems.push(`${set.join(', ')} can only be used with SLACK_BOT_TOKEN, since they belong to a single workspace; each workspace sets its own with '/54y admin set'`);
+    }
+  } else if (!config.slack.botToken) {
+    problems.push('Set SLACK_BOT_TOKEN to run in one workspace, or SLACK_CLIENT_ID, SLACK_CLIENT_SECRET and SLACK_STATE_SECRET to let workspaces install the app');
+  }
+  if (config.delivery.delayMinSeconds > config.delivery.delayMaxSeconds) {
+    problems.push('DELIVERY_DELAY_MIN_SECONDS must not be larger than DELIVERY_DELAY_MAX_SECONDS');
+  }
+  if (config.conversationTtlDays > config.conversationRetentionDays) {
+    problems.push('CONVERSATION_TTL_DAYS must not be larger than CONVERSATION_RETENTION_DAYS');
+  }
+  if (config.settings.links === 'allowlist' && config.settings.allowedDomains.length === 0) {
+    problems.push('MODERATION_ALLOWED_DOMAINS must list at least one domain when MODERATION_LINKS is allowlist');
+  }
+  // The admin who requests a reveal can't approve it
+  const escrowAdmins = getEscrowAdmins(config.settings);
+  if (config.settings.escrowKey && escrowAdmins.length <= config.escrow.approvals) {
+    problems.push(`ESCROW_ADMINS lists ${escrowAdmins.length} admins, but ESCROW_APPROVALS needs ${config.escrow.approvals} besides the one requesting a reveal`);
+  }
+
+  if (problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+  return config;
+}
+
+/**
+ * Read a setting's default from the environment or config file
+ */
+function readSetting<K extends keyof RuntimeSettings>(reader: ConfigReader, settings: RuntimeSettings, definition: SettingDefinition<K>): void {
+  settings[definition.key] = reader.read(definition.env, definition.path, definition.parse, DEFAULT_RUNTIME_SETTINGS[definition.key]);
+}
+
+/**
+ * Read the JSON config file; it is optional unless it was named explicitly
+ */
+function readConfigFile(filePath: string, required: boolean): Record<string, unknown> {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(filePath, 'utf8');
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT' && !required) {
+      return {};
+    }
+    throw new ConfigError([`Can't read the config file ${filePath}: ${describeError(error)}`]);
+  }
+
+  try {
+    const data = JSON.parse(raw);
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      throw new Error('expected an object');
+    }
+    return data;
+  } catch (error: unknown) {
+    throw new ConfigError([`The config file ${filePath} is not valid JSON: ${describeError(error)}`]);
+  }
+}
+
+/**
+ * Looks values up in the environment, then in the config file, and collects problems
+ */
+class ConfigReader {
+  private readonly problems: string[] = [];
+  private readonly used = new Set<string>();
+
+  constructor(
+    private readonly env: NodeJS.ProcessEnv,
+    private readonly file: Record<string, unknown>,
+    private readonly fileName: string
+  ) {}
+
+  /**
+   * Read and parse a value, or fall back to a default if it isn't set
+   */
+  read<T>(envName: string, keyPath: string, parse: (value: unknown) => ParseResult<T>, fallback: T): T {
+    const value = this.lookup(envName, keyPath);
+    if (value === undefined) {
+      return fallback;
+    }
+    const result = parse(value);
+    if ('error' in result) {
+      this.problems.push(`${envName} (${keyPath}) ${result.error}, got ${JSON.stringify(value)}`);
+      return fallback;
+    }
+    return result.value;
+  }
+
+  /**
+   * Read a text value such as a token
+   */
+  string(envName: string, keyPath: string): string | undefined {
+    const value = this.lookup(envName, keyPath);
+    if (value === undefined) {
+      return undefined;
+    }
+    if (typeof value !== 'string') {
+      this.problems.push(`${keyPath} in ${this.fileName} must be text`);
+      return undefined;
+    }
+    return value.trim() || undefined;
+  }
+
+  /**
+   * Report keys in the config file that no setting reads, which are usually typos
+   * @returns Every problem found
+   */
+  finish(): string[] {
+    for (const keyPath of listKeyPaths(this.file)) {
+      if (!this.used.has(keyPath)) {
+        this.problems.push(`Unknown setting ${keyPath} in ${this.fileName}`);
+      }
+    }
+    return this.problems;
+  }
+
+  private lookup(envName: string, keyPath: string): unknown {
+    this.used.add(keyPath);
+    const fromEnv = this.env[envName];
+    if (fromEnv !== undefined && fromEnv.trim() !== '') {
+      return fromEnv;
+    }
+    let value: unknown = this.file;
+    for (const key of keyPath.split('.')) {
+      value = value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>)[key] : undefined;
+    }
+    return value === null ? undefined : value;
+  }
+}
+
+/**
+ * List the dotted paths of all values in an object; arrays count as values
+ */
+function listKeyPaths(value: Record<string, unknown>, prefix: string = ''): string[] {
+  return Object.entries(value).flatMap(([key, child]) =>
+    child && typeof child === 'object' && !Array.isArray(child)
+      ? listKeyPaths(child as Record<string, unknown>, `${prefix}${key}.`)
+      : [`${prefix}${key}`]
+  );
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
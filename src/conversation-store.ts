@@ -0,0 +1,442 @@
+/**
+ * Conversation storage
+ * Keeps track of which DM thread each user sees for a given anonymous conversation,
+ * so replies can be routed back into the right thread for every recipient.
+ */
+
+import { JsonFile } from './persistence';
+
+// Map of user IDs to the timestamp of their DM thread for one conversation
+// Whoever started the conversation is stored under a keyed hash instead of their user ID.
+export interface ThreadMap extends Map<string, string> {}
+
+// Every key a member's thread may be stored under in a conversation
+export type ThreadKeys = (conversationId: string) => string[];
+
+/**
+ * A copy of a relayed message as delivered to one recipient
+ */
+export interface MessageCopy {
+  userId: string;
+  channel: string;
+  ts: string;
+  // Attachments re-uploaded alongside the copy
+  fileIds?: string[];
+}
+
+/**
+ * A sender's original DM and the copies it was relayed as
+ */
+export interface RelayedMessage {
+  isThreadReply: boolean;
+  // Text/blocks the copies were posted with
+  content: { text: string; blocks?: any[] };
+  copies: MessageCopy[];
+  // Emoji name -> users who reacted with it on any copy
+  reactions?: Record<string, string[]>;
+  // Entry in the conversation's transcript, if the content log is on
+  transcriptId?: string;
+  // Items held in digests of members in quiet hours
+  digestId?: string;
+}
+
+/**
+ * A relayed message together with where it is stored
+ */
+export interface RelayedMessageRef {
+  conversationId: string;
+  sourceKey: string;
+  message: RelayedMessage;
+}
+
+/**
+ * Whether a conversation takes replies: locked ones were closed by an admin, and
+ * expired ones were idle for too long and no longer keep their messages
+ */
+export type ConversationState = 'open' | 'locked' | 'expired';
+
+/**
+ * Stored state for a single conversation
+ */
+export interface ConversationRecord {
+  threads: Record<string, string>;
+  // Channel ID of the room the conversation was started in
+  roomId?: string;
+  // Pseudonym key -> name, and the key of the original poster
+  pseudonyms?: Record<string, string>;
+  opKey?: string;
+  // Relayed messages keyed by a keyed hash of the source DM
+  messages?: Record<string, RelayedMessage>;
+  // Missing means open
+  state?: ConversationState;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * A conversation as seen by one participant
+ */
+export interface ConversationSummary {
+  conversationId: string;
+  // Key the participant's thread is stored under, and the thread
+  key: string;
+  threadTs: string;
+  roomId?: string;
+  // Content of the conversation's first relayed message, if it is still known
+  root?: { text: string };
+  replyCount: number;
+  state: ConversationState;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Storage backend for conversation ID -> (user ID -> DM thread ts)
+ */
+export interface ConversationStore {
+  /** Get the thread map of a conversation, or undefined if it isn't known */
+  getThreadMap(conversationId: string): Promise<ThreadMap | undefined>;
+  /** Record the DM thread a user, or the key standing in for them, sees for a conversation */
+  setThreadTs(conversationId: string, key: string, threadTs: string): Promise<void>;
+  /** Find the conversation a member's DM thread belongs to */
+  findConversationId(threadTs: string, getKeys: ThreadKeys): Promise<string | null>;
+  /** Get the room a conversation was started in */
+  getRoomId(conversationId: string): Promise<string | null>;
+  /** Record the room a conversation was started in */
+  setRoomId(conversationId: string, roomId: string): Promise<void>;
+  /** Get the pseudonyms assigned in a conversation */
+  getPseudonyms(conversationId: string): Promise<{ names: Record<string, string>; opKey?: string }>;
+  /** Assign a pseudonym to a participant, optionally marking them as the original poster */
+  setPseudonym(conversationId: string, key: string, name: string, isOriginalPoster: boolean): Promise<void>;
+  /** Record the copies a sender's DM was relayed as */
+  recordRelayedMessage(conversationId: string, sourceKey: string, message: RelayedMessage): Promise<void>;
+  /** Find a relayed message by its source DM */
+  getRelayedMessage(sourceKey: string): Promise<RelayedMessageRef | null>;
+  /** Find a relayed message by one of its delivered copies */
+  findRelayedMessageByCopy(channel: string, ts: string): Promise<RelayedMessageRef | null>;
+  /** Forget a relayed message, e.g. after it was deleted */
+  removeRelayedMessage(sourceKey: string): Promise<void>;
+  /** List the conversations a member has a DM thread in, most recently active first */
+  listConversationsForUser(getKeys: ThreadKeys, limit: number): Promise<ConversationSummary[]>;
+  /** Get whether a conversation takes replies, or null if it isn't known */
+  getState(conversationId: string): Promise<ConversationState | null>;
+  /** Lock or reopen a conversation; expired conversations stay expired */
+  setState(conversationId: string, state: 'open' | 'locked'): Promise<boolean>;
+  /** List the IDs of all known conversations */
+  listConversationIds(): Promise<string[]>;
+  /** Expire conversations that have been idle for longer than maxIdleMs, dropping their messages */
+  expireIdle(maxIdleMs: number): Promise<number>;
+  /** Remove conversations that have been idle for longer than maxIdleMs */
+  pruneIdle(maxIdleMs: number): Promise<number>;
+  /** Finish pending writes and stop persisting, e.g. before the data is deleted */
+  drain(): Promise<void>;
+}
+
+/**
+ * In-memory backend - state is lost when the process exits
+ */
+export class MemoryConversationStore implements ConversationStore {
+  protected conversations = new Map<string, ConversationRecord>();
+  // Reverse index of thread timestamps to the conversations with a thread at that time
+  protected threadIndex = new Map<string, Set<string>>();
+  // Reverse index of relayed message source keys to conversation ID
+  protected messageIndex = new Map<string, string>();
+  // Reverse index of "channel:ts" of delivered copies to source keys
+  protected copyIndex = new Map<string, string>();
+
+  async getThreadMap(conversationId: string): Promise<ThreadMap | undefined> {
+    await this.ready();
+    const record = this.conversations.get(conversationId);
+    return record ? new Map(Object.entries(record.threads)) : undefined;
+  }
+
+  async setThreadTs(conversationId: string, key: string, threadTs: string): Promise<void> {
+    await this.ready();
+    const record = this.touch(conversationId);
+    const previousTs = record.threads[key];
+    record.threads[key] = threadTs;
+    if (previousTs && !Object.values(record.threads).includes(previousTs)) {
+      this.unindexThread(conversationId, previousTs);
+    }
+    this.indexThread(conversationId, threadTs);
+
+    await this.changed();
+  }
+
+  async findConversationId(threadTs: string, getKeys: ThreadKeys): Promise<string | null> {
+    await this.ready();
+    for (const conversationId of this.threadIndex.get(threadTs) || []) {
+      const threads = this.conversations.get(conversationId)?.threads || {};
+      if (getKeys(conversationId).some(key => threads[key] === threadTs)) {
+        return conversationId;
+      }
+    }
+    return null;
+  }
+
+  async getRoomId(conversationId: string): Promise<string | null> {
+    await this.ready();
+    return this.conversations.get(conversationId)?.roomId || null;
+  }
+
+  async setRoomId(conversationId: string, roomId: string): Promise<void> {
+    await this.ready();
+    this.touch(conversationId).roomId = roomId;
+    await this.changed();
+  }
+
+  async getPseudonyms(conversationId: string): Promise<{ names: Record<string, string>; opKey?: string }> {
+    await this.ready();
+    const record = this.conversations.get(conversationId);
+    return { names: { ...record?.pseudonyms }, opKey: record?.opKey };
+  }
+
+  async setPseudonym(conversationId: string, key: string, name: string, isOriginalPoster: boolean): Promise<void> {
+    await this.ready();
+    const record = this.touch(conversationId);
+    record.pseudonyms = { ...record.pseudonyms, [key]: name };
+    if (isOriginalPoster) {
+      record.opKey = key;
+    }
+    await this.changed();
+  }
+
+  async recordRelayedMessage(conversationId: string, sourceKey: string, message: RelayedMessage): Promise<void> {
+    await this.ready();
+    const record = this.touch(conversationId);
+    record.messages = record.messages || {};
+    record.messages[sourceKey] = message;
+    this.indexMessage(conversationId, sourceKey, message);
+
+    await this.changed();
+  }
+
+  async getRelayedMessage(sourceKey: string): Promise<RelayedMessageRef | null> {
+    await this.ready();
+    return this.lookupMessage(sourceKey);
+  }
+
+  async findRelayedMessageByCopy(channel: string, ts: string): Promise<RelayedMessageRef | null> {
+    await this.ready();
+    const sourceKey = this.copyIndex.get(copyKey(channel, ts));
+    return sourceKey ? this.lookupMessage(sourceKey) : null;
+  }
+
+  async removeRelayedMessage(sourceKey: string): Promise<void> {
+    await this.ready();
+    const ref = this.lookupMessage(sourceKey);
+    if (!ref) {
+      return;
+    }
+    this.unindexMessage(sourceKey, ref.message);
+    delete this.conversations.get(ref.conversationId)!.messages![sourceKey];
+    await this.changed();
+  }
+
+  async listConversationsForUser(getKeys: ThreadKeys, limit: number): Promise<ConversationSummary[]> {
+    await this.ready();
+    const summaries: ConversationSummary[] = [];
+    for (const [conversationId, record] of this.conversations) {
+      const key = getKeys(conversationId).find(candidate => record.threads[candidate]);
+      if (!key) {
+        continue;
+      }
+      const messages = Object.values(record.messages || {});
+      const root = messages.find(message => !message.isThreadReply);
+      summaries.push({
+        conversationId,
+        key,
+        threadTs: record.threads[key],
+        roomId: record.roomId,
+        root: root ? { text: root.content.text } : undefined,
+        replyCount: messages.filter(message => message.isThreadReply).length,
+        state: record.state || 'open',
+        createdAt: record.createdAt,
+        updatedAt: record.updatedAt
+      });
+    }
+    return summaries
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .slice(0, limit);
+  }
+
+  async getState(conversationId: string): Promise<ConversationState | null> {
+    await this.ready();
+    const record = this.conversations.get(conversationId);
+    return record ? record.state || 'open' : null;
+  }
+
+  async setState(conversationId: string, state: 'open' | 'locked'): Promise<boolean> {
+    await this.ready();
+    const record = this.conversations.get(conversationId);
+    if (!record || record.state === 'expired') {
+      return false;
+    }
+    // Locking isn't activity, so it doesn't postpone expiry
+    if (state === 'open') {
+      delete record.state;
+    } else {
+      record.state = state;
+    }
+    await this.changed();
+    return true;
+  }
+
+  async listConversationIds(): Promise<string[]> {
+    await this.ready();
+    return [...this.conversations.keys()];
+  }
+
+  async expireIdle(maxIdleMs: number): Promise<number> {
+    await this.ready();
+    const cutoff = Date.now() - maxIdleMs;
+    let expired = 0;
+    for (const record of this.conversations.values()) {
+      if (record.state !== 'expired' && record.updatedAt < cutoff) {
+        // Threads are kept so late replies can be recognized until the record is pruned
+        for (const [sourceKey, message] of Object.entries(record.messages || {})) {
+          this.unindexMessage(sourceKey, message);
+        }
+        delete record.messages;
+        delete record.pseudonyms;
+        delete record.opKey;
+        record.state = 'expired';
+        expired++;
+      }
+    }
+
+    if (expired > 0) {
+      await this.changed();
+    }
+    return expired;
+  }
+
+  async pruneIdle(maxIdleMs: number): Promise<number> {
+    await this.ready();
+    const cutoff = Date.now() - maxIdleMs;
+    let removed = 0;
+    for (const [conversationId, record] of this.conversations) {
+      if (record.updatedAt < cutoff) {
+        for (const ts of Object.values(record.threads)) {
+          this.unindexThread(conversationId, ts);
+        }
+        for (const [sourceKey, message] of Object.entries(record.messages || {})) {
+          this.unindexMessage(sourceKey, message);
+        }
+        this.conversations.delete(conversationId);
+        removed++;
+      }
+    }
+
+    if (removed > 0) {
+      await this.changed();
+    }
+    return removed;
+  }
+
+  async drain(): Promise<void> {}
+
+  /**
+   * Hook awaited before every operation, e.g. to load persisted state
+   */
+  protected async ready(): Promise<void> {}
+
+  /**
+   * Hook called after every mutation
+   */
+  protected async changed(): Promise<void> {}
+
+  /**
+   * Get or create a conversation record and mark it as active
+   */
+  protected touch(conversationId: string): ConversationRecord {
+    const now = Date.now();
+    let record = this.conversations.get(conversationId);
+    if (!record) {
+      record = { threads: {}, createdAt: now, updatedAt: now };
+      this.conversations.set(conversationId, record);
+    }
+    record.updatedAt = now;
+    return record;
+  }
+
+  protected rebuildIndex() {
+    this.threadIndex.clear();
+    this.messageIndex.clear();
+    this.copyIndex.clear();
+    for (const [conversationId, record] of this.conversations) {
+      for (const ts of Object.values(record.threads)) {
+        this.indexThread(conversationId, ts);
+      }
+      for (const [sourceKey, message] of Object.entries(record.messages || {})) {
+        this.indexMessage(conversationId, sourceKey, message);
+      }
+    }
+  }
+
+  private lookupMessage(sourceKey: string): RelayedMessageRef | null {
+    const conversationId = this.messageIndex.get(sourceKey);
+    const message = conversationId ? this.conversations.get(conversationId)?.messages?.[sourceKey] : undefined;
+    return conversationId && message ? { conversationId, sourceKey, message } : null;
+  }
+
+  private indexThread(conversationId: string, threadTs: string) {
+    const conversationIds = this.threadIndex.get(threadTs) || new Set<string>();
+    conversationIds.add(conversationId);
+    this.threadIndex.set(threadTs, conversationIds);
+  }
+
+  private unindexThread(conversationId: string, threadTs: string) {
+    const conversationIds = this.threadIndex.get(threadTs);
+    conversationIds?.delete(conversationId);
+    if (conversationIds?.size === 0) {
+      this.threadIndex.delete(threadTs);
+    }
+  }
+
+  private indexMessage(conversationId: string, sourceKey: string, message: RelayedMessage) {
+    this.messageIndex.set(sourceKey, conversationId);
+    for (const copy of message.copies) {
+      this.copyIndex.set(copyKey(copy.channel, copy.ts), sourceKey);
+    }
+  }
+
+  private unindexMessage(sourceKey: string, message: RelayedMessage) {
+    this.messageIndex.delete(sourceKey);
+    for (const copy of message.copies) {
+      this.copyIndex.delete(copyKey(copy.channel, copy.ts));
+    }
+  }
+}
+
+/**
+ * JSON file backend - every change is written through to disk,
+ * so mappings survive restarts and crashes
+ */
+export class FileConversationStore extends MemoryConversationStore {
+  private readonly file: JsonFile<Record<string, ConversationRecord>>;
+
+  constructor(filePath: string) {
+    super();
+    this.file = new JsonFile<Record<string, ConversationRecord>>(filePath, {}, data => {
+      this.conversations = new Map(Object.entries(data));
+      this.rebuildIndex();
+    }, () => Object.fromEntries(this.conversations));
+  }
+
+  protected changed(): Promise<void> {
+    return this.file.flush();
+  }
+
+  drain(): Promise<void> {
+    return this.file.drain();
+  }
+
+  protected ready(): Promise<void> {
+    return this.file.load();
+  }
+}
+
+function copyKey(channel: string, ts: string): string {
+  return `${channel}:${ts}`;
+}
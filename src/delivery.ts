@@ -0,0 +1,189 @@
+/**
+ * Delivery engine for fanning messages out to many recipients
+ * Runs deliveries with bounded concurrency, waits out rate limits (honouring
+ * Retry-After), retries transient errors, and reports what happened per recipient.
+ */
+
+import { webApi } from '@slack/bolt';
+import { Logger } from '@slack/logger';
+
+export interface DeliveryOptions {
+  concurrency: number;
+  maxRetries: number;
+  // Base delay for exponential backoff of transient errors
+  retryDelayMs: number;
+  // How long to trust a cached "is this user a bot" answer
+  userCacheTtlMs: number;
+}
+
+export type DeliveryStatus = 'delivered' | 'bot' | 'failed';
+
+export interface DeliveryResult {
+  userId: string;
+  status: DeliveryStatus;
+  channel?: string;
+  ts?: string;
+  error?: string;
+  attempts: number;
+}
+
+export interface DeliveryReport {
+  results: DeliveryResult[];
+  delivered: number;
+  failed: number;
+  bots: number;
+  // Recipients that aren't bots
+  eligible: number;
+}
+
+// Slack platform errors worth retrying
+const TRANSIENT_ERRORS = ['ratelimited', 'internal_error', 'fatal_error', 'service_unavailable', 'request_timeout'];
+
+/**
+ * Delivers to a single recipient's DM channel
+ * @returns The timestamp of the posted message
+ */
+export type DeliverFn = (userId: string, dmChannel: string) => Promise<string>;
+
+export class DeliveryEngine {
+  private botCache = new Map<string, { isBot: boolean; checkedAt: number }>();
+  private dmChannelCache = new Map<string, string>();
+
+  constructor(private readonly logger: Logger, private readonly options: DeliveryOptions) {}
+
+  /**
+   * Deliver to every recipient, skipping bots
+   */
+  async deliver(client: any, recipients: string[], deliverFn: DeliverFn): Promise<DeliveryReport> {
+    const results: DeliveryResult[] = new Array(recipients.length);
+    let next = 0;
+
+    const worker = async () => {
+      while (next < recipients.length) {
+        const index = next++;
+        results[index] = await this.deliverOne(client, recipients[index], deliverFn);
+      }
+    };
+
+    const workers = Math.max(1, Math.min(this.options.concurrency, recipients.length));
+    await Promise.all(Array.from({ length: workers }, worker));
+
+    return summarize(results);
+  }
+
+  /**
+   * Run a Slack API call, retrying rate limits and transient errors
+   */
+  async withRetry<T>(call: () => Promise<T>, onAttempt?: () => void): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      onAttempt?.();
+      try {
+        return await call();
+      } catch (error) {
+        const delayMs = this.getRetryDelay(error, attempt);
+        if (delayMs === null || attempt >= this.options.maxRetries) {
+          throw error;
+        }
+        this.logger.warn(`Slack API call failed (${describeError(error)}), retrying in ${delayMs}ms`);
+        await sleep(delayMs);
+      }
+    }
+  }
+
+  /**
+   * Check whether a user is a bot, using a cached answer when possible
+   */
+  async isBot(client: any, userId: string): Promise<boolean> {
+    const cached = this.botCache.get(userId);
+    if (cached && Date.now() - cached.checkedAt < this.options.userCacheTtlMs) {
+      return cached.isBot;
+    }
+
+    const response = await this.withRetry<webApi.UsersInfoResponse>(() => client.users.info({ user: userId }));
+    const isBot = Boolean(response.user?.is_bot);
+    this.botCache.set(userId, { isBot, checkedAt: Date.now() });
+    return isBot;
+  }
+
+  /**
+   * Get the DM channel with a user, opening it if needed
+   */
+  async openDm(client: any, userId: string): Promise<string | null> {
+    const cached = this.dmChannelCache.get(userId);
+    if (cached) {
+      return cached;
+    }
+
+    const response = await this.withRetry<webApi.ConversationsOpenResponse>(() => client.conversations.open({ users: userId }));
+    const channelId = response.channel?.id;
+    if (channelId) {
+      this.dmChannelCache.set(userId, channelId);
+    }
+    return channelId || null;
+  }
+
+  private async deliverOne(client: any, userId: string, deliverFn: DeliverFn): Promise<DeliveryResult> {
+    let attempts = 0;
+    try {
+      // Skip bots to avoid "cannot_dm_bot" error
+      if (await this.isBot(client, userId)) {
+        return { userId, status: 'bot', attempts };
+      }
+
+      const channel = await this.openDm(client, userId);
+      if (!channel) {
+        return { userId, status: 'failed', error: 'no_dm_channel', attempts };
+      }
+
+      const ts = await this.withRetry(() => deliverFn(userId, channel), () => attempts++);
+      return { userId, status: 'delivered', channel, ts, attempts };
+    } catch (error) {
+      if (describeError(error) === 'channel_not_found') {
+        // The cached DM channel may be stale
+        this.dmChannelCache.delete(userId);
+      }
+      this.logger.error(`Failed to DM user ${userId}:`, error);
+      return { userId, status: 'failed', error: describeError(error), attempts };
+    }
+  }
+
+  /**
+   * How long to wait before retrying, or null if the error isn't retryable
+   */
+  private getRetryDelay(error: any, attempt: number): number | null {
+    if (!isRetryableError(error)) {
+      return null;
+    }
+
+    // Retry-After is given in seconds
+    if (error.code === 'slack_webapi_rate_limited_error' && typeof error.retryAfter === 'number') {
+      return error.retryAfter * 1000;
+    }
+    return this.options.retryDelayMs * 2 ** attempt;
+  }
+}
+
+/**
+ * Whether an error from the Slack API is worth retrying
+ */
+export function isRetryableError(error: any): boolean {
+  return error?.code === 'slack_webapi_rate_limited_error'
+    || (error?.code === 'slack_webapi_platform_error' && TRANSIENT_ERRORS.includes(error.data?.error))
+    || error?.code === 'slack_webapi_request_error'
+    || (error?.code === 'slack_webapi_http_error' && error.statusCode >= 500);
+}
+
+function summarize(results: DeliveryResult[]): DeliveryReport {
+  const delivered = results.filter(result => result.status === 'delivered').length;
+  const failed = results.filter(result => result.status === 'failed').length;
+  const bots = results.filter(result => result.status === 'bot').length;
+  return { results, delivered, failed, bots, eligible: delivered + failed };
+}
+
+function describeError(error: any): string {
+  return error?.data?.error || error?.code || (error instanceof Error ? error.message : String(error));
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,22 @@
+/**
+ * Generate a sender escrow key
+ * Prints the public key for ESCROW_PUBLIC_KEY and one private key share per admin.
+ * Usage: npm run escrow-keygen -- <shares> <threshold>
+ */
+
+import { generateEscrowKey } from './escrow';
+
+const shareCount = Number(process.argv[2] || 3);
+const threshold = Number(process.argv[3] || 2);
+
+try {
+  const { publicKey, shares } = generateEscrowKey(shareCount, threshold);
+  console.log(`ESCROW_PUBLIC_KEY=${publicKey}`);
+  console.log('');
+  console.log(`Give one share to each admin (any ${threshold} of ${shareCount} can reveal a sender).`);
+  console.log('Keep them somewhere safe - they are not stored anywhere else.');
+  shares.forEach((share, index) => console.log(`Share ${index + 1}: ${share}`));
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
@@ -0,0 +1,332 @@
+/**
+ * Sender escrow
+ * When enabled, the sender of each anonymous message is sealed with an escrow public
+ * key (X25519 + AES-256-GCM). The bot never holds the private key: it is split into
+ * k-of-n shares (Shamir's secret sharing over GF(256)) handed out to admins, and only
+ * rebuilt in memory when enough of them submit their shares for a reveal.
+ */
+
+import crypto from 'crypto';
+import { JsonFile } from './persistence';
+
+/**
+ * A sender sealed with the escrow public key
+ */
+export interface SealedSender {
+  // Ephemeral public key (SPKI DER), IV, auth tag and ciphertext, all base64
+  epk: string;
+  iv: string;
+  tag: string;
+  data: string;
+  sealedAt: number;
+}
+
+/**
+ * What is sealed for each message
+ */
+export interface EscrowPayload {
+  userId: string;
+  // Start of the message, so a reveal shows which message was whose
+  excerpt: string;
+}
+
+/**
+ * The sealed senders of one conversation or channel message
+ */
+export interface EscrowRecord {
+  // Channel a reveal is announced in
+  channelId: string;
+  senders: SealedSender[];
+}
+
+/**
+ * A reveal waiting for admins to approve it
+ * Shares only ever live in memory, and are dropped with the request.
+ */
+export interface RevealRequest {
+  id: string;
+  target: string;
+  reason: string;
+  requestedBy: string;
+  approvedBy: string[];
+  // Key shares by the admin who added them, one each
+  shares: Record<string, EscrowShare>;
+  // Prompts sent to admins, updated when the request is settled
+  prompts: { channel: string; ts: string }[];
+  createdAt: number;
+}
+
+export interface RevealLogEntry {
+  target: string;
+  reason: string;
+  requestedBy: string;
+  approvedBy: string[];
+  revealedAt: number;
+}
+
+/**
+ * A decoded key share
+ */
+export interface EscrowShare {
+  fingerprint: string;
+  threshold: number;
+  x: number;
+  data: Buffer;
+}
+
+const SHARE_PREFIX = '54y-escrow';
+const HKDF_INFO = Buffer.from('54y sender escrow');
+
+/**
+ * Generate an escrow key pair and split the private key into shares
+ * @returns The public key to configure and one share per admin
+ */
+export function generateEscrowKey(shareCount: number, threshold: number): { publicKey: string; shares: string[] } {
+  if (threshold < 1 || threshold > shareCount || shareCount > 255) {
+    throw new Error('The threshold must be between 1 and the number of shares (at most 255)');
+  }
+
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('x25519');
+  const fingerprint = getKeyFingerprint(publicKey);
+  const secret = privateKey.export({ format: 'der', type: 'pkcs8' });
+  const shares = splitSecret(secret, shareCount, threshold)
+    .map(share => `${SHARE_PREFIX}:${fingerprint}:${threshold}:${share.x}:${share.data.toString('hex')}`);
+
+  return {
+    publicKey: publicKey.export({ format: 'der', type: 'spki' }).toString('base64'),
+    shares
+  };
+}
+
+/**
+ * Load the escrow public key from its base64 form
+ */
+export function loadEscrowPublicKey(value: string): crypto.KeyObject {
+  const key = crypto.createPublicKey({ key: Buffer.from(value.trim(), 'base64'), format: 'der', type: 'spki' });
+  if (key.asymmetricKeyType !== 'x25519') {
+    throw new Error('The escrow public key must be an X25519 key');
+  }
+  return key;
+}
+
+/**
+ * Short fingerprint of the escrow public key, used to check shares belong to it
+ */
+export function getKeyFingerprint(publicKey: crypto.KeyObject): string {
+  return crypto.createHash('sha256').update(publicKey.export({ format: 'der', type: 'spki' })).digest('hex').slice(0, 16);
+}
+
+/**
+ * Seal a sender so only the escrow private key can open it
+ */
+export function sealSender(publicKey: crypto.KeyObject, payload: EscrowPayload): SealedSender {
+  const ephemeral = crypto.generateKeyPairSync('x25519');
+  const key = deriveKey(crypto.diffieHellman({ privateKey: ephemeral.privateKey, publicKey }));
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(payload), 'utf8'), cipher.final()]);
+
+  return {
+    epk: ephemeral.publicKey.export({ format: 'der', type: 'spki' }).toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+    sealedAt: Date.now()
+  };
+}
+
+/**
+ * Open a sealed sender with the rebuilt private key
+ */
+export function openSealedSender(privateKey: crypto.KeyObject, sealed: SealedSender): EscrowPayload {
+  const publicKey = crypto.createPublicKey({ key: Buffer.from(sealed.epk, 'base64'), format: 'der', type: 'spki' });
+  const key = deriveKey(crypto.diffieHellman({ privateKey, publicKey }));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(sealed.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(sealed.tag, 'base64'));
+  const data = Buffer.concat([decipher.update(Buffer.from(sealed.data, 'base64')), decipher.final()]);
+  return JSON.parse(data.toString('utf8')) as EscrowPayload;
+}
+
+/**
+ * Decode a share as pasted by an admin
+ * @returns The share, or null if it isn't one
+ */
+export function parseShare(value: string): EscrowShare | null {
+  const match = value.trim().match(/^54y-escrow:([a-f0-9]{16}):(\d+):(\d+):([a-f0-9]+)$/);
+  if (!match) {
+    return null;
+  }
+  const x = Number(match[3]);
+  if (x < 1 || x > 255) {
+    return null;
+  }
+  return { fingerprint: match[1], threshold: Number(match[2]), x, data: Buffer.from(match[4], 'hex') };
+}
+
+/**
+ * Rebuild the escrow private key from enough shares
+ * @throws If the shares don't rebuild the key matching the configured public key
+ */
+export function recoverPrivateKey(shares: EscrowShare[], publicKey: crypto.KeyObject): crypto.KeyObject {
+  const secret = combineShares(shares);
+  let privateKey: crypto.KeyObject;
+  try {
+    privateKey = crypto.createPrivateKey({ key: secret, format: 'der', type: 'pkcs8' });
+  } catch {
+    throw new Error('The shares do not rebuild a valid key');
+  }
+  if (getKeyFingerprint(crypto.createPublicKey(privateKey)) !== getKeyFingerprint(publicKey)) {
+    throw new Error('The shares do not match the escrow public key');
+  }
+  return privateKey;
+}
+
+function deriveKey(sharedSecret: Buffer): Buffer {
+  return Buffer.from(crypto.hkdfSync('sha256', sharedSecret, Buffer.alloc(0), HKDF_INFO, 32));
+}
+
+// ============================================================================
+// Shamir's secret sharing over GF(256)
+// ============================================================================
+
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+{
+  // Generator 3 with the AES polynomial x^8 + x^4 + x^3 + x + 1
+  let value = 1;
+  for (let i = 0; i < 255; i++) {
+    EXP[i] = value;
+    LOG[value] = i;
+    value ^= (value << 1) ^ (value & 0x80 ? 0x11b : 0);
+  }
+  for (let i = 255; i < 510; i++) {
+    EXP[i] = EXP[i - 255];
+  }
+}
+
+function multiply(a: number, b: number): number {
+  return a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]];
+}
+
+function divide(a: number, b: number): number {
+  return a === 0 ? 0 : EXP[LOG[a] + 255 - LOG[b]];
+}
+
+/**
+ * Split a secret so that any `threshold` of `shareCount` shares rebuild it
+ */
+function splitSecret(secret: Buffer, shareCount: number, threshold: number): { x: number; data: Buffer }[] {
+  const shares = Array.from({ length: shareCount }, (_, index) => ({ x: index + 1, data: Buffer.alloc(secret.length) }));
+  for (let byte = 0; byte < secret.length; byte++) {
+    // Random polynomial with the secret byte as its constant term
+    const coefficients = [secret[byte], ...crypto.randomBytes(threshold - 1)];
+    for (const share of shares) {
+      let value = 0;
+      for (let i = coefficients.length - 1; i >= 0; i--) {
+        value = multiply(value, share.x) ^ coefficients[i];
+      }
+      share.data[byte] = value;
+    }
+  }
+  return shares;
+}
+
+/**
+ * Rebuild a secret from shares by Lagrange interpolation at zero
+ */
+function combineShares(shares: EscrowShare[]): Buffer {
+  const length = shares[0]?.data.length || 0;
+  const secret = Buffer.alloc(length);
+  for (let byte = 0; byte < length; byte++) {
+    let value = 0;
+    for (const share of shares) {
+      let basis = 1;
+      for (const other of shares) {
+        if (other.x !== share.x) {
+          basis = multiply(basis, divide(other.x, other.x ^ share.x));
+        }
+      }
+      value ^= multiply(share.data[byte], basis);
+    }
+    secret[byte] = value;
+  }
+  return secret;
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+interface EscrowData {
+  // Sealed senders per target (a conversation or a channel message)
+  records: Record<string, EscrowRecord>;
+  reveals: RevealLogEntry[];
+}
+
+export class EscrowStore {
+  private escrow: EscrowData = { records: {}, reveals: [] };
+  private readonly file: JsonFile<EscrowData>;
+
+  constructor(filePath: string) {
+    this.file = new JsonFile<EscrowData>(filePath, { records: {}, reveals: [] }, data => {
+      this.escrow = data;
+    }, () => this.escrow);
+  }
+
+  /**
+   * Keep a sealed sender for a target
+   */
+  async add(target: string, channelId: string, sealed: SealedSender): Promise<void> {
+    await this.file.load();
+    const record = this.escrow.records[target] || { channelId, senders: [] };
+    record.senders.push(sealed);
+    this.escrow.records[target] = record;
+    await this.file.flush();
+  }
+
+  /**
+   * Get the record of a target, with its sealed senders oldest first
+   */
+  async get(target: string): Promise<EscrowRecord | null> {
+    await this.file.load();
+    return this.escrow.records[target] || null;
+  }
+
+  /**
+   * Record that a reveal happened
+   */
+  async logReveal(entry: RevealLogEntry): Promise<void> {
+    await this.file.load();
+    this.escrow.reveals.push(entry);
+    await this.file.flush();
+  }
+
+  /**
+   * Forget sealed senders older than the given age; the reveal log is kept
+   * @returns The number of sealed senders removed
+   */
+  async pruneOlderThan(maxAgeMs: number, now: number = Date.now()): Promise<number> {
+    await this.file.load();
+    let removed = 0;
+    for (const [target, record] of Object.entries(this.escrow.records)) {
+      const kept = record.senders.filter(sealed => sealed.sealedAt >= now - maxAgeMs);
+      removed += record.senders.length - kept.length;
+      if (kept.length > 0) {
+        record.senders = kept;
+      } else {
+        delete this.escrow.records[target];
+      }
+    }
+    if (removed > 0) {
+      await this.file.flush();
+    }
+    return removed;
+  }
+
+  /**
+   * Finish the write in flight and stop writing, e.g. before the file is deleted
+   */
+  drain(): Promise<void> {
+    return this.file.drain();
+  }
+}
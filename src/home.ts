@@ -0,0 +1,164 @@
+/**
+ * App Home tab
+ * Lists the anonymous conversations a member takes part in. The tab is only ever
+ * published to that member, so it can mark the conversations they started.
+ */
+
+import { ConversationState } from './conversation-store';
+import { Room } from './rooms';
+
+/**
+ * One conversation as shown on someone's Home tab
+ */
+export interface HomeConversation {
+  roomName?: string;
+  firstLine: string;
+  replyCount: number;
+  updatedAt: number;
+  state: ConversationState;
+  startedByMe: boolean;
+  // Link to the member's DM thread
+  permalink?: string;
+  // Conversation code used by the mute buttons
+  code: string;
+  muted: boolean;
+  // Whether transcripts are kept, so the conversation can be exported
+  exportable: boolean;
+}
+
+/**
+ * Build the Home tab view
+ */
+export function buildHomeView(conversations: HomeConversation[], optedOut: boolean): any {
+  const blocks: any[] = [
+    {
+      type: 'header',
+      text: { type: 'plain_text', text: 'Anonymous conversations' }
+    },
+    {
+      type: 'actions',
+      block_id: 'home_actions',
+      elements: [
+        {
+          type: 'button',
+          action_id: 'home_new_post',
+          style: 'primary',
+          text: { type: 'plain_text', text: 'New anonymous post' }
+        }
+      ]
+    }
+  ];
+
+  if (optedOut) {
+    blocks.push({
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: `You opted out of anonymous messages. Use \`/54y optin\` to receive them again.` }]
+    });
+  }
+
+  if (conversations.length === 0) {
+    blocks.push({
+      type: 'section',
+      text: { type: 'mrkdwn', text: `You aren't part of any anonymous conversations yet.` }
+    });
+  }
+
+  for (const conversation of conversations) {
+    const seconds = Math.floor(conversation.updatedAt / 1000);
+    const details = [
+      conversation.roomName ? `#${conversation.roomName}` : null,
+      conversation.startedByMe ? ':bust_in_silhouette: Started by you' : null,
+      `${conversation.replyCount} repl${conversation.replyCount === 1 ? 'y' : 'ies'}`,
+      `last activity <!date^${seconds}^{date_short_pretty} {time}|${new Date(conversation.updatedAt).toISOString()}>`,
+      conversation.muted ? ':mute: muted' : null,
+      conversation.state === 'locked' ? ':lock: locked' : null,
+      conversation.state === 'expired' ? 'expired' : null
+    ].filter(Boolean);
+
+    const elements: any[] = [];
+    if (conversation.permalink) {
+      elements.push({
+        type: 'button',
+        action_id: 'home_open_thread',
+        text: { type: 'plain_text', text: 'Open thread' },
+        url: conversation.permalink
+      });
+    }
+    elements.push({
+      type: 'button',
+      action_id: conversation.muted ? 'home_unmute' : 'home_mute',
+      text: { type: 'plain_text', text: conversation.muted ? 'Unmute' : 'Mute' },
+      value: conversation.code
+    });
+    if (conversation.exportable) {
+      elements.push({
+        type: 'button',
+        action_id: 'home_export',
+        text: { type: 'plain_text', text: 'Export' },
+        value: conversation.code
+      });
+    }
+
+    blocks.push(
+      { type: 'divider' },
+      {
+        type: 'section',
+        text: { type: 'mrkdwn', text: conversation.firstLine || (conversation.state === 'expired' ? '_Expired_' : '_No text_') }
+      },
+      {
+        type: 'context',
+        elements: [{ type: 'mrkdwn', text: details.join(' · ') }]
+      },
+      {
+        type: 'actions',
+        block_id: `home_conversation_${conversation.code}`,
+        elements
+      }
+    );
+  }
+
+  return { type: 'home', blocks };
+}
+
+/**
+ * Build the modal for starting a new anonymous post
+ */
+export function buildNewPostModal(rooms: Room[]): any {
+  return {
+    type: 'modal',
+    callback_id: 'new_post_modal',
+    title: { type: 'plain_text', text: 'New anonymous post' },
+    submit: { type: 'plain_text', text: 'Post' },
+    blocks: [
+      {
+        type: 'input',
+        block_id: 'room',
+        label: { type: 'plain_text', text: 'Room' },
+        element: {
+          type: 'static_select',
+          action_id: 'value',
+          initial_option: rooms.length === 1 ? toOption(rooms[0]) : undefined,
+          options: rooms.slice(0, 100).map(toOption)
+        }
+      },
+      {
+        type: 'input',
+        block_id: 'text',
+        label: { type: 'plain_text', text: 'Message' },
+        hint: { type: 'plain_text', text: 'Posted to everyone in the room without your name. Replies arrive in your DM with the bot.' },
+        element: {
+          type: 'plain_text_input',
+          action_id: 'value',
+          multiline: true
+        }
+      }
+    ]
+  };
+}
+
+function toOption(room: Room): any {
+  return {
+    text: { type: 'plain_text', text: `#${room.name}` },
+    value: room.id
+  };
+}
@@ -0,0 +1,81 @@
+/**
+ * Installation storage
+ * Keeps the OAuth installation (bot token and scopes) of every workspace the app is
+ * installed in, so one process can serve several workspaces. Also lets background
+ * jobs list the installations, which Bolt's own stores can't.
+ */
+
+import type { Installation, InstallationQuery, InstallationStore } from '@slack/bolt';
+import { JsonFile } from './persistence';
+
+/**
+ * ID a workspace's state is kept under: the team, or the org for org-wide installs
+ */
+export function getWorkspaceId(source: { teamId?: string; enterpriseId?: string; isEnterpriseInstall?: boolean }): string | null {
+  return (source.isEnterpriseInstall ? source.enterpriseId : source.teamId || source.enterpriseId) || null;
+}
+
+/**
+ * JSON file backend - the file holds bot tokens, so keep DATA_DIR private
+ */
+export class JsonInstallationStore implements InstallationStore {
+  private installations: Record<string, Installation> = {};
+  private readonly file: JsonFile<Record<string, Installation>>;
+
+  constructor(filePath: string) {
+    this.file = new JsonFile<Record<string, Installation>>(filePath, {}, data => {
+      this.installations = data;
+    }, () => this.installations);
+  }
+
+  async storeInstallation(installation: Installation): Promise<void> {
+    const workspaceId = getWorkspaceId({
+      teamId: installation.team?.id,
+      enterpriseId: installation.enterprise?.id,
+      isEnterpriseInstall: installation.isEnterpriseInstall
+    });
+    if (!workspaceId) {
+      throw new Error('Installation has neither a team nor an enterprise ID');
+    }
+
+    await this.file.load();
+    this.installations[workspaceId] = installation;
+    await this.file.flush();
+  }
+
+  async fetchInstallation(query: InstallationQuery<boolean>): Promise<Installation> {
+    await this.file.load();
+    const workspaceId = getWorkspaceId(query);
+    const installation = workspaceId ? this.installations[workspaceId] : undefined;
+    if (!installation) {
+      throw new Error(`No installation found for ${workspaceId || 'an unknown workspace'}`);
+    }
+    return installation;
+  }
+
+  async deleteInstallation(query: InstallationQuery<boolean>): Promise<void> {
+    const workspaceId = getWorkspaceId(query);
+    if (workspaceId) {
+      await this.remove(workspaceId);
+    }
+  }
+
+  /**
+   * Forget a workspace's installation
+   */
+  async remove(workspaceId: string): Promise<void> {
+    await this.file.load();
+    if (this.installations[workspaceId]) {
+      delete this.installations[workspaceId];
+      await this.file.flush();
+    }
+  }
+
+  /**
+   * List the installations by workspace ID
+   */
+  async list(): Promise<{ workspaceId: string; installation: Installation }[]> {
+    await this.file.load();
+    return Object.entries(this.installations).map(([workspaceId, installation]) => ({ workspaceId, installation }));
+  }
+}
@@ -0,0 +1,196 @@
+/**
+ * Content moderation
+ * Messages are checked against configurable rules before they are relayed.
+ * Messages that fail are held in a review queue until an admin approves or rejects them.
+ */
+
+import crypto from 'crypto';
+import { JsonFile } from './persistence';
+
+export type LinkPolicy = 'allow' | 'block' | 'allowlist';
+
+export interface ModerationRules {
+  blocklist: RegExp[];
+  links: LinkPolicy;
+  allowedDomains: string[];
+  // 0 means no limit
+  maxLength: number;
+}
+
+/**
+ * A message waiting for review, with what's needed to relay it once approved
+ */
+export interface HeldMessage {
+  id: string;
+  roomId: string;
+  text: string;
+  reasons: string[];
+  message: {
+    user: string;
+    channel: string;
+    ts: string;
+    thread_ts?: string;
+    files?: any[];
+  };
+  // Review prompts posted to admins, updated once the message is handled
+  reviews: { channel: string; ts: string }[];
+  createdAt: number;
+}
+
+/**
+ * Split a comma-separated blocklist; commas inside /pattern/flags entries don't split them
+ */
+export function splitBlocklist(value: string): string[] {
+  const entries: string[] = [];
+  let rest = value.trim();
+  while (rest) {
+    const regex = rest.match(/^\/(?:\\.|[^\\/])+\/[a-z]*(?=\s*(?:,|$))/);
+    const entry = regex ? regex[0] : rest.split(',')[0];
+    entries.push(entry.trim());
+    rest = rest.slice(entry.length).replace(/^\s*,/, '').trim();
+  }
+  return entries.filter(entry => entry.length > 0);
+}
+
+/**
+ * Turn blocklist entries into patterns; entries like /pattern/flags are regular expressions,
+ * anything else is matched as a whole word, ignoring case
+ */
+export function parseBlocklist(entries: string[]): RegExp[] {
+  return entries
+    .map(entry => entry.trim())
+    .filter(entry => entry.length > 0)
+    .map(entry => {
+      const regex = entry.match(/^\/(.+)\/([a-z]*)$/);
+      if (regex) {
+        // g and y make test() carry on from where the previous message matched
+        return new RegExp(regex[1], regex[2].replace(/[gy]/g, ''));
+      }
+      const escaped = entry.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      return new RegExp(`(^|[^\\p{L}\\p{N}_])${escaped}(?=$|[^\\p{L}\\p{N}_])`, 'iu');
+    });
+}
+
+/**
+ * Find links in Slack-formatted text, e.g. "<https://example.com|example>"
+ */
+export function findLinks(text: string): string[] {
+  const links: string[] = [];
+  for (const match of text.matchAll(/<((?:https?|ftp):\/\/[^|>]+)(?:\|[^>]*)?>|\b((?:https?|ftp):\/\/[^\s<>]+)/gi)) {
+    links.push(match[1] || match[2]);
+  }
+  return links;
+}
+
+/**
+ * Check a message against the rules
+ * @returns Human-readable reasons the message failed, empty if it passed
+ */
+export function checkMessage(text: string, rules: ModerationRules): string[] {
+  const reasons: string[] = [];
+
+  if (rules.maxLength > 0 && text.length > rules.maxLength) {
+    reasons.push(`Message is longer than ${rules.maxLength} characters`);
+  }
+
+  if (rules.blocklist.some(pattern => pattern.test(text))) {
+    reasons.push('Message contains blocked words');
+  }
+
+  const links = findLinks(text);
+  if (links.length > 0 && rules.links === 'block') {
+    reasons.push('Links are not allowed');
+  } else if (links.length > 0 && rules.links === 'allowlist') {
+    const disallowed = links.filter(link => !isAllowedDomain(link, rules.allowedDomains));
+    if (disallowed.length > 0) {
+      reasons.push(`Links to these sites are not allowed: ${disallowed.map(getHostname).join(', ')}`);
+    }
+  }
+
+  return reasons;
+}
+
+function getHostname(link: string): string {
+  try {
+    return new URL(link).hostname.toLowerCase();
+  } catch {
+    return link;
+  }
+}
+
+function isAllowedDomain(link: string, allowedDomains: string[]): boolean {
+  const hostname = getHostname(link);
+  return allowedDomains.some(domain => hostname === domain || hostname.endsWith(`.${domain}`));
+}
+
+/**
+ * Review queue of held messages, persisted to a JSON file
+ */
+export class ModerationQueue {
+  private held: Record<string, HeldMessage> = {};
+  private readonly file: JsonFile<Record<string, HeldMessage>>;
+
+  constructor(filePath: string) {
+    this.file = new JsonFile<Record<string, HeldMessage>>(filePath, {}, data => {
+      this.held = data;
+    }, () => this.held);
+  }
+
+  /**
+   * Hold a message for review
+   */
+  async hold(item: Omit<HeldMessage, 'id' | 'reviews' | 'createdAt'>): Promise<HeldMessage> {
+    await this.file.load();
+    const held: HeldMessage = {
+      ...item,
+      id: crypto.randomBytes(6).toString('hex'),
+      reviews: [],
+      createdAt: Date.now()
+    };
+    this.held[held.id] = held;
+    await this.file.flush();
+    return held;
+  }
+
+  /**
+   * Remember where review prompts for a held message were posted
+   */
+  async addReview(id: string, review: { channel: string; ts: string }): Promise<void> {
+    await this.file.load();
+    if (this.held[id]) {
+      this.held[id].reviews.push(review);
+      await this.file.flush();
+    }
+  }
+
+  /**
+   * Take a held message out of the queue
+   * @returns The message, or null if it was already handled
+   */
+  async take(id: string): Promise<HeldMessage | null> {
+    await this.file.load();
+    const held = this.held[id];
+    if (!held) {
+      return null;
+    }
+    delete this.held[id];
+    await this.file.flush();
+    return held;
+  }
+
+  /**
+   * Put a taken message back, e.g. when relaying it after approval failed
+   */
+  async restore(held: HeldMessage): Promise<void> {
+    await this.file.load();
+    this.held[held.id] = held;
+    await this.file.flush();
+  }
+
+  /**
+   * Finish the write in flight and stop writing, e.g. before the file is deleted
+   */
+  drain(): Promise<void> {
+    return this.file.drain();
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * Small helpers for persisting JSON state to disk
+ * Writes go to a temporary file first and are renamed into place,
+ * so a crash mid-write never leaves a truncated file behind.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Read and parse a JSON file
+ * @returns The parsed contents, or the fallback if the file doesn't exist yet
+ */
+export async function readJsonFile<T>(filePath: string, fallback: T): Promise<T> {
+  try {
+    const raw = await fs.readFile(filePath, 'utf8');
+    return JSON.parse(raw) as T;
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return fallback;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Write a value as JSON, replacing the file atomically
+ */
+export async function writeJsonFileAtomic(filePath: string, value: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tmpPath, JSON.stringify(value), 'utf8');
+  await fs.rename(tmpPath, filePath);
+}
+
+/**
+ * Serializes writes for a single file
+ * Any number of flush requests made while a write is in flight collapse
+ * into one follow-up write of the latest state.
+ */
+export class WriteQueue {
+  private running: Promise<void> | null = null;
+  private pending = false;
+  private closed = false;
+
+  constructor(private readonly write: () => Promise<void>) {}
+
+  /**
+   * Request a write and resolve once the latest state is on disk
+   */
+  flush(): Promise<void> {
+    if (this.closed) {
+      return Promise.resolve();
+    }
+    if (this.running) {
+      this.pending = true;
+      return this.running;
+    }
+    this.running = this.run();
+    return this.running;
+  }
+
+  /**
+   * Wait for the write in flight and ignore later requests, e.g. before the file is deleted
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    try {
+      await this.running;
+    } catch {
+      // The file is about to go away, so a failed write doesn't matter
+    }
+  }
+
+  private async run(): Promise<void> {
+    try {
+      do {
+        this.pending = false;
+        await this.write();
+      } while (this.pending && !this.closed);
+    } finally {
+      this.running = null;
+    }
+  }
+}
+
+/**
+ * The JSON file behind a store
+ * The file is read on first use; a failed read isn't kept, so the next call tries again.
+ * Writes go through a WriteQueue.
+ */
+export class JsonFile<T> {
+  private loaded: Promise<void> | null = null;
+  private readonly writeQueue: WriteQueue;
+
+  /**
+   * @param fallback Contents to start with while the file doesn't exist yet
+   * @param restore Hands the read contents to the store
+   * @param snapshot Gets the store's current contents to write
+   */
+  constructor(
+    private readonly filePath: string,
+    private readonly fallback: T,
+    private readonly restore: (data: T) => void,
+    snapshot: () => T
+  ) {
+    this.writeQueue = new WriteQueue(() => writeJsonFileAtomic(this.filePath, snapshot()));
+  }
+
+  /**
+   * Read the file, once
+   */
+  load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = readJsonFile<T>(this.filePath, this.fallback).then(this.restore).catch(error => {
+        // Allow the next call to retry
+        this.loaded = null;
+        throw error;
+      });
+    }
+    return this.loaded;
+  }
+
+  /**
+   * Write the store's current contents and resolve once they are on disk
+   */
+  flush(): Promise<void> {
+    return this.writeQueue.flush();
+  }
+
+  /**
+   * Finish the write in flight and stop writing, e.g. before the file is deleted
+   */
+  drain(): Promise<void> {
+    return this.writeQueue.close();
+  }
+}
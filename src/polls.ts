@@ -0,0 +1,307 @@
+/**
+ * Anonymous polls
+ * A poll is broadcast to a room like any anonymous message. Votes are stored under
+ * a keyed hash of the voter, so the tally can enforce one vote per person without
+ * recording who voted for what.
+ */
+
+import crypto from 'crypto';
+import { JsonFile } from './persistence';
+
+export const MAX_POLL_OPTIONS = 10;
+
+export interface Poll {
+  id: string;
+  roomId: string;
+  question: string;
+  options: string[];
+  // Option index per hashed voter
+  votes: Record<string, number>;
+  hideResults: boolean;
+  closesAt?: number;
+  closed: boolean;
+  // Hashed creator, who may close the poll early
+  creatorKey: string;
+  // Where the poll's copies are recorded in the conversation store
+  conversationId?: string;
+  sourceKey?: string;
+  createdAt: number;
+}
+
+/**
+ * A poll as written by its creator
+ */
+export interface PollRequest {
+  question: string;
+  options: string[];
+  hideResults: boolean;
+  closeAfterMs?: number;
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000
+};
+
+/**
+ * Parse a duration like "30m", "2h" or "1d"
+ * @returns The duration in milliseconds, or null if it isn't one
+ */
+export function parseDuration(value: string): number | null {
+  const match = value.trim().toLowerCase().match(/^(\d+)\s*([mhd])$/);
+  if (!match || Number(match[1]) === 0) {
+    return null;
+  }
+  return Number(match[1]) * DURATION_UNITS[match[2]];
+}
+
+/**
+ * Whether a DM asks for a poll, e.g. `poll "Question?" "Yes" "No"`
+ */
+export function isPollRequest(text: string): boolean {
+  return /^poll\s+["“]/i.test(text.trim());
+}
+
+/**
+ * Parse a poll from `"Question?" "Option A" "Option B" [--hidden] [--close 2h]`
+ * A leading "poll" keyword is ignored, so DMs and slash commands share the format.
+ * @returns The poll, or an error explaining what's wrong
+ */
+export function parsePollRequest(text: string): PollRequest | { error: string } {
+  const quoted: string[] = [];
+  let hideResults = false;
+  let closeAfterMs: number | undefined;
+
+  // Slack may turn straight quotes into curly ones
+  const tokens = text.trim().replace(/^poll\s+/i, '').match(/["“][^"”]*["”]|\S+/g) || [];
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (/^["“]/.test(token)) {
+      const value = token.slice(1, -1).trim();
+      if (value) {
+        quoted.push(value);
+      }
+    } else if (token === '--hidden') {
+      hideResults = true;
+    } else if (token === '--close' || token === '--closes') {
+      const duration = parseDuration(tokens[++i] || '');
+      if (duration === null) {
+        return { error: 'The close time must be a duration like `30m`, `2h` or `1d`.' };
+      }
+      closeAfterMs = duration;
+    } else {
+      return { error: `I didn't understand \`${token}\`. Put the question and each option in quotes.` };
+    }
+  }
+
+  const [question, ...options] = quoted;
+  if (!question || options.length < 2) {
+    return { error: 'A poll needs a question and at least two options, each in quotes.' };
+  }
+  if (options.length > MAX_POLL_OPTIONS) {
+    return { error: `A poll can have at most ${MAX_POLL_OPTIONS} options.` };
+  }
+  if (new Set(options.map(option => option.toLowerCase())).size < options.length) {
+    return { error: 'Each option has to be different.' };
+  }
+  return { question, options, hideResults, closeAfterMs };
+}
+
+/**
+ * Count the votes for each option
+ */
+export function tallyVotes(poll: Poll): number[] {
+  const counts = poll.options.map(() => 0);
+  for (const index of Object.values(poll.votes)) {
+    if (index >= 0 && index < counts.length) {
+      counts[index]++;
+    }
+  }
+  return counts;
+}
+
+/**
+ * Build the option and status blocks shown under the poll question
+ */
+export function buildPollBlocks(poll: Poll): any[] {
+  const counts = tallyVotes(poll);
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  const showResults = poll.closed || !poll.hideResults;
+
+  const blocks: any[] = poll.options.map((option, index) => {
+    let text = `*${option}*`;
+    if (showResults) {
+      const percent = total > 0 ? Math.round(counts[index] / total * 100) : 0;
+      text += `\n${formatBar(percent)} ${counts[index]} vote${counts[index] === 1 ? '' : 's'} (${percent}%)`;
+    }
+
+    const block: any = {
+      type: 'section',
+      block_id: `poll_option_${index}`,
+      text: { type: 'mrkdwn', text }
+    };
+    if (!poll.closed) {
+      block.accessory = {
+        type: 'button',
+        action_id: 'poll_vote',
+        text: { type: 'plain_text', text: 'Vote' },
+        value: `${poll.id}:${index}`
+      };
+    }
+    return block;
+  });
+
+  const status = [`${total} vote${total === 1 ? '' : 's'}`];
+  if (poll.closed) {
+    status.push('Poll closed');
+  } else {
+    if (poll.hideResults) {
+      status.push('Results are hidden until the poll closes');
+    }
+    if (poll.closesAt) {
+      const seconds = Math.floor(poll.closesAt / 1000);
+      status.push(`Closes <!date^${seconds}^{date_short_pretty} {time}|${new Date(poll.closesAt).toISOString()}>`);
+    }
+  }
+  blocks.push({
+    type: 'context',
+    elements: [{ type: 'mrkdwn', text: status.join(' · ') }]
+  });
+
+  return blocks;
+}
+
+function formatBar(percent: number): string {
+  const filled = Math.round(percent / 10);
+  return '█'.repeat(filled) + '░'.repeat(10 - filled);
+}
+
+export class PollStore {
+  private polls: Record<string, Poll> = {};
+  private readonly file: JsonFile<Record<string, Poll>>;
+
+  constructor(filePath: string) {
+    this.file = new JsonFile<Record<string, Poll>>(filePath, {}, data => {
+      this.polls = data;
+    }, () => this.polls);
+  }
+
+  /**
+   * Create an open poll
+   * @param getCreatorKey Derives the hashed creator from the new poll's ID
+   */
+  async create(roomId: string, request: PollRequest, getCreatorKey: (pollId: string) => string): Promise<Poll> {
+    await this.file.load();
+    const now = Date.now();
+    const id = crypto.randomBytes(6).toString('hex');
+    const poll: Poll = {
+      id,
+      roomId,
+      question: request.question,
+      options: request.options,
+      votes: {},
+      hideResults: request.hideResults,
+      closesAt: request.closeAfterMs ? now + request.closeAfterMs : undefined,
+      closed: false,
+      creatorKey: getCreatorKey(id),
+      createdAt: now
+    };
+    this.polls[poll.id] = poll;
+    await this.file.flush();
+    return poll;
+  }
+
+  async get(id: string): Promise<Poll | null> {
+    await this.file.load();
+    return this.polls[id] || null;
+  }
+
+  /**
+   * Record where the poll's copies were recorded
+   */
+  async setSource(id: string, conversationId: string, sourceKey: string): Promise<void> {
+    await this.file.load();
+    const poll = this.polls[id];
+    if (poll) {
+      poll.conversationId = conversationId;
+      poll.sourceKey = sourceKey;
+      await this.file.flush();
+    }
+  }
+
+  /**
+   * Vote for an option, or take the vote back if it was already for that option
+   * @returns The voter's current choice, or null if the poll is closed or gone
+   */
+  async vote(id: string, voterKey: string, optionIndex: number): Promise<{ poll: Poll; choice: number | null } | null> {
+    await this.file.load();
+    const poll = this.polls[id];
+    if (!poll || poll.closed || optionIndex < 0 || optionIndex >= poll.options.length) {
+      return null;
+    }
+
+    let choice: number | null = optionIndex;
+    if (poll.votes[voterKey] === optionIndex) {
+      delete poll.votes[voterKey];
+      choice = null;
+    } else {
+      poll.votes[voterKey] = optionIndex;
+    }
+    await this.file.flush();
+    return { poll, choice };
+  }
+
+  /**
+   * Close a poll
+   * @returns The poll, or null if it was already closed
+   */
+  async close(id: string): Promise<Poll | null> {
+    await this.file.load();
+    const poll = this.polls[id];
+    if (!poll || poll.closed) {
+      return null;
+    }
+    poll.closed = true;
+    await this.file.flush();
+    return poll;
+  }
+
+  /**
+   * Close every poll whose close time has passed
+   */
+  async closeDue(now: number = Date.now()): Promise<Poll[]> {
+    await this.file.load();
+    const due = Object.values(this.polls).filter(poll => !poll.closed && poll.closesAt !== undefined && poll.closesAt <= now);
+    if (due.length > 0) {
+      for (const poll of due) {
+        poll.closed = true;
+      }
+      await this.file.flush();
+    }
+    return due;
+  }
+
+  /**
+   * Forget polls created longer ago than the given age
+   * @returns The number of polls removed
+   */
+  async pruneOlderThan(maxAgeMs: number, now: number = Date.now()): Promise<number> {
+    await this.file.load();
+    const stale = Object.values(this.polls).filter(poll => poll.createdAt < now - maxAgeMs);
+    if (stale.length > 0) {
+      for (const poll of stale) {
+        delete this.polls[poll.id];
+      }
+      await this.file.flush();
+    }
+    return stale.length;
+  }
+
+  /**
+   * Finish the write in flight and stop writing, e.g. before the file is deleted
+   */
+  drain(): Promise<void> {
+    return this.file.drain();
+  }
+}
@@ -0,0 +1,261 @@
+/**
+ * Recipient preferences
+ * Members can mute single conversations, opt out of anonymous broadcasts entirely,
+ * or set quiet hours during which messages are collected into a digest instead.
+ * As senders, they can choose whether their DMs are previewed before going out.
+ * Stored in a JSON file so they survive restarts.
+ */
+
+import crypto from 'crypto';
+import { JsonFile } from './persistence';
+
+export interface QuietHours {
+  // Minutes after midnight in the member's time zone
+  start: number;
+  end: number;
+  timeZone: string;
+}
+
+/**
+ * A message held back during quiet hours
+ */
+export interface DigestItem {
+  // Shared by the items of one message, so they can be taken back if it's deleted
+  id?: string;
+  conversationId: string;
+  text: string;
+  isThreadReply: boolean;
+  receivedAt: number;
+}
+
+export interface UserPreferences {
+  optedOut: boolean;
+  // Codes of muted conversations
+  muted: string[];
+  quietHours?: QuietHours;
+  digest: DigestItem[];
+  // Whether DMs are previewed before they are sent; unset follows the workspace default
+  preview?: boolean;
+}
+
+/**
+ * What the fan-out should do with each recipient
+ */
+export interface RecipientPlan {
+  deliver: string[];
+  digest: string[];
+}
+
+const DEFAULT_PREFERENCES: UserPreferences = {
+  optedOut: false,
+  muted: [],
+  digest: []
+};
+
+/**
+ * Short code members can use to refer to a conversation, e.g. in '/54y mute'
+ * Conversation IDs are invisible characters, so members never see them directly.
+ */
+export function getConversationCode(secret: string, conversationId: string): string {
+  return crypto.createHmac('sha256', secret).update(`conversation-code\u0000${conversationId}`).digest('hex').slice(0, 8);
+}
+
+/**
+ * Parse quiet hours like "22:00-08:00" or "22-8"
+ * @returns Start and end in minutes after midnight, or null if it isn't a range
+ */
+export function parseQuietHours(value: string): { start: number; end: number } | null {
+  const match = value.trim().match(/^(\d{1,2})(?::(\d{2}))?\s*-\s*(\d{1,2})(?::(\d{2}))?$/);
+  if (!match) {
+    return null;
+  }
+  const start = Number(match[1]) * 60 + Number(match[2] || 0);
+  const end = Number(match[3]) * 60 + Number(match[4] || 0);
+  if (Number(match[1]) > 23 || Number(match[3]) > 23 || Number(match[2] || 0) > 59 || Number(match[4] || 0) > 59 || start === end) {
+    return null;
+  }
+  return { start, end };
+}
+
+/**
+ * Format minutes after midnight as "HH:MM"
+ */
+export function formatTimeOfDay(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Whether a moment falls within quiet hours, which may wrap past midnight
+ */
+export function isWithinQuietHours(quietHours: QuietHours, now: number = Date.now()): boolean {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: quietHours.timeZone,
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23'
+  }).formatToParts(new Date(now));
+  const hour = Number(parts.find(part => part.type === 'hour')?.value || 0);
+  const minute = Number(parts.find(part => part.type === 'minute')?.value || 0);
+  const current = hour * 60 + minute;
+
+  return quietHours.start < quietHours.end
+    ? current >= quietHours.start && current < quietHours.end
+    : current >= quietHours.start || current < quietHours.end;
+}
+
+export class PreferencesStore {
+  private preferences: Record<string, UserPreferences> = {};
+  private readonly file: JsonFile<Record<string, UserPreferences>>;
+
+  constructor(filePath: string) {
+    this.file = new JsonFile<Record<string, UserPreferences>>(filePath, {}, data => {
+      this.preferences = data;
+    }, () => this.preferences);
+  }
+
+  /**
+   * Get a member's preferences, falling back to the defaults
+   */
+  async get(userId: string): Promise<UserPreferences> {
+    await this.file.load();
+    return this.preferences[userId] || { ...DEFAULT_PREFERENCES, muted: [], digest: [] };
+  }
+
+  async setOptedOut(userId: string, optedOut: boolean): Promise<void> {
+    await this.update(userId, preferences => {
+      preferences.optedOut = optedOut;
+    });
+  }
+
+  /**
+   * Mute or unmute a conversation
+   * @returns false if it already was (un)muted
+   */
+  async setMuted(userId: string, conversationCode: string, muted: boolean): Promise<boolean> {
+    const current = await this.get(userId);
+    if (current.muted.includes(conversationCode) === muted) {
+      return false;
+    }
+    await this.update(userId, preferences => {
+      preferences.muted = muted
+        ? [...preferences.muted, conversationCode]
+        : preferences.muted.filter(code => code !== conversationCode);
+    });
+    return true;
+  }
+
+  async setQuietHours(userId: string, quietHours: QuietHours | null): Promise<void> {
+    await this.update(userId, preferences => {
+      if (quietHours) {
+        preferences.quietHours = quietHours;
+      } else {
+        delete preferences.quietHours;
+      }
+    });
+  }
+
+  async setPreview(userId: string, preview: boolean): Promise<void> {
+    await this.update(userId, preferences => {
+      preferences.preview = preview;
+    });
+  }
+
+  /**
+   * Decide who gets a message now and who gets it in their digest
+   * Members who opted out or muted the conversation get neither.
+   */
+  async planRecipients(userIds: string[], conversationCode: string, now: number = Date.now()): Promise<RecipientPlan> {
+    await this.file.load();
+    const plan: RecipientPlan = { deliver: [], digest: [] };
+    for (const userId of userIds) {
+      const preferences = this.preferences[userId];
+      if (!preferences) {
+        plan.deliver.push(userId);
+      } else if (preferences.optedOut || preferences.muted.includes(conversationCode)) {
+        continue;
+      } else if (preferences.quietHours && isWithinQuietHours(preferences.quietHours, now)) {
+        plan.digest.push(userId);
+      } else {
+        plan.deliver.push(userId);
+      }
+    }
+    return plan;
+  }
+
+  /**
+   * Hold a message for several members' digests
+   */
+  async addToDigest(userIds: string[], item: DigestItem): Promise<void> {
+    if (userIds.length === 0) {
+      return;
+    }
+    await this.file.load();
+    for (const userId of userIds) {
+      const preferences = this.getOrCreate(userId);
+      preferences.digest.push(item);
+    }
+    await this.file.flush();
+  }
+
+  /**
+   * Drop a message from every digest it is held in, e.g. after its sender deleted it
+   */
+  async removeFromDigests(id: string): Promise<void> {
+    await this.file.load();
+    let removed = false;
+    for (const preferences of Object.values(this.preferences)) {
+      const digest = preferences.digest.filter(item => item.id !== id);
+      if (digest.length < preferences.digest.length) {
+        preferences.digest = digest;
+        removed = true;
+      }
+    }
+    if (removed) {
+      await this.file.flush();
+    }
+  }
+
+  /**
+   * Take the digests of members whose quiet hours are over
+   */
+  async takeReadyDigests(now: number = Date.now()): Promise<{ userId: string; items: DigestItem[] }[]> {
+    await this.file.load();
+    const ready: { userId: string; items: DigestItem[] }[] = [];
+    for (const [userId, preferences] of Object.entries(this.preferences)) {
+      if (preferences.digest.length === 0) {
+        continue;
+      }
+      if (preferences.quietHours && isWithinQuietHours(preferences.quietHours, now)) {
+        continue;
+      }
+      ready.push({ userId, items: preferences.digest });
+      preferences.digest = [];
+    }
+    if (ready.length > 0) {
+      await this.file.flush();
+    }
+    return ready;
+  }
+
+  private async update(userId: string, change: (preferences: UserPreferences) => void): Promise<void> {
+    await this.file.load();
+    change(this.getOrCreate(userId));
+    await this.file.flush();
+  }
+
+  private getOrCreate(userId: string): UserPreferences {
+    let preferences = this.preferences[userId];
+    if (!preferences) {
+      preferences = { ...DEFAULT_PREFERENCES, muted: [], digest: [] };
+      this.preferences[userId] = preferences;
+    }
+    return preferences;
+  }
+
+  /**
+   * Finish the write in flight and stop writing, e.g. before the file is deleted
+   */
+  drain(): Promise<void> {
+    return this.file.drain();
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Per-conversation pseudonyms
+ * Each participant gets a stable name inside one conversation, derived from a keyed
+ * hash of (conversation ID, user ID). Without the key, names can't be linked to users
+ * or across conversations.
+ */
+
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export const PSEUDONYM_ANIMALS = [
+  'Otter', 'Badger', 'Heron', 'Lynx', 'Walrus', 'Falcon', 'Panda', 'Koala',
+  'Beaver', 'Raven', 'Moose', 'Gecko', 'Puffin', 'Bison', 'Ferret', 'Ibex',
+  'Jackal', 'Lemur', 'Marten', 'Narwhal', 'Ocelot', 'Pelican', 'Quokka', 'Salmon',
+  'Tapir', 'Urchin', 'Viper', 'Wombat', 'Yak', 'Zebra', 'Alpaca', 'Bobcat',
+  'Condor', 'Dingo', 'Egret', 'Fox', 'Gibbon', 'Hedgehog', 'Impala', 'Jaguar',
+  'Kiwi', 'Llama', 'Mole', 'Newt', 'Owl', 'Penguin', 'Quail', 'Robin',
+  'Seal', 'Toucan', 'Vole', 'Weasel', 'Armadillo', 'Camel', 'Dolphin', 'Eel',
+  'Finch', 'Gazelle', 'Hare', 'Iguana', 'Kestrel', 'Lobster', 'Magpie', 'Orca'
+];
+
+/**
+ * Use the configured pseudonym key, or load it from the data directory
+ * A random key is generated and saved on first use.
+ */
+export async function loadPseudonymSecret(dataDir: string, configured?: string): Promise<string> {
+  if (configured) {
+    return configured;
+  }
+
+  const secretPath = path.join(dataDir, 'pseudonym-secret');
+  try {
+    return (await fs.readFile(secretPath, 'utf8')).trim();
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
+    }
+  }
+
+  const secret = crypto.randomBytes(32).toString('hex');
+  await fs.mkdir(dataDir, { recursive: true });
+  await fs.writeFile(secretPath, secret, { encoding: 'utf8', mode: 0o600 });
+  return secret;
+}
+
+/**
+ * Keyed hash identifying a participant within one conversation
+ */
+export function getPseudonymKey(secret: string, conversationId: string, userId: string): string {
+  return crypto.createHmac('sha256', secret).update(`${conversationId}\u0000${userId}`).digest('hex');
+}
+
+/**
+ * Pick a name for a participant, avoiding names already used in the conversation
+ * Starts from a slot derived from the key, so the choice is stable for a given thread.
+ */
+export function pickPseudonym(key: string, taken: string[]): string {
+  const start = parseInt(key.slice(0, 8), 16) % PSEUDONYM_ANIMALS.length;
+  for (let i = 0; i < PSEUDONYM_ANIMALS.length; i++) {
+    const name = `Anon ${PSEUDONYM_ANIMALS[(start + i) % PSEUDONYM_ANIMALS.length]}`;
+    if (!taken.includes(name)) {
+      return name;
+    }
+  }
+  // Every animal is in use - fall back to numbering participants
+  return `Anon #${taken.length + 1}`;
+}
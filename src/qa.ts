@@ -0,0 +1,243 @@
+/**
+ * Anonymous Q&A sessions
+ * A host opens a session in a room, participants DM questions that are broadcast
+ * anonymously, and everyone can upvote them. Upvotes are stored as keyed hashes
+ * of the voter, so they can be counted once per person without saying who.
+ */
+
+import crypto from 'crypto';
+import { JsonFile } from './persistence';
+
+export interface QaQuestion {
+  id: string;
+  conversationId: string;
+  text: string;
+  // Hashed upvoters
+  upvotes: string[];
+  answered: boolean;
+  createdAt: number;
+}
+
+export interface QaSession {
+  id: string;
+  channelId: string;
+  hostId: string;
+  open: boolean;
+  questions: Record<string, QaQuestion>;
+  createdAt: number;
+  closedAt?: number;
+}
+
+/**
+ * Whether a DM is a Q&A question, e.g. `qa What's the roadmap?`
+ */
+export function isQaQuestion(text: string): boolean {
+  return /^qa\s+\S/i.test(text.trim());
+}
+
+/**
+ * Strip the `qa` keyword from a question
+ */
+export function getQaQuestionText(text: string): string {
+  return text.trim().replace(/^qa\s+/i, '');
+}
+
+/**
+ * Order questions for the host: unanswered first, then most upvoted, then oldest
+ */
+export function rankQuestions(session: QaSession): QaQuestion[] {
+  return Object.values(session.questions).sort((a, b) =>
+    Number(a.answered) - Number(b.answered)
+    || b.upvotes.length - a.upvotes.length
+    || a.createdAt - b.createdAt
+  );
+}
+
+/**
+ * Build the status and upvote blocks shown under a question
+ */
+export function buildQuestionBlocks(session: QaSession, question: QaQuestion): any[] {
+  const count = question.upvotes.length;
+  const status = [`${count} upvote${count === 1 ? '' : 's'}`];
+  if (question.answered) {
+    status.unshift(':white_check_mark: Answered');
+  } else if (!session.open) {
+    status.unshift('Q&A ended');
+  }
+
+  const blocks: any[] = [
+    {
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: status.join(' · ') }]
+    }
+  ];
+  if (session.open && !question.answered) {
+    blocks.push({
+      type: 'actions',
+      block_id: 'qa_actions',
+      elements: [
+        {
+          type: 'button',
+          action_id: 'qa_upvote',
+          text: { type: 'plain_text', text: ':arrow_up: Upvote' },
+          value: `${session.id}:${question.id}`
+        }
+      ]
+    });
+  }
+  return blocks;
+}
+
+export class QaStore {
+  private sessions: Record<string, QaSession> = {};
+  private readonly file: JsonFile<Record<string, QaSession>>;
+
+  constructor(filePath: string) {
+    this.file = new JsonFile<Record<string, QaSession>>(filePath, {}, data => {
+      this.sessions = data;
+    }, () => this.sessions);
+  }
+
+  /**
+   * Open a session in a channel
+   * @returns The session, or null if the channel already has an open one
+   */
+  async start(channelId: string, hostId: string): Promise<QaSession | null> {
+    await this.file.load();
+    if (this.findOpen(channelId)) {
+      return null;
+    }
+    const session: QaSession = {
+      id: crypto.randomBytes(6).toString('hex'),
+      channelId,
+      hostId,
+      open: true,
+      questions: {},
+      createdAt: Date.now()
+    };
+    this.sessions[session.id] = session;
+    await this.file.flush();
+    return session;
+  }
+
+  /**
+   * Close the open session in a channel
+   * @returns The closed session, or null if there was none
+   */
+  async stop(channelId: string): Promise<QaSession | null> {
+    await this.file.load();
+    const session = this.findOpen(channelId);
+    if (!session) {
+      return null;
+    }
+    session.open = false;
+    session.closedAt = Date.now();
+    await this.file.flush();
+    return session;
+  }
+
+  async get(id: string): Promise<QaSession | null> {
+    await this.file.load();
+    return this.sessions[id] || null;
+  }
+
+  /**
+   * Get the open session in a channel
+   */
+  async getOpen(channelId: string): Promise<QaSession | null> {
+    await this.file.load();
+    return this.findOpen(channelId);
+  }
+
+  /**
+   * List every open session
+   */
+  async listOpen(): Promise<QaSession[]> {
+    await this.file.load();
+    return Object.values(this.sessions).filter(session => session.open);
+  }
+
+  /**
+   * Add a question to an open session
+   */
+  async addQuestion(sessionId: string, conversationId: string, text: string): Promise<QaQuestion | null> {
+    await this.file.load();
+    const session = this.sessions[sessionId];
+    if (!session || !session.open) {
+      return null;
+    }
+    const question: QaQuestion = {
+      id: crypto.randomBytes(4).toString('hex'),
+      conversationId,
+      text,
+      upvotes: [],
+      answered: false,
+      createdAt: Date.now()
+    };
+    session.questions[question.id] = question;
+    await this.file.flush();
+    return question;
+  }
+
+  /**
+   * Upvote a question, or take the upvote back
+   * @returns Whether the voter now upvotes it, or null if the question can't be voted on
+   */
+  async toggleUpvote(sessionId: string, questionId: string, voterKey: string): Promise<{ question: QaQuestion; upvoted: boolean } | null> {
+    await this.file.load();
+    const session = this.sessions[sessionId];
+    const question = session?.questions[questionId];
+    if (!session || !session.open || !question || question.answered) {
+      return null;
+    }
+
+    const upvoted = !question.upvotes.includes(voterKey);
+    question.upvotes = upvoted
+      ? [...question.upvotes, voterKey]
+      : question.upvotes.filter(key => key !== voterKey);
+    await this.file.flush();
+    return { question, upvoted };
+  }
+
+  /**
+   * Mark a question as answered
+   * @returns The question, or null if it doesn't exist or was already answered
+   */
+  async markAnswered(sessionId: string, questionId: string): Promise<QaQuestion | null> {
+    await this.file.load();
+    const question = this.sessions[sessionId]?.questions[questionId];
+    if (!question || question.answered) {
+      return null;
+    }
+    question.answered = true;
+    await this.file.flush();
+    return question;
+  }
+
+  /**
+   * Forget closed sessions that ended longer ago than the given age
+   * @returns The number of sessions removed
+   */
+  async pruneClosed(maxAgeMs: number, now: number = Date.now()): Promise<number> {
+    await this.file.load();
+    const stale = Object.values(this.sessions).filter(session => !session.open && (session.closedAt || 0) < now - maxAgeMs);
+    if (stale.length > 0) {
+      for (const session of stale) {
+        delete this.sessions[session.id];
+      }
+      await this.file.flush();
+    }
+    return stale.length;
+  }
+
+  private findOpen(channelId: string): QaSession | null {
+    return Object.values(this.sessions).find(session => session.open && session.channelId === channelId) || null;
+  }
+
+  /**
+   * Finish the write in flight and stop writing, e.g. before the file is deleted
+   */
+  drain(): Promise<void> {
+    return this.file.drain();
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * Per-sender rate limiting
+ * Every anonymous message fans out to a whole room, so each sender gets a token
+ * bucket (burst + sustained rate per minute), an hourly cap, and a cooldown after
+ * sending the same text repeatedly.
+ */
+
+import crypto from 'crypto';
+
+export interface RateLimitOptions {
+  perMinute: number;
+  perHour: number;
+  burst: number;
+  // Identical messages in a row allowed before the cooldown kicks in
+  duplicateLimit: number;
+  duplicateCooldownMs: number;
+}
+
+export type RateLimitResult =
+  | { allowed: true }
+  | { allowed: false; reason: string; retryAfterMs: number };
+
+interface SenderState {
+  tokens: number;
+  refilledAt: number;
+  // Send times within the last hour
+  sentAt: number[];
+  lastTextHash: string | null;
+  duplicateCount: number;
+  cooldownUntil: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+export class RateLimiter {
+  private senders = new Map<string, SenderState>();
+
+  constructor(private options: RateLimitOptions) {}
+
+  /**
+   * Change the limits; senders keep what they already used up
+   */
+  setOptions(options: RateLimitOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Check whether a sender may send a message and count it if so
+   */
+  take(userId: string, text: string, now: number = Date.now()): RateLimitResult {
+    const state = this.getState(userId, now);
+    this.refill(state, now);
+    state.sentAt = state.sentAt.filter(time => time > now - HOUR_MS);
+
+    if (state.cooldownUntil > now) {
+      return {
+        allowed: false,
+        reason: 'You sent the same message several times in a row',
+        retryAfterMs: state.cooldownUntil - now
+      };
+    }
+
+    // File-only messages have no text to compare
+    const textHash = text.trim() ? hashText(text) : null;
+    const duplicateCount = textHash && textHash === state.lastTextHash ? state.duplicateCount + 1 : 1;
+    if (this.options.duplicateLimit > 0 && duplicateCount > this.options.duplicateLimit) {
+      state.cooldownUntil = now + this.options.duplicateCooldownMs;
+      state.duplicateCount = 0;
+      return {
+        allowed: false,
+        reason: 'You sent the same message several times in a row',
+        retryAfterMs: this.options.duplicateCooldownMs
+      };
+    }
+
+    if (this.options.perHour > 0 && state.sentAt.length >= this.options.perHour) {
+      return {
+        allowed: false,
+        reason: `You can send at most ${this.options.perHour} messages per hour`,
+        retryAfterMs: state.sentAt[0] + HOUR_MS - now
+      };
+    }
+
+    if (this.options.perMinute > 0 && state.tokens < 1) {
+      return {
+        allowed: false,
+        reason: `You can send at most ${this.options.perMinute} messages per minute`,
+        retryAfterMs: Math.ceil((1 - state.tokens) * MINUTE_MS / this.options.perMinute)
+      };
+    }
+
+    // Without a per-minute limit nothing is used up, so turning it back on doesn't lock anyone out
+    if (this.options.perMinute > 0) {
+      state.tokens -= 1;
+    }
+    state.sentAt.push(now);
+    state.lastTextHash = textHash;
+    state.duplicateCount = duplicateCount;
+    return { allowed: true };
+  }
+
+  /**
+   * Forget senders that have been quiet for an hour
+   */
+  prune(now: number = Date.now()) {
+    for (const [userId, state] of this.senders) {
+      const lastSent = state.sentAt[state.sentAt.length - 1] || 0;
+      if (lastSent < now - HOUR_MS && state.cooldownUntil < now) {
+        this.senders.delete(userId);
+      }
+    }
+  }
+
+  private getState(userId: string, now: number): SenderState {
+    let state = this.senders.get(userId);
+    if (!state) {
+      state = {
+        tokens: this.options.burst,
+        refilledAt: now,
+        sentAt: [],
+        lastTextHash: null,
+        duplicateCount: 0,
+        cooldownUntil: 0
+      };
+      this.senders.set(userId, state);
+    }
+    return state;
+  }
+
+  private refill(state: SenderState, now: number) {
+    const elapsed = now - state.refilledAt;
+    state.tokens = Math.min(this.options.burst, state.tokens + elapsed * this.options.perMinute / MINUTE_MS);
+    state.refilledAt = now;
+  }
+}
+
+/**
+ * Format a wait time like "2 minutes" or "45 seconds"
+ */
+export function formatRetryAfter(ms: number): string {
+  const seconds = Math.max(1, Math.ceil(ms / 1000));
+  if (seconds < 60) {
+    return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  }
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
+
+function hashText(text: string): string {
+  return crypto.createHash('sha256').update(text.trim().toLowerCase()).digest('hex');
+}
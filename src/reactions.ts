@@ -0,0 +1,73 @@
+/**
+ * Reaction mirroring
+ * Every recipient has their own copy of an anonymous message, so reactions are
+ * aggregated across copies and shown on each of them as an anonymized tally.
+ */
+
+import { RelayedMessage } from './conversation-store';
+
+/**
+ * Record a reaction being added or removed by a user
+ * @returns true if the tally changed
+ */
+export function applyReaction(message: RelayedMessage, userId: string, reaction: string, added: boolean): boolean {
+  const reactions = message.reactions || {};
+  message.reactions = reactions;
+  const users = reactions[reaction] || [];
+
+  if (added) {
+    if (users.includes(userId)) {
+      return false;
+    }
+    reactions[reaction] = [...users, userId];
+    return true;
+  }
+
+  if (!users.includes(userId)) {
+    return false;
+  }
+  const remaining = users.filter(id => id !== userId);
+  if (remaining.length > 0) {
+    reactions[reaction] = remaining;
+  } else {
+    delete reactions[reaction];
+  }
+  return true;
+}
+
+/**
+ * Format reactions as a tally like ":+1: 4 · :tada: 2", most used first
+ */
+export function formatReactionTally(reactions?: Record<string, string[]>): string {
+  return Object.entries(reactions || {})
+    .filter(([, users]) => users.length > 0)
+    .sort((a, b) => b[1].length - a[1].length)
+    .map(([reaction, users]) => `:${reaction}: ${users.length}`)
+    .join(' · ');
+}
+
+/**
+ * Build the text/blocks a copy should show, including the reaction tally
+ */
+export function renderRelayedMessage(message: RelayedMessage): { text: string; blocks?: any[] } {
+  // Plain messages that never had reactions keep their original shape
+  if (!message.reactions) {
+    return message.content;
+  }
+
+  const blocks: any[] = message.content.blocks
+    ? [...message.content.blocks]
+    : [{ type: 'section', text: { type: 'mrkdwn', text: message.content.text } }];
+
+  const tally = formatReactionTally(message.reactions);
+  if (tally) {
+    // Keep any action buttons last
+    const actionsIndex = blocks.findIndex(block => block.type === 'actions');
+    blocks.splice(actionsIndex === -1 ? blocks.length : actionsIndex, 0, {
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: tally }]
+    });
+  }
+
+  return { text: message.content.text, blocks };
+}
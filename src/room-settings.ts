@@ -0,0 +1,49 @@
+/**
+ * Per-room settings
+ * Stored in a JSON file so they survive restarts.
+ */
+
+import { JsonFile } from './persistence';
+
+export interface RoomSettings {
+  // Label replies with per-conversation pseudonyms instead of "Anonymous"
+  pseudonyms: boolean;
+  // Also post conversations into the room's channel, where members can reply in the thread
+  mirror: boolean;
+}
+
+export class RoomSettingsStore {
+  private settings: Record<string, Partial<RoomSettings>> = {};
+  private readonly file: JsonFile<Record<string, Partial<RoomSettings>>>;
+
+  constructor(filePath: string, private readonly getDefaults: () => Promise<RoomSettings>) {
+    this.file = new JsonFile<Record<string, Partial<RoomSettings>>>(filePath, {}, data => {
+      this.settings = data;
+    }, () => this.settings);
+  }
+
+  /**
+   * Get the settings of a room, falling back to the defaults
+   */
+  async get(roomId: string): Promise<RoomSettings> {
+    await this.file.load();
+    return { ...await this.getDefaults(), ...this.settings[roomId] };
+  }
+
+  /**
+   * Change some settings of a room
+   */
+  async update(roomId: string, changes: Partial<RoomSettings>): Promise<RoomSettings> {
+    await this.file.load();
+    this.settings[roomId] = { ...this.settings[roomId], ...changes };
+    await this.file.flush();
+    return this.get(roomId);
+  }
+
+  /**
+   * Finish the write in flight and stop writing, e.g. before the file is deleted
+   */
+  drain(): Promise<void> {
+    return this.file.drain();
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * Anonymous rooms
+ * Every channel the bot is a member of is a room. Anonymous posts are relayed to
+ * the members of the room they were sent to.
+ */
+
+import { Logger } from '@slack/logger';
+
+export interface Room {
+  id: string;
+  name: string;
+}
+
+/**
+ * Keeps track of the channels the bot is a member of
+ */
+export class RoomDirectory {
+  private rooms = new Map<string, Room>();
+  private loaded: Promise<void> | null = null;
+  private botUserId: string | null = null;
+
+  /**
+   * @param getAllowedIds Channel IDs that may be rooms; an empty list allows every channel the bot is in
+   */
+  constructor(private readonly logger: Logger, private readonly getAllowedIds: () => Promise<string[]> = async () => []) {}
+
+  /**
+   * List all rooms, loading them from Slack on first use
+   */
+  async list(client: any): Promise<Room[]> {
+    return (await this.listAllowed(client)).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Get a room by channel ID
+   */
+  async get(client: any, channelId: string): Promise<Room | null> {
+    return (await this.listAllowed(client)).find(room => room.id === channelId) || null;
+  }
+
+  /**
+   * Find a room by channel name (with or without the leading '#')
+   */
+  async findByName(client: any, name: string): Promise<Room | null> {
+    const normalized = name.replace(/^#/, '').toLowerCase();
+    for (const room of await this.listAllowed(client)) {
+      if (room.name.toLowerCase() === normalized) {
+        return room;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Add or rename a room, e.g. after the bot joined a channel
+   */
+  async add(client: any, channelId: string): Promise<Room | null> {
+    await this.ensureLoaded(client);
+    try {
+      const info = await client.conversations.info({ channel: channelId });
+      if (!info.channel || info.channel.is_archived) {
+        return null;
+      }
+      const room = { id: info.channel.id, name: info.channel.name };
+      this.rooms.set(room.id, room);
+      this.logger.info(`Room available: #${room.name}`);
+      return room;
+    } catch (error) {
+      this.logger.warn(`Couldn't load channel ${channelId} as a room:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Remove a room, e.g. after the bot left or was removed from a channel
+   */
+  remove(channelId: string) {
+    const room = this.rooms.get(channelId);
+    if (room) {
+      this.rooms.delete(channelId);
+      this.logger.info(`Room removed: #${room.name}`);
+    }
+  }
+
+  /**
+   * Get the bot's own user ID
+   */
+  async getBotUserId(client: any): Promise<string> {
+    if (!this.botUserId) {
+      const authResponse = await client.auth.test();
+      this.botUserId = authResponse.user_id as string;
+    }
+    return this.botUserId;
+  }
+
+  /**
+   * Reload the room list from Slack
+   */
+  async refresh(client: any): Promise<Room[]> {
+    this.loaded = null;
+    await this.ensureLoaded(client);
+    return this.list(client);
+  }
+
+  private async listAllowed(client: any): Promise<Room[]> {
+    await this.ensureLoaded(client);
+    const allowed = await this.getAllowedIds();
+    const rooms = [...this.rooms.values()];
+    return allowed.length > 0 ? rooms.filter(room => allowed.includes(room.id)) : rooms;
+  }
+
+  private ensureLoaded(client: any): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.load(client).catch(error => {
+        // Allow the next call to retry
+        this.loaded = null;
+        throw error;
+      });
+    }
+    return this.loaded;
+  }
+
+  private async load(client: any): Promise<void> {
+    const rooms = new Map<string, Room>();
+    let cursor: string | undefined;
+
+    do {
+      // Get page of channels
+      const channelsResponse = await client.conversations.list({
+        types: 'public_channel,private_channel',
+        exclude_archived: true,
+        limit: 200, // Maximum allowed by Slack API
+        cursor: cursor
+      });
+
+      for (const channel of channelsResponse.channels || []) {
+        if (channel.is_member) {
+          rooms.set(channel.id, { id: channel.id, name: channel.name });
+        }
+      }
+
+      // Get cursor for next page (if any)
+      cursor = channelsResponse.response_metadata?.next_cursor;
+    } while (cursor);
+
+    this.rooms = rooms;
+    if (rooms.size === 0) {
+      this.logger.warn("Bot is not a member of any channels. Please add the bot to a channel.");
+    } else {
+      this.logger.info(`Found ${rooms.size} rooms: ${[...rooms.values()].map(room => `#${room.name}`).join(', ')}`);
+    }
+  }
+}
+
+/**
+ * Parse a leading room selector ("#room" or Slack's "<#C123|room>") from a DM
+ * @returns The room reference (channel ID or name) and the remaining text
+ */
+export function parseRoomPrefix(text: string): { channelId?: string; name?: string; text: string } {
+  const mention = text.match(/^\s*<#([A-Z0-9]+)(?:\|([^>]*))?>\s*/);
+  if (mention) {
+    return { channelId: mention[1], name: mention[2] || undefined, text: text.slice(mention[0].length) };
+  }
+
+  const plain = text.match(/^\s*#([a-z0-9][a-z0-9_-]*)(?:\s+|$)/i);
+  if (plain) {
+    return { name: plain[1], text: text.slice(plain[0].length) };
+  }
+
+  return { text };
+}
@@ -0,0 +1,100 @@
+/**
+ * Relayed text sanitization
+ * The bot posts what senders write, so markup that would ping people goes out under the
+ * bot's name. Broadcasts are always neutralized, mentions can be written out as names,
+ * and text that looks like it gives the sender away is flagged so they can confirm.
+ */
+
+const MENTION_PATTERN = /<@([UW][A-Z0-9]+)(?:\|[^>]*)?>/g;
+
+// Closing phrases that usually come right before a name
+const SIGN_OFF_PATTERN = /^(?:thanks|thank you|many thanks|thx|cheers|regards|best|best regards|kind regards|warm regards|all the best|sincerely|yours|yours truly)[,.!]*$/i;
+
+/**
+ * What a sender might give away about themselves
+ */
+export interface SenderIdentity {
+  userId: string;
+  // Display name, full name, first name and username
+  names: string[];
+  email?: string;
+}
+
+/**
+ * Turn @channel, @here, @everyone and user group mentions into plain text that pings nobody
+ */
+export function neutralizeBroadcasts(text: string): string {
+  return text
+    .replace(/<!(here|channel|everyone)(?:\|[^>]*)?>/g, '@$1')
+    .replace(/<!subteam\^[A-Z0-9]+\|@?([^>]*)>/g, '@$1')
+    .replace(/<!subteam\^[A-Z0-9]+>/g, '@group');
+}
+
+/**
+ * Find the users mentioned in a text
+ */
+export function findMentionedUserIds(text: string): string[] {
+  return [...new Set([...text.matchAll(MENTION_PATTERN)].map(match => match[1]))];
+}
+
+/**
+ * Write user mentions out as plain names, so nobody is pinged through the bot
+ */
+export function renderMentionsAsNames(text: string, userNames: Record<string, string>): string {
+  return text.replace(MENTION_PATTERN, (_, id) => `@${userNames[id] || 'someone'}`);
+}
+
+/**
+ * Look for content that would likely tell readers who sent a message
+ * @returns Why the message looks identifying, empty if it doesn't
+ */
+export function findIdentifyingContent(text: string, sender: SenderIdentity): string[] {
+  const findings: string[] = [];
+
+  if (findMentionedUserIds(text).includes(sender.userId)) {
+    findings.push('it mentions you');
+  }
+
+  // Mentions are checked above, so they don't count as the name showing up
+  const plain = text.replace(MENTION_PATTERN, ' ');
+  const name = sender.names.find(candidate => candidate.length >= 3 && containsWord(plain, candidate));
+  if (name) {
+    findings.push(`it contains your name ("${name}")`);
+  }
+
+  if (sender.email && plain.toLowerCase().includes(sender.email.toLowerCase())) {
+    findings.push('it contains your email address');
+  }
+
+  if (hasSignature(plain)) {
+    findings.push('it ends with what looks like a signature');
+  }
+
+  return findings;
+}
+
+/**
+ * Whether the last lines of a text look like a sign-off, e.g. "-- Sam" or "Thanks,\nSam"
+ */
+function hasSignature(text: string): boolean {
+  const lines = text.split('\n').map(line => line.trim()).filter(Boolean);
+  const last = lines[lines.length - 1];
+  if (!last) {
+    return false;
+  }
+  if (/^(?:--|—|–|~)\s*[A-Z][\w.'-]*(?:\s+[A-Z][\w.'-]*){0,2}$/u.test(last)) {
+    return true;
+  }
+  if (lines.length >= 2 && SIGN_OFF_PATTERN.test(lines[lines.length - 2]) && last.split(/\s+/).length <= 3) {
+    return true;
+  }
+  return /\b(?:[Tt]hanks|[Cc]heers|[Rr]egards|[Bb]est)[,!]?\s+(?:--?|—|–)?\s*[A-Z][a-z]+\.?$/u.test(last);
+}
+
+/**
+ * Whether a text contains a phrase as a whole word, ignoring case
+ */
+function containsWord(text: string, phrase: string): boolean {
+  const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, 'iu').test(text);
+}
@@ -0,0 +1,175 @@
+/**
+ * Delayed delivery
+ * Anonymous messages can be held back for a random delay, so the moment a message
+ * shows up doesn't give away who was active. The queue is persisted to survive restarts.
+ */
+
+import crypto from 'crypto';
+import { JsonFile } from './persistence';
+
+/**
+ * A DM waiting to be relayed to a room
+ */
+export interface ScheduledDirectMessage {
+  kind: 'dm';
+  roomId: string;
+  text: string;
+  message: {
+    user: string;
+    channel: string;
+    ts: string;
+    thread_ts?: string;
+    files?: any[];
+  };
+}
+
+/**
+ * A '/54y send' message waiting to be posted to a channel
+ */
+export interface ScheduledChannelMessage {
+  kind: 'send';
+  channelId: string;
+  text: string;
+}
+
+export type ScheduledPayload = ScheduledDirectMessage | ScheduledChannelMessage;
+
+export interface ScheduledDelivery {
+  id: string;
+  userId: string;
+  dueAt: number;
+  payload: ScheduledPayload;
+  // Bot message in the sender's DM describing the pending delivery
+  notice?: { channel: string; ts: string };
+  createdAt: number;
+}
+
+/**
+ * Pick a random delay within a window
+ */
+export function getJitteredDelay(minMs: number, maxMs: number): number {
+  if (maxMs <= minMs) {
+    return minMs;
+  }
+  return minMs + crypto.randomInt(0, maxMs - minMs + 1);
+}
+
+/**
+ * Shuffle a list in place (Fisher-Yates) and return it
+ */
+export function shuffle<T>(items: T[]): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = crypto.randomInt(0, i + 1);
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
+
+export class DeliveryQueue {
+  private deliveries: Record<string, ScheduledDelivery> = {};
+  private readonly file: JsonFile<Record<string, ScheduledDelivery>>;
+
+  constructor(filePath: string) {
+    this.file = new JsonFile<Record<string, ScheduledDelivery>>(filePath, {}, data => {
+      this.deliveries = data;
+    }, () => this.deliveries);
+  }
+
+  /**
+   * Queue a delivery
+   */
+  async add(userId: string, dueAt: number, payload: ScheduledPayload): Promise<ScheduledDelivery> {
+    await this.file.load();
+    const delivery: ScheduledDelivery = {
+      id: crypto.randomBytes(6).toString('hex'),
+      userId,
+      dueAt,
+      payload,
+      createdAt: Date.now()
+    };
+    this.deliveries[delivery.id] = delivery;
+    await this.file.flush();
+    return delivery;
+  }
+
+  /**
+   * Change a pending delivery, if it still exists
+   */
+  async update(id: string, changes: Partial<Pick<ScheduledDelivery, 'dueAt' | 'notice' | 'payload'>>): Promise<ScheduledDelivery | null> {
+    await this.file.load();
+    const delivery = this.deliveries[id];
+    if (!delivery) {
+      return null;
+    }
+    Object.assign(delivery, changes);
+    await this.file.flush();
+    return delivery;
+  }
+
+  /**
+   * Get a pending delivery
+   */
+  async get(id: string): Promise<ScheduledDelivery | null> {
+    await this.file.load();
+    return this.deliveries[id] || null;
+  }
+
+  /**
+   * Find the pending delivery of a DM
+   */
+  async findByMessage(channel: string, ts: string): Promise<ScheduledDelivery | null> {
+    await this.file.load();
+    return Object.values(this.deliveries).find(delivery =>
+      delivery.payload.kind === 'dm'
+      && delivery.payload.message.channel === channel
+      && delivery.payload.message.ts === ts
+    ) || null;
+  }
+
+  /**
+   * List a sender's pending deliveries, soonest first
+   */
+  async listForUser(userId: string): Promise<ScheduledDelivery[]> {
+    await this.file.load();
+    return Object.values(this.deliveries)
+      .filter(delivery => delivery.userId === userId)
+      .sort((a, b) => a.dueAt - b.dueAt);
+  }
+
+  /**
+   * Remove a pending delivery
+   * @returns The removed delivery, or null if it was already sent or cancelled
+   */
+  async remove(id: string): Promise<ScheduledDelivery | null> {
+    await this.file.load();
+    const delivery = this.deliveries[id];
+    if (!delivery) {
+      return null;
+    }
+    delete this.deliveries[id];
+    await this.file.flush();
+    return delivery;
+  }
+
+  /**
+   * Take every delivery that is due, removing them from the queue
+   */
+  async takeDue(now: number = Date.now()): Promise<ScheduledDelivery[]> {
+    await this.file.load();
+    const due = Object.values(this.deliveries).filter(delivery => delivery.dueAt <= now);
+    if (due.length > 0) {
+      for (const delivery of due) {
+        delete this.deliveries[delivery.id];
+      }
+      await this.file.flush();
+    }
+    return due;
+  }
+
+  /**
+   * Finish the write in flight and stop writing, e.g. before the file is deleted
+   */
+  drain(): Promise<void> {
+    return this.file.drain();
+  }
+}
@@ -0,0 +1,420 @@
+/**
+ * Runtime settings
+ * What workspace admins can change with '/54y admin' without a restart: the rooms,
+ * moderation rules, rate limits, feature toggles, admins and escrow key. The configuration provides the
+ * defaults; changes are stored per workspace together with an audit log of who
+ * changed what.
+ */
+
+import { loadEscrowPublicKey } from './escrow';
+import { LinkPolicy, parseBlocklist, splitBlocklist } from './moderation';
+import { JsonFile } from './persistence';
+
+export interface RuntimeSettings {
+  // Channel IDs that are anonymous rooms; empty means every channel the bot is in
+  rooms: string[];
+  blocklist: string[];
+  links: LinkPolicy;
+  allowedDomains: string[];
+  // 0 means no limit
+  maxLength: number;
+  rateLimitPerMinute: number;
+  rateLimitPerHour: number;
+  rateLimitBurst: number;
+  polls: boolean;
+  qa: boolean;
+  // Whether rooms use pseudonyms unless configured otherwise
+  pseudonyms: boolean;
+  // Write user mentions in relayed text out as names instead of pinging them
+  plainMentions: boolean;
+  // Ask senders to confirm messages that look like they identify them
+  identityCheck: boolean;
+  // Whether DMs are previewed before going out, unless a member changed it with '/54y preview'
+  preview: boolean;
+  // Users who may run '/54y admin', on top of workspace admins and owners
+  admins: string[];
+  // Users who review held messages and receive reports
+  moderationAdmins: string[];
+  // Users who request and approve reveals; empty means the moderation admins
+  escrowAdmins: string[];
+  // Escrow public key; empty turns sender escrow off
+  escrowKey: string;
+}
+
+export type SettingValue = RuntimeSettings[keyof RuntimeSettings];
+
+export type ParseResult<T> = { value: T } | { error: string };
+
+/**
+ * A setting as it can be configured and changed
+ */
+export interface SettingDefinition<K extends keyof RuntimeSettings = keyof RuntimeSettings> {
+  key: K;
+  // Name used with '/54y admin set'
+  name: string;
+  // Where the default comes from
+  env: string;
+  path: string;
+  description: string;
+  parse(value: unknown): ParseResult<RuntimeSettings[K]>;
+}
+
+// One of the settings, with its parser matching its key
+type AnySettingDefinition = { [K in keyof RuntimeSettings]: SettingDefinition<K> }[keyof RuntimeSettings];
+
+export interface SettingsAuditEntry {
+  userId: string;
+  setting: string;
+  // New value, or null when the setting was reset to its default
+  value: SettingValue | null;
+  at: number;
+}
+
+/**
+ * Parse a toggle given as a boolean or as on/off, true/false, yes/no
+ */
+export function parseBooleanValue(value: unknown): ParseResult<boolean> {
+  if (typeof value === 'boolean') {
+    return { value };
+  }
+  const normalized = String(value).trim().toLowerCase();
+  if (['on', 'true', 'yes', '1'].includes(normalized)) {
+    return { value: true };
+  }
+  if (['off', 'false', 'no', '0'].includes(normalized)) {
+    return { value: false };
+  }
+  return { error: 'must be on or off' };
+}
+
+/**
+ * Parse a whole number of at least `min`
+ */
+export function parseNumberValue(value: unknown, min: number = 0): ParseResult<number> {
+  const number = typeof value === 'number' ? value : Number(String(value).trim());
+  if (String(value).trim() === '' || !Number.isInteger(number) || number < min) {
+    return { error: `must be a whole number of at least ${min}` };
+  }
+  return { value: number };
+}
+
+/**
+ * Parse a list given as an array or as comma-separated text
+ */
+export function parseListValue(value: unknown): ParseResult<string[]> {
+  const entries = Array.isArray(value) ? value.map(String) : String(value).split(',');
+  return { value: entries.map(entry => entry.trim()).filter(Boolean) };
+}
+
+/**
+ * Parse one of a fixed set of values
+ */
+export function parseEnumValue<T extends string>(value: unknown, values: readonly T[]): ParseResult<T> {
+  const normalized = String(value).trim().toLowerCase();
+  return values.includes(normalized as T)
+    ? { value: normalized as T }
+    : { error: `must be one of ${values.join(', ')}` };
+}
+
+/**
+ * Parse user IDs or mentions, separated by commas or spaces
+ */
+export function parseUserListValue(value: unknown): ParseResult<string[]> {
+  const entries = Array.isArray(value) ? value.map(String) : String(value).split(/[\s,]+/);
+  const ids = entries.map(entry => entry.trim().replace(/^<@([A-Z0-9]+)(\|[^>]*)?>$/, '$1')).filter(Boolean);
+  if (ids.some(id => !/^[UW][A-Z0-9]+$/.test(id))) {
+    return { error: 'must be user IDs or mentions' };
+  }
+  return { value: ids };
+}
+
+export const SETTING_DEFINITIONS: AnySettingDefinition[] = [
+  {
+    key: 'rooms',
+    name: 'rooms',
+    env: 'ROOMS',
+    path: 'rooms',
+    description: 'Channels that are anonymous rooms; empty means every channel the bot is in',
+    parse: value => {
+      const list = parseListValue(value);
+      if ('value' in list && list.value.some(id => !/^[CG][A-Z0-9]+$/.test(id))) {
+        return { error: 'must be channel IDs' };
+      }
+      return list;
+    }
+  },
+  {
+    key: 'blocklist',
+    name: 'blocklist',
+    env: 'MODERATION_BLOCKLIST',
+    path: 'moderation.blocklist',
+    description: 'Blocked words; entries like /pattern/i are regular expressions',
+    parse: value => {
+      // Regular expressions may contain commas, so text is split around them
+      const entries = Array.isArray(value) ? value.map(String) : splitBlocklist(String(value));
+      try {
+        parseBlocklist(entries);
+      } catch (error: unknown) {
+        return { error: `has an invalid regular expression: ${error instanceof Error ? error.message : String(error)}` };
+      }
+      return { value: entries.map(entry => entry.trim()).filter(Boolean) };
+    }
+  },
+  {
+    key: 'links',
+    name: 'links',
+    env: 'MODERATION_LINKS',
+    path: 'moderation.links',
+    description: 'Whether messages may contain links: allow, block, or allowlist',
+    parse: value => parseEnumValue<LinkPolicy>(value, ['allow', 'block', 'allowlist'])
+  },
+  {
+    key: 'allowedDomains',
+    name: 'allowed-domains',
+    env: 'MODERATION_ALLOWED_DOMAINS',
+    path: 'moderation.allowedDomains',
+    description: 'Domains links may point to when links are set to allowlist',
+    parse: value => {
+      const list = parseListValue(value);
+      return 'value' in list ? { value: list.value.map(domain => domain.toLowerCase()) } : list;
+    }
+  },
+  {
+    key: 'maxLength',
+    name: 'max-length',
+    env: 'MODERATION_MAX_LENGTH',
+    path: 'moderation.maxLength',
+    description: 'Longest message in characters; 0 means no limit',
+    parse: value => parseNumberValue(value, 0)
+  },
+  {
+    key: 'rateLimitPerMinute',
+    name: 'rate-per-minute',
+    env: 'RATE_LIMIT_PER_MINUTE',
+    path: 'rateLimit.perMinute',
+    description: 'Anonymous messages one person can send per minute, 0 for no limit',
+    parse: value => parseNumberValue(value, 0)
+  },
+  {
+    key: 'rateLimitPerHour',
+    name: 'rate-per-hour',
+    env: 'RATE_LIMIT_PER_HOUR',
+    path: 'rateLimit.perHour',
+    description: 'Anonymous messages one person can send per hour, 0 for no limit',
+    parse: value => parseNumberValue(value, 0)
+  },
+  {
+    key: 'rateLimitBurst',
+    name: 'rate-burst',
+    env: 'RATE_LIMIT_BURST',
+    path: 'rateLimit.burst',
+    description: 'Messages that can be sent back to back before the per-minute rate applies',
+    parse: value => parseNumberValue(value, 1)
+  },
+  {
+    key: 'polls',
+    name: 'polls',
+    env: 'FEATURE_POLLS',
+    path: 'features.polls',
+    description: 'Whether anonymous polls can be started',
+    parse: parseBooleanValue
+  },
+  {
+    key: 'qa',
+    name: 'qa',
+    env: 'FEATURE_QA',
+    path: 'features.qa',
+    description: 'Whether Q&A sessions can be started',
+    parse: parseBooleanValue
+  },
+  {
+    key: 'pseudonyms',
+    name: 'pseudonyms',
+    env: 'PSEUDONYMS_DEFAULT',
+    path: 'features.pseudonyms',
+    description: `Whether rooms use pseudonyms unless set per room with '/54y pseudonyms'`,
+    parse: parseBooleanValue
+  },
+  {
+    key: 'plainMentions',
+    name: 'plain-mentions',
+    env: 'SANITIZE_PLAIN_MENTIONS',
+    path: 'sanitize.plainMentions',
+    description: 'Whether user mentions in anonymous messages are written out as names, so nobody is pinged',
+    parse: parseBooleanValue
+  },
+  {
+    key: 'identityCheck',
+    name: 'identity-check',
+    env: 'SANITIZE_IDENTITY_CHECK',
+    path: 'sanitize.identityCheck',
+    description: 'Whether senders confirm messages that mention them, contain their name or end with a signature',
+    parse: parseBooleanValue
+  },
+  {
+    key: 'preview',
+    name: 'preview',
+    env: 'PREVIEW_DEFAULT',
+    path: 'features.preview',
+    description: `Whether DMs are previewed with Send and Cancel buttons, unless a member changed it with '/54y preview'`,
+    parse: parseBooleanValue
+  },
+  {
+    key: 'admins',
+    name: 'admins',
+    env: 'ADMINS',
+    path: 'admins',
+    description: `Users who may use '/54y admin' besides workspace admins and owners`,
+    parse: parseUserListValue
+  },
+  {
+    key: 'moderationAdmins',
+    name: 'moderation-admins',
+    env: 'MODERATION_ADMINS',
+    path: 'moderation.admins',
+    description: 'Users who review held messages and receive reports; without any, messages that break the rules are rejected',
+    parse: parseUserListValue
+  },
+  {
+    key: 'escrowAdmins',
+    name: 'escrow-admins',
+    env: 'ESCROW_ADMINS',
+    path: 'escrow.admins',
+    description: 'Users who request and approve reveals; empty means the moderation admins',
+    parse: parseUserListValue
+  },
+  {
+    key: 'escrowKey',
+    name: 'escrow-key',
+    env: 'ESCROW_PUBLIC_KEY',
+    path: 'escrow.publicKey',
+    description: `Public key from 'npm run escrow-keygen' that turns on sender escrow; reset it to turn escrow off`,
+    parse: value => {
+      const key = String(value).trim();
+      try {
+        loadEscrowPublicKey(key);
+      } catch (error: unknown) {
+        return { error: `is not a valid escrow key: ${error instanceof Error ? error.message : String(error)}` };
+      }
+      return { value: key };
+    }
+  }
+];
+
+export const DEFAULT_RUNTIME_SETTINGS: RuntimeSettings = {
+  rooms: [],
+  blocklist: [],
+  links: 'allow',
+  allowedDomains: [],
+  maxLength: 0,
+  rateLimitPerMinute: 5,
+  rateLimitPerHour: 30,
+  rateLimitBurst: 3,
+  polls: true,
+  qa: true,
+  pseudonyms: false,
+  plainMentions: false,
+  identityCheck: true,
+  preview: true,
+  admins: [],
+  moderationAdmins: [],
+  escrowAdmins: [],
+  escrowKey: ''
+};
+
+/**
+ * Find a setting by the name used in '/54y admin set'
+ */
+export function findSetting(name: string): SettingDefinition | undefined {
+  return SETTING_DEFINITIONS.find(definition => definition.name === name.toLowerCase());
+}
+
+/**
+ * Users who request and approve reveals: the escrow admins, or else the moderation admins
+ */
+export function getEscrowAdmins(settings: RuntimeSettings): string[] {
+  return settings.escrowAdmins.length > 0 ? settings.escrowAdmins : settings.moderationAdmins;
+}
+
+/**
+ * Format a setting's value for admins
+ */
+export function formatSettingValue(value: SettingValue | null): string {
+  if (value === null) {
+    return 'the default';
+  }
+  if (Array.isArray(value)) {
+    return value.length > 0 ? value.join(', ') : '(none)';
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'on' : 'off';
+  }
+  return String(value);
+}
+
+interface SettingsData {
+  overrides: Partial<RuntimeSettings>;
+  audit: SettingsAuditEntry[];
+}
+
+export class SettingsStore {
+  private data: SettingsData = { overrides: {}, audit: [] };
+  private readonly file: JsonFile<SettingsData>;
+
+  constructor(filePath: string, private readonly defaults: RuntimeSettings) {
+    this.file = new JsonFile<SettingsData>(filePath, { overrides: {}, audit: [] }, data => {
+      this.data = data;
+    }, () => this.data);
+  }
+
+  /**
+   * Get the settings in effect: the defaults with any changes applied
+   */
+  async get(): Promise<RuntimeSettings> {
+    await this.file.load();
+    return { ...this.defaults, ...this.data.overrides };
+  }
+
+  /**
+   * Whether a setting was changed from its default
+   */
+  async isOverridden(key: keyof RuntimeSettings): Promise<boolean> {
+    await this.file.load();
+    return key in this.data.overrides;
+  }
+
+  /**
+   * Change a setting and record who did it
+   */
+  async set(key: keyof RuntimeSettings, value: SettingValue, userId: string): Promise<void> {
+    await this.file.load();
+    this.data.overrides = { ...this.data.overrides, [key]: value };
+    this.data.audit.push({ userId, setting: key, value, at: Date.now() });
+    await this.file.flush();
+  }
+
+  /**
+   * Put a setting back to its default and record who did it
+   */
+  async reset(key: keyof RuntimeSettings, userId: string): Promise<void> {
+    await this.file.load();
+    delete this.data.overrides[key];
+    this.data.audit.push({ userId, setting: key, value: null, at: Date.now() });
+    await this.file.flush();
+  }
+
+  /**
+   * Get the most recent changes, newest first
+   */
+  async getAudit(limit: number): Promise<SettingsAuditEntry[]> {
+    await this.file.load();
+    return this.data.audit.slice(-limit).reverse();
+  }
+
+  /**
+   * Finish the write in flight and stop writing, e.g. before the file is deleted
+   */
+  drain(): Promise<void> {
+    return this.file.drain();
+  }
+}
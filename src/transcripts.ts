@@ -0,0 +1,215 @@
+/**
+ * Conversation transcripts
+ * A content log of what was relayed in each conversation, kept so a conversation can be
+ * exported after its threads are gone. Entries only hold the label a message was shown
+ * with, never who sent it.
+ */
+
+import crypto from 'crypto';
+import { JsonFile } from './persistence';
+
+export type TranscriptFormat = 'markdown' | 'json';
+
+/**
+ * One relayed message as it was shown to the room
+ */
+export interface TranscriptEntry {
+  id: string;
+  // "Anonymous", a pseudonym, or "Channel member" for replies in a mirrored channel
+  label: string;
+  text: string;
+  isReply: boolean;
+  // Attachments aren't logged, only how many there were
+  attachments: number;
+  sentAt: number;
+  editedAt?: number;
+}
+
+/**
+ * The log of one conversation, kept under its conversation code
+ */
+export interface Transcript {
+  roomId?: string;
+  entries: TranscriptEntry[];
+  // Keyed hashes of everyone who took part, who may export it even after the conversation is gone
+  participants?: string[];
+  updatedAt: number;
+}
+
+export class TranscriptStore {
+  private transcripts: Record<string, Transcript> = {};
+  private readonly file: JsonFile<Record<string, Transcript>>;
+
+  constructor(filePath: string) {
+    this.file = new JsonFile<Record<string, Transcript>>(filePath, {}, data => {
+      this.transcripts = data;
+    }, () => this.transcripts);
+  }
+
+  /**
+   * Add a message to a conversation's log
+   * @param participantKeys Keyed hashes of the message's sender and recipients
+   * @returns The entry's ID, used to apply edits and deletions
+   */
+  async append(code: string, roomId: string | null, entry: Omit<TranscriptEntry, 'id'>, participantKeys: string[] = []): Promise<string> {
+    await this.file.load();
+    const transcript = this.transcripts[code] || { entries: [], updatedAt: entry.sentAt };
+    if (roomId) {
+      transcript.roomId = roomId;
+    }
+    // Sorted, so the order people joined in doesn't point at who started the conversation
+    transcript.participants = [...new Set([...(transcript.participants || []), ...participantKeys])].sort();
+    const id = crypto.randomBytes(6).toString('hex');
+    transcript.entries.push({ id, ...entry });
+    transcript.updatedAt = entry.sentAt;
+    this.transcripts[code] = transcript;
+    await this.file.flush();
+    return id;
+  }
+
+  /**
+   * Replace the text of a message after its sender edited it
+   */
+  async update(code: string, id: string, text: string, attachments: number): Promise<void> {
+    await this.file.load();
+    const entry = this.transcripts[code]?.entries.find(candidate => candidate.id === id);
+    if (!entry) {
+      return;
+    }
+    entry.text = text;
+    entry.attachments = attachments;
+    entry.editedAt = Date.now();
+    await this.file.flush();
+  }
+
+  /**
+   * Drop a message after its sender deleted it
+   */
+  async remove(code: string, id: string): Promise<void> {
+    await this.file.load();
+    const transcript = this.transcripts[code];
+    if (!transcript) {
+      return;
+    }
+    transcript.entries = transcript.entries.filter(entry => entry.id !== id);
+    if (transcript.entries.length === 0) {
+      delete this.transcripts[code];
+    }
+    await this.file.flush();
+  }
+
+  /**
+   * Get a conversation's log, oldest message first
+   */
+  async get(code: string): Promise<Transcript | null> {
+    await this.file.load();
+    const transcript = this.transcripts[code];
+    return transcript
+      ? { ...transcript, entries: [...transcript.entries].sort((a, b) => a.sentAt - b.sentAt) }
+      : null;
+  }
+
+  /**
+   * Forget the logs of conversations without messages for longer than the given age
+   * @returns The number of logs removed
+   */
+  async pruneOlderThan(maxAgeMs: number, now: number = Date.now()): Promise<number> {
+    await this.file.load();
+    let removed = 0;
+    for (const [code, transcript] of Object.entries(this.transcripts)) {
+      if (transcript.updatedAt < now - maxAgeMs) {
+        delete this.transcripts[code];
+        removed++;
+      }
+    }
+    if (removed > 0) {
+      await this.file.flush();
+    }
+    return removed;
+  }
+
+  /**
+   * Finish the write in flight and stop writing, e.g. before the file is deleted
+   */
+  drain(): Promise<void> {
+    return this.file.drain();
+  }
+}
+
+/**
+ * Find the users mentioned in a transcript, so their names can be looked up
+ */
+export function getMentionedUserIds(transcript: Transcript): string[] {
+  const ids = new Set<string>();
+  for (const entry of transcript.entries) {
+    for (const match of entry.text.matchAll(/<@([UW][A-Z0-9]+)(?:\|[^>]*)?>/g)) {
+      ids.add(match[1]);
+    }
+  }
+  return [...ids];
+}
+
+/**
+ * Turn Slack markup into plain text, with mentions shown by name instead of user ID
+ */
+export function toPlainText(text: string, userNames: Record<string, string>): string {
+  return text
+    .replace(/<@([UW][A-Z0-9]+)(?:\|[^>]*)?>/g, (_, id) => `@${userNames[id] || 'someone'}`)
+    .replace(/<#[CG][A-Z0-9]+\|([^>]*)>/g, '#$1')
+    .replace(/<#[CG][A-Z0-9]+>/g, '#channel')
+    .replace(/<!(here|channel|everyone)(?:\|[^>]*)?>/g, '@$1')
+    .replace(/<!subteam\^[A-Z0-9]+\|([^>]*)>/g, '$1')
+    .replace(/<((?:https?|mailto):[^|>]+)\|([^>]*)>/g, '$2 ($1)')
+    .replace(/<((?:https?|mailto):[^>]+)>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Render a transcript for export
+ * @param details What the export is of: the conversation code and, if still known, its room name
+ */
+export function formatTranscript(
+  transcript: Transcript,
+  format: TranscriptFormat,
+  details: { code: string; roomName?: string; exportedAt: number },
+  userNames: Record<string, string>
+): string {
+  const messages = transcript.entries.map(entry => ({
+    label: entry.label,
+    text: toPlainText(entry.text, userNames),
+    reply: entry.isReply,
+    attachments: entry.attachments,
+    sentAt: new Date(entry.sentAt).toISOString(),
+    editedAt: entry.editedAt ? new Date(entry.editedAt).toISOString() : undefined
+  }));
+
+  if (format === 'json') {
+    return JSON.stringify({
+      conversation: details.code,
+      room: details.roomName,
+      exportedAt: new Date(details.exportedAt).toISOString(),
+      messages
+    }, null, 2);
+  }
+
+  const lines = [
+    `# Anonymous conversation ${details.code}`,
+    '',
+    [details.roomName ? `Room: #${details.roomName}` : null, `Exported ${formatTime(details.exportedAt)}`].filter(Boolean).join(' · ')
+  ];
+  transcript.entries.forEach((entry, index) => {
+    const message = messages[index];
+    const heading = `**${message.label}**${message.reply ? '' : ' (original post)'} · ${formatTime(entry.sentAt)}${entry.editedAt ? ' (edited)' : ''}`;
+    lines.push('', '---', '', heading, '', message.text || '_No text_');
+    if (message.attachments > 0) {
+      lines.push('', `_${message.attachments} attachment${message.attachments === 1 ? '' : 's'} not included_`);
+    }
+  });
+  return `${lines.join('\n')}\n`;
+}
+
+function formatTime(timestamp: number): string {
+  return `${new Date(timestamp).toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
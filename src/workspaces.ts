@@ -0,0 +1,60 @@
+/**
+ * Workspace scoping
+ * Every workspace the bot serves gets its own stores and caches. While an event is
+ * handled, its workspace is kept in async context, so code deep in a handler reaches
+ * that workspace's state and never another's.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+export class WorkspaceRegistry<T> {
+  private workspaces = new Map<string, T>();
+  private readonly context = new AsyncLocalStorage<T>();
+
+  constructor(private readonly create: (workspaceId: string) => T) {}
+
+  /**
+   * Get a workspace's state, creating it on first use
+   */
+  get(workspaceId: string): T {
+    let workspace = this.workspaces.get(workspaceId);
+    if (!workspace) {
+      workspace = this.create(workspaceId);
+      this.workspaces.set(workspaceId, workspace);
+    }
+    return workspace;
+  }
+
+  /**
+   * Whether a workspace's state was set up since the process started
+   */
+  has(workspaceId: string): boolean {
+    return this.workspaces.has(workspaceId);
+  }
+
+  /**
+   * Run a task with a workspace as the current one
+   */
+  run<R>(workspaceId: string, task: () => Promise<R>): Promise<R> {
+    return this.context.run(this.get(workspaceId), task);
+  }
+
+  /**
+   * The workspace of the event being handled
+   * @throws If called outside of run()
+   */
+  current(): T {
+    const workspace = this.context.getStore();
+    if (!workspace) {
+      throw new Error('No workspace is active; workspace state can only be used while handling an event');
+    }
+    return workspace;
+  }
+
+  /**
+   * Drop a workspace's state, e.g. after the app was uninstalled from it
+   */
+  forget(workspaceId: string): void {
+    this.workspaces.delete(workspaceId);
+  }
+}
@@ -2,39 +2,176 @@
  * Zero-width character encoding utility
  * These functions convert between numbers and invisible zero-width characters
  * that can be included in messages without being visible to users.
+ *
+ * Framed values (used for conversation IDs) look like:
+ *   START + version (4 bits) + value bits + checksum (8 bits) + END
+ * so they can be found anywhere in a message and validated before use.
  */
 
 // Zero-width characters for encoding
 export const ZERO_WIDTH_SPACE = '\u200B';         // Used for "1" bit
 export const ZERO_WIDTH_NON_JOINER = '\u200C';    // Used for "0" bit
+export const ZERO_WIDTH_JOINER = '\u200D';        // Marks the start of a framed value
+export const WORD_JOINER = '\u2060';              // Marks the end of a framed value
+
+// Version of the framed format, bump when the layout changes
+export const ZERO_WIDTH_CODEC_VERSION = 1;
+
+const VERSION_BITS = 4;
+const CHECKSUM_BITS = 8;
+// Slack timestamps always have six digits after the period
+const TS_FRACTION_DIGITS = 6;
+const TS_PATTERN = new RegExp(`^(?:0|[1-9]\\d*)\\.\\d{${TS_FRACTION_DIGITS}}$`);
+
+const FRAMED_PATTERN = new RegExp(
+    `${ZERO_WIDTH_JOINER}([${ZERO_WIDTH_SPACE}${ZERO_WIDTH_NON_JOINER}]+)${WORD_JOINER}`,
+    'g'
+);
+
+/**
+ * Encode a bit string into zero-width characters
+ */
+function bitsToZeroWidth(bits: string): string {
+    return bits.split("").map(bit => bit === "1" ? ZERO_WIDTH_SPACE : ZERO_WIDTH_NON_JOINER).join("");
+}
+
+/**
+ * Decode zero-width characters into a bit string
+ * @throws If the string contains anything other than the two bit characters
+ */
+function zeroWidthToBits(encoded: string): string {
+    return encoded.split("").map(char => {
+        if (char === ZERO_WIDTH_SPACE) {
+            return "1";
+        }
+        if (char === ZERO_WIDTH_NON_JOINER) {
+            return "0";
+        }
+        throw new Error(`Unexpected character U+${char.charCodeAt(0).toString(16).toUpperCase().padStart(4, '0')} in zero-width value`);
+    }).join("");
+}
+
+/**
+ * CRC-8 (polynomial 0x07) over the bytes of a value and the codec version
+ */
+function checksum(value: bigint, version: number): number {
+    let hex = value.toString(16);
+    if (hex.length % 2 === 1) {
+        hex = `0${hex}`;
+    }
+
+    let crc = 0;
+    const bytes = [version, ...(hex.match(/../g) || []).map(byte => parseInt(byte, 16))];
+    for (const byte of bytes) {
+        crc ^= byte;
+        for (let i = 0; i < 8; i++) {
+            crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+        }
+    }
+    return crc;
+}
 
 /**
  * Encode a number into zero-width characters
- * @param num The number to encode
+ * @param num The number to encode (use a bigint for values above Number.MAX_SAFE_INTEGER)
  * @returns A string of zero-width characters representing the number
  */
-export function encodeNumberToZeroWidth(num: number): string {
-    const binary = num.toString(2);
-    return binary.split("").map(bit => bit === "1" ? ZERO_WIDTH_SPACE : ZERO_WIDTH_NON_JOINER).join("");
+export function encodeNumberToZeroWidth(num: number | bigint): string {
+    return bitsToZeroWidth(BigInt(num).toString(2));
 }
 
 /**
  * Decode a string of zero-width characters back into a number
  * @param encoded The encoded string of zero-width characters
  * @returns The decoded number
+ * @throws If the string isn't made of zero-width bit characters only
+ */
+export function decodeNumberFromZeroWidth(encoded: string): bigint {
+    if (encoded.length === 0) {
+        throw new Error('Empty zero-width value');
+    }
+    return BigInt(`0b${zeroWidthToBits(encoded)}`);
+}
+
+/**
+ * Encode a number as a framed, versioned and checksummed zero-width value
+ */
+export function encodeFramedZeroWidth(value: bigint): string {
+    const bits = ZERO_WIDTH_CODEC_VERSION.toString(2).padStart(VERSION_BITS, '0')
+        + value.toString(2)
+        + checksum(value, ZERO_WIDTH_CODEC_VERSION).toString(2).padStart(CHECKSUM_BITS, '0');
+    return `${ZERO_WIDTH_JOINER}${bitsToZeroWidth(bits)}${WORD_JOINER}`;
+}
+
+/**
+ * Decode a framed zero-width value
+ * @returns The value, or null if the framing, version or checksum don't match
+ */
+export function decodeFramedZeroWidth(encoded: string): bigint | null {
+    if (!encoded.startsWith(ZERO_WIDTH_JOINER) || !encoded.endsWith(WORD_JOINER)) {
+        return null;
+    }
+
+    let bits: string;
+    try {
+        bits = zeroWidthToBits(encoded.slice(ZERO_WIDTH_JOINER.length, -WORD_JOINER.length));
+    } catch {
+        return null;
+    }
+    if (bits.length <= VERSION_BITS + CHECKSUM_BITS) {
+        return null;
+    }
+
+    const version = parseInt(bits.slice(0, VERSION_BITS), 2);
+    if (version !== ZERO_WIDTH_CODEC_VERSION) {
+        return null;
+    }
+
+    const value = BigInt(`0b${bits.slice(VERSION_BITS, -CHECKSUM_BITS)}`);
+    const expected = parseInt(bits.slice(-CHECKSUM_BITS), 2);
+    return checksum(value, version) === expected ? value : null;
+}
+
+/**
+ * Find every valid framed zero-width value in a piece of text
+ * Fragments with broken framing or a bad checksum (e.g. from copied and trimmed text) are skipped.
+ * @returns The framed values as they appear in the text
  */
-export function decodeNumberFromZeroWidth(encoded: string): number {
-    const binary = encoded.split("").map(char => char === ZERO_WIDTH_SPACE ? "1" : "0").join("");
-    return parseInt(binary, 2);
+export function findFramedZeroWidth(text: string): string[] {
+    const found: string[] = [];
+    for (const match of text.matchAll(FRAMED_PATTERN)) {
+        if (decodeFramedZeroWidth(match[0]) !== null) {
+            found.push(match[0]);
+        }
+    }
+    return found;
 }
 
 /**
  * Encodes a timestamp (like Slack's ts) into a zero-width representation
  * @param ts The timestamp string (e.g. "1647531461.000100")
- * @returns A string of zero-width characters representing the timestamp
+ * @returns A framed string of zero-width characters representing the timestamp
+ * @throws If the timestamp isn't in Slack's form, six digits after the period
  */
 export function encodeTimestampToZeroWidth(ts: string): string {
-    // Remove the period and convert to a number
-    const tsAsNumber = parseInt(ts.replace('.', ''), 10);
-    return encodeNumberToZeroWidth(tsAsNumber);
+    // Anything else couldn't be restored exactly, since the period is put back six digits from the end
+    if (!TS_PATTERN.test(ts)) {
+        throw new Error(`Invalid timestamp: ${ts}`);
+    }
+    return encodeFramedZeroWidth(BigInt(ts.replace('.', '')));
+}
+
+/**
+ * Decodes a framed zero-width representation back into a Slack timestamp
+ * @param encoded The framed zero-width string
+ * @returns The timestamp (e.g. "1647531461.000100"), or null if it isn't a valid value
+ */
+export function decodeTimestampFromZeroWidth(encoded: string): string | null {
+    const value = decodeFramedZeroWidth(encoded);
+    if (value === null) {
+        return null;
+    }
+
+    const digits = value.toString().padStart(TS_FRACTION_DIGITS + 1, '0');
+    return `${digits.slice(0, -TS_FRACTION_DIGITS)}.${digits.slice(-TS_FRACTION_DIGITS)}`;
 }
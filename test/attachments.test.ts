@@ -0,0 +1,218 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { checkAttachment, downloadFile, getAnonymousFilename, stripMetadata } from '../src/attachments';
+
+const SECRET = 'Jane Doe, 52.5200 N 13.4050 E';
+
+function jpegSegment(marker: number, payload: string): Buffer {
+  const data = Buffer.from(payload, 'latin1');
+  const header = Buffer.from([0xff, marker, 0, 0]);
+  header.writeUInt16BE(data.length + 2, 2);
+  return Buffer.concat([header, data]);
+}
+
+function pngChunk(type: string, payload: string): Buffer {
+  const data = Buffer.from(payload, 'latin1');
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  return Buffer.concat([length, Buffer.from(type, 'latin1'), data, Buffer.alloc(4)]);
+}
+
+function webpChunk(type: string, payload: Buffer): Buffer {
+  const size = Buffer.alloc(4);
+  size.writeUInt32LE(payload.length);
+  return Buffer.concat([Buffer.from(type, 'latin1'), size, payload, Buffer.alloc(payload.length % 2)]);
+}
+
+function riff(chunks: Buffer[]): Buffer {
+  const body = Buffer.concat(chunks);
+  const header = Buffer.alloc(12);
+  header.write('RIFF', 0, 'latin1');
+  header.writeUInt32LE(body.length + 4, 4);
+  header.write('WEBP', 8, 'latin1');
+  return Buffer.concat([header, body]);
+}
+
+function gifSubBlocks(payload: string): Buffer {
+  const data = Buffer.from(payload, 'latin1');
+  return Buffer.concat([Buffer.from([data.length]), data, Buffer.from([0])]);
+}
+
+function gifApplicationExtension(identifier: string, payload: string): Buffer {
+  return Buffer.concat([Buffer.from([0x21, 0xff, 11]), Buffer.from(identifier, 'latin1'), gifSubBlocks(payload)]);
+}
+
+describe('stripMetadata', () => {
+  it('drops EXIF, IPTC and comments from a JPEG and keeps the image', () => {
+    const jfif = jpegSegment(0xe0, 'JFIF\0\x01\x01\0\0\x01\0\x01\0\0');
+    const quantization = jpegSegment(0xdb, '\0'.repeat(65));
+    const scan = Buffer.concat([jpegSegment(0xda, '\x01\x01\0\0?\0'), Buffer.from([1, 2, 3, 0xff, 0xd9])]);
+    const jpeg = Buffer.concat([
+      Buffer.from([0xff, 0xd8]),
+      jfif,
+      jpegSegment(0xe1, `Exif\0\0${SECRET}`),
+      jpegSegment(0xe1, `http://ns.adobe.com/xap/1.0/\0<x:xmpmeta>${SECRET}</x:xmpmeta>`),
+      jpegSegment(0xed, `Photoshop 3.0\0${SECRET}`),
+      jpegSegment(0xfe, SECRET),
+      quantization,
+      scan
+    ]);
+
+    assert.deepEqual(stripMetadata(jpeg, 'image/jpeg'), Buffer.concat([Buffer.from([0xff, 0xd8]), jfif, quantization, scan]));
+  });
+
+  it('drops text, EXIF and time chunks from a PNG and keeps the image', () => {
+    const signature = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    const header = pngChunk('IHDR', '\0\0\0\x01\0\0\0\x01\x08\x02\0\0\0');
+    const image = pngChunk('IDAT', 'pixels');
+    const end = pngChunk('IEND', '');
+    const png = Buffer.concat([
+      signature,
+      header,
+      pngChunk('tEXt', `Author\0${SECRET}`),
+      pngChunk('iTXt', `XML:com.adobe.xmp\0\0\0\0\0${SECRET}`),
+      pngChunk('zTXt', `Comment\0\0${SECRET}`),
+      pngChunk('eXIf', SECRET),
+      pngChunk('tIME', '\x07\xe8\x01\x01\0\0\0'),
+      image,
+      end
+    ]);
+
+    assert.deepEqual(stripMetadata(png, 'image/png'), Buffer.concat([signature, header, image, end]));
+  });
+
+  it('drops EXIF and XMP from a WebP and clears their flags', () => {
+    const flags = Buffer.alloc(10);
+    flags[0] = 0x0c | 0x10;
+    const image = webpChunk('VP8L', Buffer.from('pixels!', 'latin1'));
+    const webp = riff([
+      webpChunk('VP8X', flags),
+      webpChunk('EXIF', Buffer.from(SECRET, 'latin1')),
+      webpChunk('XMP ', Buffer.from(`<x:xmpmeta>${SECRET}</x:xmpmeta>`, 'latin1')),
+      image
+    ]);
+
+    const cleared = Buffer.from(flags);
+    cleared[0] = 0x10;
+    const stripped = stripMetadata(webp, 'image/webp');
+    assert.deepEqual(stripped, riff([webpChunk('VP8X', cleared), image]));
+    assert.equal(stripped.readUInt32LE(4), stripped.length - 8);
+  });
+
+  it('drops comments and XMP from a GIF and keeps the loop count', () => {
+    const header = Buffer.concat([Buffer.from('GIF89a', 'latin1'), Buffer.from([1, 0, 1, 0, 0x80, 0, 0]), Buffer.alloc(6)]);
+    const loop = gifApplicationExtension('NETSCAPE2.0', '\x01\0\0');
+    const image = Buffer.concat([
+      Buffer.from([0x21, 0xf9]), gifSubBlocks('\0\0\0\0'),
+      Buffer.from([0x2c, 0, 0, 0, 0, 1, 0, 1, 0, 0, 2]), gifSubBlocks('\x02\x44\x01')
+    ]);
+    const gif = Buffer.concat([
+      header,
+      loop,
+      gifApplicationExtension('XMP DataXMP', `<x:xmpmeta>${SECRET}</x:xmpmeta>`),
+      Buffer.from([0x21, 0xfe]), gifSubBlocks(SECRET),
+      image,
+      Buffer.from([0x3b])
+    ]);
+
+    assert.deepEqual(stripMetadata(gif, 'image/gif'), Buffer.concat([header, loop, image, Buffer.from([0x3b])]));
+  });
+
+  it('leaves other file types alone', () => {
+    const text = Buffer.from(SECRET);
+    assert.equal(stripMetadata(text, 'text/plain'), text);
+  });
+
+  it('refuses files that aren\'t what they claim to be', () => {
+    for (const mimetype of ['image/jpeg', 'image/png', 'image/webp', 'image/gif']) {
+      assert.throws(() => stripMetadata(Buffer.from(SECRET), mimetype), /Not a valid/, mimetype);
+    }
+  });
+
+  it('refuses truncated images', () => {
+    const jpeg = Buffer.concat([Buffer.from([0xff, 0xd8]), jpegSegment(0xe0, 'JFIF\0')]);
+    assert.throws(() => stripMetadata(jpeg.subarray(0, jpeg.length - 2), 'image/jpeg'), /Corrupt JPEG/);
+  });
+});
+
+describe('checkAttachment', () => {
+  const policy = { maxBytes: 1024, allowedTypes: ['image/png'] };
+
+  it('accepts allowed types within the size limit', () => {
+    assert.equal(checkAttachment({ mimetype: 'IMAGE/PNG', size: 1024 }, policy), null);
+  });
+
+  it('rejects other types and large files', () => {
+    assert.equal(checkAttachment({ mimetype: 'application/pdf', pretty_type: 'PDF' }, policy), `PDF isn't allowed`);
+    assert.equal(checkAttachment({ mimetype: 'image/png', size: 1025 }, policy), 'larger than 1 KB');
+  });
+
+  it('names re-hosted files generically', () => {
+    assert.equal(getAnonymousFilename('image/png', 0), 'attachment-1.png');
+    assert.equal(getAnonymousFilename('application/x-unknown', 2), 'attachment-3.bin');
+  });
+});
+
+describe('downloadFile', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let bytesSent = 0;
+
+  before(async () => {
+    server = http.createServer((request, response) => {
+      if (request.headers.authorization !== 'Bearer xoxb-test') {
+        response.writeHead(403).end();
+        return;
+      }
+      if (request.url === '/small') {
+        response.end('hello');
+      } else if (request.url === '/announced') {
+        response.writeHead(200, { 'content-length': 2048 });
+        response.end(Buffer.alloc(2048));
+      } else if (request.url === '/streamed') {
+        // No content-length, so the size only shows while reading
+        response.writeHead(200);
+        const write = () => {
+          bytesSent += 256;
+          response.write(Buffer.alloc(256), () => {
+            if (bytesSent < 64 * 1024 && !response.destroyed) {
+              setTimeout(write, 1);
+            } else {
+              response.end();
+            }
+          });
+        };
+        write();
+      } else {
+        response.writeHead(404).end();
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  it('downloads files with the bot token', async () => {
+    assert.equal((await downloadFile(`${baseUrl}/small`, 'xoxb-test', 1024)).toString(), 'hello');
+  });
+
+  it('fails on HTTP errors', async () => {
+    await assert.rejects(downloadFile(`${baseUrl}/small`, 'wrong', 1024), /HTTP 403/);
+    await assert.rejects(downloadFile(`${baseUrl}/missing`, 'xoxb-test', 1024), /HTTP 404/);
+  });
+
+  it('rejects files announced as too large without reading them', async () => {
+    await assert.rejects(downloadFile(`${baseUrl}/announced`, 'xoxb-test', 1024), /larger than 1 KB/);
+  });
+
+  it('stops reading once a file turns out to be too large', async () => {
+    await assert.rejects(downloadFile(`${baseUrl}/streamed`, 'xoxb-test', 1024), /larger than 1 KB/);
+    assert.ok(bytesSent < 64 * 1024, `read ${bytesSent} bytes`);
+  });
+});
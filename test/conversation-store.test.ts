@@ -0,0 +1,59 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryConversationStore } from '../src/conversation-store';
+
+// Stands in for the keyed hash the app stores a conversation's starter under
+const starterKey = (conversationId: string, userId: string) => `starter:${conversationId}:${userId}`;
+const keysFor = (userId: string) => (conversationId: string) => [userId, starterKey(conversationId, userId)];
+
+describe('MemoryConversationStore', () => {
+  it('finds conversations by the thread of a member or of the starter', async () => {
+    const store = new MemoryConversationStore();
+    await store.setThreadTs('c1', starterKey('c1', 'U1'), '100.000001');
+    await store.setThreadTs('c1', 'U2', '100.000002');
+
+    assert.equal(await store.findConversationId('100.000001', keysFor('U1')), 'c1');
+    assert.equal(await store.findConversationId('100.000002', keysFor('U2')), 'c1');
+    assert.equal(await store.findConversationId('100.000001', keysFor('U2')), null);
+    assert.equal(await store.findConversationId('100.000003', keysFor('U1')), null);
+  });
+
+  it('tells conversations apart that have threads at the same time', async () => {
+    const store = new MemoryConversationStore();
+    await store.setThreadTs('c1', 'U1', '100.000001');
+    await store.setThreadTs('c2', 'U2', '100.000001');
+
+    assert.equal(await store.findConversationId('100.000001', keysFor('U1')), 'c1');
+    assert.equal(await store.findConversationId('100.000001', keysFor('U2')), 'c2');
+  });
+
+  it('stops finding a thread once it moved', async () => {
+    const store = new MemoryConversationStore();
+    await store.setThreadTs('c1', 'U1', '100.000001');
+    await store.setThreadTs('c1', 'U1', '100.000002');
+
+    assert.equal(await store.findConversationId('100.000001', keysFor('U1')), null);
+    assert.equal(await store.findConversationId('100.000002', keysFor('U1')), 'c1');
+  });
+
+  it('lists a member\'s conversations with the key their thread is under', async () => {
+    const store = new MemoryConversationStore();
+    await store.setThreadTs('c1', starterKey('c1', 'U1'), '100.000001');
+    await store.setThreadTs('c2', 'U1', '100.000002');
+    await store.setThreadTs('c3', 'U2', '100.000003');
+
+    const summaries = await store.listConversationsForUser(keysFor('U1'), 10);
+    assert.deepEqual(
+      summaries.map(summary => [summary.conversationId, summary.key, summary.threadTs]).sort(),
+      [['c1', starterKey('c1', 'U1'), '100.000001'], ['c2', 'U1', '100.000002']]
+    );
+  });
+
+  it('forgets the threads of pruned conversations', async () => {
+    const store = new MemoryConversationStore();
+    await store.setThreadTs('c1', 'U1', '100.000001');
+
+    assert.equal(await store.pruneIdle(-1), 1);
+    assert.equal(await store.findConversationId('100.000001', keysFor('U1')), null);
+  });
+});
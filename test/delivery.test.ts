@@ -0,0 +1,149 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Logger, LogLevel } from '@slack/logger';
+import { DeliveryEngine, isRetryableError } from '../src/delivery';
+
+const quietLogger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+  setLevel: () => {},
+  getLevel: () => LogLevel.ERROR,
+  setName: () => {}
+};
+
+function createEngine(maxRetries: number = 2): DeliveryEngine {
+  return new DeliveryEngine(quietLogger, { concurrency: 2, maxRetries, retryDelayMs: 1, userCacheTtlMs: 60 * 1000 });
+}
+
+// Client where the users listed are bots and everyone else has a DM channel named after them
+function createClient(bots: string[] = []) {
+  const calls = { usersInfo: 0, conversationsOpen: 0 };
+  const client = {
+    users: {
+      info: async ({ user }: { user: string }) => {
+        calls.usersInfo++;
+        return { user: { id: user, is_bot: bots.includes(user) } };
+      }
+    },
+    conversations: {
+      open: async ({ users }: { users: string }) => {
+        calls.conversationsOpen++;
+        return { channel: { id: `D-${users}` } };
+      }
+    }
+  };
+  return { client, calls };
+}
+
+function platformError(error: string) {
+  return Object.assign(new Error(error), { code: 'slack_webapi_platform_error', data: { error } });
+}
+
+function rateLimitedError(retryAfter: number) {
+  return Object.assign(new Error('ratelimited'), { code: 'slack_webapi_rate_limited_error', retryAfter });
+}
+
+describe('isRetryableError', () => {
+  it('retries rate limits, transient platform errors and server errors', () => {
+    assert.ok(isRetryableError(rateLimitedError(1)));
+    assert.ok(isRetryableError(platformError('internal_error')));
+    assert.ok(isRetryableError({ code: 'slack_webapi_request_error' }));
+    assert.ok(isRetryableError({ code: 'slack_webapi_http_error', statusCode: 503 }));
+  });
+
+  it('gives up on everything else', () => {
+    assert.ok(!isRetryableError(platformError('channel_not_found')));
+    assert.ok(!isRetryableError({ code: 'slack_webapi_http_error', statusCode: 404 }));
+    assert.ok(!isRetryableError(new Error('boom')));
+  });
+});
+
+describe('DeliveryEngine', () => {
+  it('delivers to every recipient and skips bots', async () => {
+    const { client } = createClient(['B1']);
+    const report = await createEngine().deliver(client, ['U1', 'B1', 'U2'], async (userId, channel) => `${channel}:ts`);
+
+    assert.deepEqual(report.results.map(result => [result.userId, result.status, result.channel]), [
+      ['U1', 'delivered', 'D-U1'],
+      ['B1', 'bot', undefined],
+      ['U2', 'delivered', 'D-U2']
+    ]);
+    assert.equal(report.results[0].ts, 'D-U1:ts');
+    assert.deepEqual({ delivered: report.delivered, failed: report.failed, bots: report.bots, eligible: report.eligible }, { delivered: 2, failed: 0, bots: 1, eligible: 2 });
+  });
+
+  it('retries transient errors and counts the attempts', async () => {
+    const { client } = createClient();
+    let calls = 0;
+    const report = await createEngine().deliver(client, ['U1'], async () => {
+      if (++calls < 3) {
+        throw platformError('internal_error');
+      }
+      return 'ts';
+    });
+
+    assert.equal(report.results[0].status, 'delivered');
+    assert.equal(report.results[0].attempts, 3);
+  });
+
+  it('reports recipients that still fail after the last retry', async () => {
+    const { client } = createClient();
+    const report = await createEngine(1).deliver(client, ['U1', 'U2'], async userId => {
+      if (userId === 'U1') {
+        throw platformError('service_unavailable');
+      }
+      return 'ts';
+    });
+
+    assert.deepEqual(report.results[0], { userId: 'U1', status: 'failed', error: 'service_unavailable', attempts: 2 });
+    assert.equal(report.delivered, 1);
+    assert.equal(report.failed, 1);
+    assert.equal(report.eligible, 2);
+  });
+
+  it('doesn\'t retry errors that won\'t go away', async () => {
+    const { client } = createClient();
+    const report = await createEngine().deliver(client, ['U1'], async () => {
+      throw platformError('user_disabled');
+    });
+
+    assert.equal(report.results[0].error, 'user_disabled');
+    assert.equal(report.results[0].attempts, 1);
+  });
+
+  it('waits as long as Retry-After asks', async () => {
+    let calls = 0;
+    const started = Date.now();
+    const result = await createEngine().withRetry(async () => {
+      if (++calls === 1) {
+        throw rateLimitedError(0.05);
+      }
+      return 'ok';
+    });
+
+    assert.equal(result, 'ok');
+    assert.ok(Date.now() - started >= 45, `retried after ${Date.now() - started}ms`);
+  });
+
+  it('caches bot checks and DM channels', async () => {
+    const { client, calls } = createClient();
+    const engine = createEngine();
+    await engine.deliver(client, ['U1'], async () => 'ts');
+    await engine.deliver(client, ['U1'], async () => 'ts');
+
+    assert.deepEqual(calls, { usersInfo: 1, conversationsOpen: 1 });
+  });
+
+  it('opens the DM channel again after it was not found', async () => {
+    const { client, calls } = createClient();
+    const engine = createEngine();
+    await engine.deliver(client, ['U1'], async () => {
+      throw platformError('channel_not_found');
+    });
+    await engine.deliver(client, ['U1'], async () => 'ts');
+
+    assert.equal(calls.conversationsOpen, 2);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  EscrowShare,
+  generateEscrowKey,
+  loadEscrowPublicKey,
+  openSealedSender,
+  parseShare,
+  recoverPrivateKey,
+  sealSender
+} from '../src/escrow';
+
+function setUp(shareCount: number, threshold: number) {
+  const { publicKey, shares } = generateEscrowKey(shareCount, threshold);
+  return {
+    publicKey: loadEscrowPublicKey(publicKey),
+    shares: shares.map(share => parseShare(share) as EscrowShare)
+  };
+}
+
+describe('sealing', () => {
+  const { publicKey, shares } = setUp(3, 2);
+  const privateKey = recoverPrivateKey(shares.slice(0, 2), publicKey);
+
+  it('opens what it sealed', () => {
+    const payload = { userId: 'U123', excerpt: 'Hello there' };
+    assert.deepEqual(openSealedSender(privateKey, sealSender(publicKey, payload)), payload);
+  });
+
+  it('seals the same sender differently every time', () => {
+    const payload = { userId: 'U123', excerpt: 'Hello there' };
+    assert.notEqual(sealSender(publicKey, payload).data, sealSender(publicKey, payload).data);
+  });
+
+  it('refuses tampered data', () => {
+    const sealed = sealSender(publicKey, { userId: 'U123', excerpt: 'Hello there' });
+    const data = Buffer.from(sealed.data, 'base64');
+    data[0] ^= 1;
+    assert.throws(() => openSealedSender(privateKey, { ...sealed, data: data.toString('base64') }));
+  });
+
+  it('refuses another key', () => {
+    const other = setUp(2, 2);
+    const otherKey = recoverPrivateKey(other.shares, other.publicKey);
+    const sealed = sealSender(publicKey, { userId: 'U123', excerpt: 'Hello there' });
+    assert.throws(() => openSealedSender(otherKey, sealed));
+  });
+});
+
+describe('key shares', () => {
+  it('rebuilds the key from any threshold-sized subset', () => {
+    const { publicKey, shares } = setUp(5, 3);
+    const sealed = sealSender(publicKey, { userId: 'U123', excerpt: 'Hello there' });
+    for (const subset of [[0, 1, 2], [0, 2, 4], [4, 3, 1], [1, 2, 3, 4]]) {
+      const privateKey = recoverPrivateKey(subset.map(index => shares[index]), publicKey);
+      assert.equal(openSealedSender(privateKey, sealed).userId, 'U123');
+    }
+  });
+
+  it('does not rebuild the key from fewer shares than the threshold', () => {
+    const { publicKey, shares } = setUp(5, 3);
+    assert.throws(() => recoverPrivateKey(shares.slice(0, 2), publicKey));
+  });
+
+  it('works with a threshold of one', () => {
+    const { publicKey, shares } = setUp(3, 1);
+    assert.doesNotThrow(() => recoverPrivateKey([shares[2]], publicKey));
+  });
+
+  it('rejects impossible thresholds', () => {
+    assert.throws(() => generateEscrowKey(3, 4));
+    assert.throws(() => generateEscrowKey(3, 0));
+    assert.throws(() => generateEscrowKey(256, 2));
+  });
+
+  it('parses shares as printed and rejects anything else', () => {
+    const { shares } = generateEscrowKey(2, 2);
+    const share = parseShare(` ${shares[1]}\n`);
+    assert.equal(share?.x, 2);
+    assert.equal(share?.threshold, 2);
+    assert.equal(parseShare('54y-escrow:0123456789abcdef:2:0:00'), null);
+    assert.equal(parseShare('not a share'), null);
+  });
+});
+
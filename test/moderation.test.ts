@@ -0,0 +1,104 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkMessage, findLinks, ModerationRules, parseBlocklist, splitBlocklist } from '../src/moderation';
+
+function rules(changes: Partial<ModerationRules> = {}): ModerationRules {
+  return { blocklist: [], links: 'allow', allowedDomains: [], maxLength: 0, ...changes };
+}
+
+describe('splitBlocklist', () => {
+  it('splits words around commas', () => {
+    assert.deepEqual(splitBlocklist(' foo, bar baz ,qux '), ['foo', 'bar baz', 'qux']);
+  });
+
+  it('keeps commas inside regular expressions', () => {
+    assert.deepEqual(splitBlocklist('foo, /a{1,3}b/i, bar'), ['foo', '/a{1,3}b/i', 'bar']);
+  });
+
+  it('keeps escaped slashes inside regular expressions', () => {
+    assert.deepEqual(splitBlocklist('/a\\/b,c/, d'), ['/a\\/b,c/', 'd']);
+  });
+
+  it('drops empty entries', () => {
+    assert.deepEqual(splitBlocklist(', foo,, ,'), ['foo']);
+    assert.deepEqual(splitBlocklist(''), []);
+  });
+});
+
+describe('parseBlocklist', () => {
+  it('matches words as whole words, ignoring case', () => {
+    const [pattern] = parseBlocklist(['darn']);
+    assert.ok(pattern.test('Well, DARN it'));
+    assert.ok(pattern.test('darn'));
+    assert.ok(!pattern.test('darning socks'));
+    assert.ok(!pattern.test('undarn'));
+  });
+
+  it('matches words with special characters literally', () => {
+    const [pattern] = parseBlocklist(['c++']);
+    assert.ok(pattern.test('I like c++ a lot'));
+    assert.ok(!pattern.test('I like c a lot'));
+  });
+
+  it('treats /pattern/flags as regular expressions', () => {
+    const [pattern] = parseBlocklist(['/fo+bar/i']);
+    assert.ok(pattern.test('FOOOBAR'));
+    assert.ok(!pattern.test('fbar'));
+  });
+
+  it('drops g and y, so the same text matches every time', () => {
+    const [pattern] = parseBlocklist(['/secret/giy']);
+    assert.equal(pattern.flags, 'i');
+    for (let i = 0; i < 3; i++) {
+      assert.ok(pattern.test('the secret word'));
+    }
+  });
+
+  it('throws on invalid regular expressions', () => {
+    assert.throws(() => parseBlocklist(['/a(b/']));
+  });
+});
+
+describe('findLinks', () => {
+  it('finds Slack-formatted and bare links', () => {
+    assert.deepEqual(
+      findLinks('See <https://example.com/a|example> and http://other.org/b or nothing'),
+      ['https://example.com/a', 'http://other.org/b']
+    );
+  });
+});
+
+describe('checkMessage', () => {
+  it('passes messages when nothing is restricted', () => {
+    assert.deepEqual(checkMessage('Hello <https://example.com>', rules()), []);
+  });
+
+  it('flags long messages', () => {
+    assert.deepEqual(checkMessage('123456', rules({ maxLength: 5 })), ['Message is longer than 5 characters']);
+    assert.deepEqual(checkMessage('12345', rules({ maxLength: 5 })), []);
+  });
+
+  it('flags blocked words', () => {
+    const blocklist = parseBlocklist(['darn']);
+    assert.deepEqual(checkMessage('oh darn', rules({ blocklist })), ['Message contains blocked words']);
+    assert.deepEqual(checkMessage('oh dear', rules({ blocklist })), []);
+  });
+
+  it('flags links when they are blocked', () => {
+    assert.deepEqual(checkMessage('<https://example.com>', rules({ links: 'block' })), ['Links are not allowed']);
+  });
+
+  it('only lets through links to allowed domains and their subdomains', () => {
+    const allowlist = rules({ links: 'allowlist', allowedDomains: ['example.com'] });
+    assert.deepEqual(checkMessage('<https://docs.example.com/x>', allowlist), []);
+    assert.deepEqual(
+      checkMessage('<https://example.com.evil.org/x> https://notexample.com', allowlist),
+      ['Links to these sites are not allowed: example.com.evil.org, notexample.com']
+    );
+  });
+
+  it('gives every reason a message fails', () => {
+    const reasons = checkMessage('darn <https://example.com>', rules({ blocklist: parseBlocklist(['darn']), links: 'block', maxLength: 10 }));
+    assert.equal(reasons.length, 3);
+  });
+});
@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { buildPollBlocks, parseDuration, parsePollRequest, Poll, PollStore, tallyVotes } from '../src/polls';
+
+function poll(changes: Partial<Poll> = {}): Poll {
+  return {
+    id: 'p1',
+    roomId: 'C1',
+    question: 'Lunch?',
+    options: ['Pizza', 'Sushi'],
+    votes: {},
+    hideResults: false,
+    closed: false,
+    creatorKey: 'creator',
+    createdAt: 0,
+    ...changes
+  };
+}
+
+describe('parseDuration', () => {
+  it('reads minutes, hours and days', () => {
+    assert.equal(parseDuration('30m'), 30 * 60 * 1000);
+    assert.equal(parseDuration(' 2H '), 2 * 60 * 60 * 1000);
+    assert.equal(parseDuration('1d'), 24 * 60 * 60 * 1000);
+  });
+
+  it('rejects zero and anything else', () => {
+    for (const value of ['0m', '2', '1w', 'soon', '']) {
+      assert.equal(parseDuration(value), null, value);
+    }
+  });
+});
+
+describe('parsePollRequest', () => {
+  it('reads the question, options and flags', () => {
+    assert.deepEqual(parsePollRequest('poll "Lunch?" “Pizza” "Sushi" --hidden --close 2h'), {
+      question: 'Lunch?',
+      options: ['Pizza', 'Sushi'],
+      hideResults: true,
+      closeAfterMs: 2 * 60 * 60 * 1000
+    });
+  });
+
+  it('needs a question and two different options', () => {
+    assert.ok('error' in parsePollRequest('"Lunch?" "Pizza"'));
+    assert.ok('error' in parsePollRequest('"Lunch?" "Pizza" "pizza"'));
+  });
+
+  it('rejects unquoted words and bad close times', () => {
+    assert.ok('error' in parsePollRequest('"Lunch?" Pizza "Sushi"'));
+    assert.ok('error' in parsePollRequest('"Lunch?" "Pizza" "Sushi" --close later'));
+  });
+});
+
+describe('tallyVotes', () => {
+  it('counts votes per option and ignores ones for options that are gone', () => {
+    assert.deepEqual(tallyVotes(poll({ votes: { a: 0, b: 1, c: 1, d: 5 } })), [1, 2]);
+  });
+});
+
+describe('buildPollBlocks', () => {
+  it('shows counts and vote buttons while open', () => {
+    const blocks = buildPollBlocks(poll({ votes: { a: 0, b: 1, c: 1 } }));
+    assert.match(blocks[1].text.text, /2 votes \(67%\)/);
+    assert.equal(blocks[1].accessory.value, 'p1:1');
+    assert.equal(blocks[2].elements[0].text, '3 votes');
+  });
+
+  it('hides the results until the poll closes', () => {
+    const hidden = buildPollBlocks(poll({ votes: { a: 0 }, hideResults: true }));
+    assert.equal(hidden[0].text.text, '*Pizza*');
+    assert.match(hidden[2].elements[0].text, /Results are hidden/);
+
+    const closed = buildPollBlocks(poll({ votes: { a: 0 }, hideResults: true, closed: true }));
+    assert.match(closed[0].text.text, /1 vote \(100%\)/);
+    assert.equal(closed[0].accessory, undefined);
+    assert.equal(closed[2].elements[0].text, '1 vote · Poll closed');
+  });
+});
+
+describe('PollStore', () => {
+  let dir: string;
+  let store: PollStore;
+  const request = { question: 'Lunch?', options: ['Pizza', 'Sushi'], hideResults: false };
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'polls-test-'));
+    store = new PollStore(path.join(dir, 'polls.json'));
+  });
+
+  afterEach(async () => {
+    await store.drain();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('keeps one vote per voter, which can be changed or taken back', async () => {
+    const created = await store.create('C1', request, id => `creator-${id}`);
+    assert.equal(created.creatorKey, `creator-${created.id}`);
+
+    assert.equal((await store.vote(created.id, 'voter1', 0))?.choice, 0);
+    assert.equal((await store.vote(created.id, 'voter2', 0))?.choice, 0);
+    assert.equal((await store.vote(created.id, 'voter1', 1))?.choice, 1);
+    const takenBack = await store.vote(created.id, 'voter2', 0);
+    assert.equal(takenBack?.choice, null);
+    assert.deepEqual(tallyVotes(takenBack!.poll), [0, 1]);
+  });
+
+  it('ignores votes for options that don\'t exist', async () => {
+    const created = await store.create('C1', request, () => 'creator');
+    assert.equal(await store.vote(created.id, 'voter1', 2), null);
+    assert.equal(await store.vote('missing', 'voter1', 0), null);
+  });
+
+  it('takes no votes once closed', async () => {
+    const created = await store.create('C1', request, () => 'creator');
+    assert.equal((await store.close(created.id))?.closed, true);
+    assert.equal(await store.close(created.id), null);
+    assert.equal(await store.vote(created.id, 'voter1', 0), null);
+  });
+
+  it('closes polls whose close time has passed', async () => {
+    const timed = await store.create('C1', { ...request, closeAfterMs: 60 * 1000 }, () => 'creator');
+    await store.create('C1', request, () => 'creator');
+
+    assert.deepEqual(await store.closeDue(timed.closesAt! - 1), []);
+    assert.deepEqual((await store.closeDue(timed.closesAt!)).map(closed => closed.id), [timed.id]);
+    assert.deepEqual(await store.closeDue(timed.closesAt! + 1), []);
+  });
+
+  it('keeps votes across restarts', async () => {
+    const created = await store.create('C1', request, () => 'creator');
+    await store.vote(created.id, 'voter1', 1);
+    await store.drain();
+
+    const reloaded = new PollStore(path.join(dir, 'polls.json'));
+    assert.deepEqual((await reloaded.get(created.id))?.votes, { voter1: 1 });
+  });
+
+  it('forgets old polls', async () => {
+    const created = await store.create('C1', request, () => 'creator');
+    assert.equal(await store.pruneOlderThan(60 * 1000, created.createdAt + 1000), 0);
+    assert.equal(await store.pruneOlderThan(60 * 1000, created.createdAt + 61 * 1000), 1);
+    assert.equal(await store.get(created.id), null);
+  });
+});
@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { buildQuestionBlocks, getQaQuestionText, isQaQuestion, QaSession, QaStore, rankQuestions } from '../src/qa';
+
+describe('questions', () => {
+  it('recognizes DMs starting with qa', () => {
+    assert.ok(isQaQuestion('qa What is the roadmap?'));
+    assert.ok(isQaQuestion('  QA   why?'));
+    assert.ok(!isQaQuestion('qa'));
+    assert.ok(!isQaQuestion('quality matters'));
+    assert.equal(getQaQuestionText(' qa  What is the roadmap? '), 'What is the roadmap?');
+  });
+});
+
+describe('rankQuestions', () => {
+  it('puts unanswered questions first, then the most upvoted, then the oldest', () => {
+    const question = (id: string, upvotes: number, answered: boolean, createdAt: number) =>
+      ({ id, conversationId: id, text: id, upvotes: Array.from({ length: upvotes }, (_, i) => `voter${i}`), answered, createdAt });
+    const session: QaSession = {
+      id: 's',
+      channelId: 'C1',
+      hostId: 'U1',
+      open: true,
+      createdAt: 0,
+      questions: {
+        a: question('a', 5, true, 1),
+        b: question('b', 1, false, 2),
+        c: question('c', 3, false, 3),
+        d: question('d', 1, false, 1)
+      }
+    };
+    assert.deepEqual(rankQuestions(session).map(q => q.id), ['c', 'd', 'b', 'a']);
+  });
+});
+
+describe('QaStore', () => {
+  let dir: string;
+  let store: QaStore;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'qa-test-'));
+    store = new QaStore(path.join(dir, 'qa.json'));
+  });
+
+  afterEach(async () => {
+    await store.drain();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('keeps one open session per channel', async () => {
+    const session = await store.start('C1', 'U1');
+    assert.ok(session);
+    assert.equal(await store.start('C1', 'U2'), null);
+    assert.ok(await store.start('C2', 'U2'));
+    assert.equal((await store.getOpen('C1'))?.id, session.id);
+    assert.equal((await store.listOpen()).length, 2);
+  });
+
+  it('toggles upvotes once per voter', async () => {
+    const session = (await store.start('C1', 'U1'))!;
+    const question = (await store.addQuestion(session.id, 'conv', 'Why?'))!;
+
+    assert.equal((await store.toggleUpvote(session.id, question.id, 'voter1'))?.upvoted, true);
+    assert.equal((await store.toggleUpvote(session.id, question.id, 'voter2'))?.upvoted, true);
+    const taken = await store.toggleUpvote(session.id, question.id, 'voter1');
+    assert.equal(taken?.upvoted, false);
+    assert.deepEqual(taken?.question.upvotes, ['voter2']);
+  });
+
+  it('stops upvotes on answered questions', async () => {
+    const session = (await store.start('C1', 'U1'))!;
+    const question = (await store.addQuestion(session.id, 'conv', 'Why?'))!;
+    assert.ok(await store.markAnswered(session.id, question.id));
+    assert.equal(await store.markAnswered(session.id, question.id), null);
+    assert.equal(await store.toggleUpvote(session.id, question.id, 'voter1'), null);
+  });
+
+  it('takes no questions or upvotes once stopped', async () => {
+    const session = (await store.start('C1', 'U1'))!;
+    const question = (await store.addQuestion(session.id, 'conv', 'Why?'))!;
+    const stopped = await store.stop('C1');
+
+    assert.equal(stopped?.open, false);
+    assert.equal(await store.stop('C1'), null);
+    assert.equal(await store.getOpen('C1'), null);
+    assert.equal(await store.addQuestion(session.id, 'conv2', 'And now?'), null);
+    assert.equal(await store.toggleUpvote(session.id, question.id, 'voter1'), null);
+    assert.ok(await store.start('C1', 'U2'), 'a new session can start');
+  });
+
+  it('keeps sessions across restarts', async () => {
+    const session = (await store.start('C1', 'U1'))!;
+    await store.addQuestion(session.id, 'conv', 'Why?');
+    await store.drain();
+
+    const reloaded = new QaStore(path.join(dir, 'qa.json'));
+    assert.equal(Object.keys((await reloaded.get(session.id))!.questions).length, 1);
+  });
+
+  it('forgets sessions closed long enough ago', async () => {
+    await store.start('C1', 'U1');
+    await store.start('C2', 'U1');
+    const closed = (await store.stop('C1'))!;
+
+    assert.equal(await store.pruneClosed(60 * 1000, closed.closedAt! + 1000), 0);
+    assert.equal(await store.pruneClosed(60 * 1000, closed.closedAt! + 61 * 1000), 1);
+    assert.equal(await store.get(closed.id), null);
+    assert.equal((await store.listOpen()).length, 1);
+  });
+});
+
+describe('buildQuestionBlocks', () => {
+  const session: QaSession = { id: 's', channelId: 'C1', hostId: 'U1', open: true, createdAt: 0, questions: {} };
+  const question = { id: 'q', conversationId: 'c', text: 'Why?', upvotes: ['v'], answered: false, createdAt: 0 };
+
+  it('offers an upvote button while the question can be voted on', () => {
+    const blocks = buildQuestionBlocks(session, question);
+    assert.equal(blocks[0].elements[0].text, '1 upvote');
+    assert.equal(blocks[1].elements[0].value, 's:q');
+  });
+
+  it('removes the button once answered or the session ended', () => {
+    assert.deepEqual(buildQuestionBlocks(session, { ...question, answered: true }).map(block => block.type), ['context']);
+    const ended = buildQuestionBlocks({ ...session, open: false }, question);
+    assert.equal(ended.length, 1);
+    assert.equal(ended[0].elements[0].text, 'Q&A ended · 1 upvote');
+  });
+});
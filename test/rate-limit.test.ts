@@ -0,0 +1,89 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { formatRetryAfter, RateLimiter, RateLimitOptions } from '../src/rate-limit';
+
+const MINUTE_MS = 60 * 1000;
+
+function limiter(changes: Partial<RateLimitOptions> = {}): RateLimiter {
+  return new RateLimiter({ perMinute: 5, perHour: 30, burst: 3, duplicateLimit: 0, duplicateCooldownMs: MINUTE_MS, ...changes });
+}
+
+describe('RateLimiter', () => {
+  it('allows a burst, then waits for the bucket to refill', () => {
+    const rateLimiter = limiter();
+    for (let i = 0; i < 3; i++) {
+      assert.deepEqual(rateLimiter.take('U1', `message ${i}`, 0), { allowed: true });
+    }
+    const result = rateLimiter.take('U1', 'message 3', 0);
+    assert.equal(result.allowed, false);
+    assert.equal(!result.allowed && result.retryAfterMs, MINUTE_MS / 5);
+    assert.deepEqual(rateLimiter.take('U1', 'message 3', MINUTE_MS / 5), { allowed: true });
+  });
+
+  it('limits every sender separately', () => {
+    const rateLimiter = limiter({ burst: 1 });
+    assert.deepEqual(rateLimiter.take('U1', 'hi', 0), { allowed: true });
+    assert.deepEqual(rateLimiter.take('U2', 'hi', 0), { allowed: true });
+    assert.equal(rateLimiter.take('U1', 'hi again', 0).allowed, false);
+  });
+
+  it('caps messages per hour', () => {
+    const rateLimiter = limiter({ perMinute: 60, perHour: 2, burst: 10 });
+    assert.ok(rateLimiter.take('U1', 'a', 0).allowed);
+    assert.ok(rateLimiter.take('U1', 'b', MINUTE_MS).allowed);
+    const result = rateLimiter.take('U1', 'c', 2 * MINUTE_MS);
+    assert.equal(!result.allowed && result.retryAfterMs, 58 * MINUTE_MS);
+    assert.ok(rateLimiter.take('U1', 'c', 60 * MINUTE_MS + 1).allowed);
+  });
+
+  it('doesn\'t limit what is set to 0', () => {
+    const rateLimiter = limiter({ perMinute: 0, perHour: 0, burst: 1 });
+    for (let i = 0; i < 50; i++) {
+      assert.ok(rateLimiter.take('U1', `message ${i}`, 0).allowed);
+    }
+  });
+
+  it('doesn\'t hold sending without a limit against senders once it is turned on', () => {
+    const rateLimiter = limiter({ perMinute: 0, perHour: 0, burst: 3 });
+    for (let i = 0; i < 50; i++) {
+      assert.ok(rateLimiter.take('U1', `message ${i}`, 0).allowed);
+    }
+    rateLimiter.setOptions({ perMinute: 5, perHour: 0, burst: 3, duplicateLimit: 0, duplicateCooldownMs: MINUTE_MS });
+    for (let i = 0; i < 3; i++) {
+      assert.ok(rateLimiter.take('U1', `again ${i}`, 0).allowed);
+    }
+    const result = rateLimiter.take('U1', 'one more', 0);
+    assert.equal(!result.allowed && result.retryAfterMs, MINUTE_MS / 5);
+  });
+
+  it('cools down senders repeating the same text', () => {
+    const rateLimiter = limiter({ perMinute: 60, burst: 10, duplicateLimit: 2 });
+    assert.ok(rateLimiter.take('U1', 'Same', 0).allowed);
+    assert.ok(rateLimiter.take('U1', ' same ', 1000).allowed);
+    assert.equal(rateLimiter.take('U1', 'same', 2000).allowed, false);
+    assert.equal(rateLimiter.take('U1', 'something else', 3000).allowed, false);
+    assert.ok(rateLimiter.take('U1', 'something else', 2000 + MINUTE_MS).allowed);
+  });
+
+  it('doesn\'t count file-only messages as repeats', () => {
+    const rateLimiter = limiter({ perMinute: 60, burst: 10, duplicateLimit: 1 });
+    assert.ok(rateLimiter.take('U1', '', 0).allowed);
+    assert.ok(rateLimiter.take('U1', '', 1000).allowed);
+  });
+
+  it('applies new limits to senders it already knows', () => {
+    const rateLimiter = limiter({ burst: 1 });
+    assert.ok(rateLimiter.take('U1', 'a', 0).allowed);
+    rateLimiter.setOptions({ perMinute: 0, perHour: 0, burst: 1, duplicateLimit: 0, duplicateCooldownMs: 0 });
+    assert.ok(rateLimiter.take('U1', 'b', 0).allowed);
+  });
+});
+
+describe('formatRetryAfter', () => {
+  it('rounds up to seconds or minutes', () => {
+    assert.equal(formatRetryAfter(0), '1 second');
+    assert.equal(formatRetryAfter(1500), '2 seconds');
+    assert.equal(formatRetryAfter(60 * 1000), '1 minute');
+    assert.equal(formatRetryAfter(61 * 1000), '2 minutes');
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  findIdentifyingContent,
+  findMentionedUserIds,
+  neutralizeBroadcasts,
+  renderMentionsAsNames,
+  SenderIdentity
+} from '../src/sanitize';
+
+const sender: SenderIdentity = {
+  userId: 'U123',
+  names: ['sam', 'Sam Jones', 'Sam'],
+  email: 'sam@example.com'
+};
+
+describe('neutralizeBroadcasts', () => {
+  it('turns broadcasts into plain text', () => {
+    assert.equal(neutralizeBroadcasts('<!here> <!channel|channel> <!everyone>'), '@here @channel @everyone');
+  });
+
+  it('turns user group mentions into plain text', () => {
+    assert.equal(neutralizeBroadcasts('<!subteam^S123|@devs> and <!subteam^S456>'), '@devs and @group');
+  });
+
+  it('leaves user mentions alone', () => {
+    assert.equal(neutralizeBroadcasts('hi <@U123>'), 'hi <@U123>');
+  });
+});
+
+describe('mentions', () => {
+  it('finds each mentioned user once', () => {
+    assert.deepEqual(findMentionedUserIds('<@U1> <@W2|bob> <@U1> <#C3>'), ['U1', 'W2']);
+  });
+
+  it('writes mentions out as names', () => {
+    assert.equal(renderMentionsAsNames('hi <@U1> and <@U2|bob>', { U1: 'alice' }), 'hi @alice and @someone');
+  });
+});
+
+describe('findIdentifyingContent', () => {
+  it('finds nothing in a plain message', () => {
+    assert.deepEqual(findIdentifyingContent('The coffee machine is broken again.', sender), []);
+  });
+
+  it('notices the sender mentioning themselves', () => {
+    assert.deepEqual(findIdentifyingContent('ask <@U123> about it', sender), ['it mentions you']);
+  });
+
+  it('notices the sender\'s name as a whole word', () => {
+    assert.deepEqual(findIdentifyingContent('as sam said yesterday', sender), ['it contains your name ("sam")']);
+    assert.deepEqual(findIdentifyingContent('the sample is ready', sender), []);
+  });
+
+  it('ignores names too short to tell anything', () => {
+    assert.deepEqual(findIdentifyingContent('go ahead', { userId: 'U1', names: ['go'] }), []);
+  });
+
+  it('notices the sender\'s email address', () => {
+    assert.deepEqual(findIdentifyingContent('mail SAM@example.com for details', { ...sender, names: [] }), ['it contains your email address']);
+  });
+
+  it('notices signatures', () => {
+    const anonymous = { userId: 'U1', names: [] };
+    assert.deepEqual(findIdentifyingContent('See you there\n-- Alex', anonymous), ['it ends with what looks like a signature']);
+    assert.deepEqual(findIdentifyingContent('See you there\n\nThanks,\nAlex', anonymous), ['it ends with what looks like a signature']);
+    assert.deepEqual(findIdentifyingContent('See you there. Cheers, Alex', anonymous), ['it ends with what looks like a signature']);
+    assert.deepEqual(findIdentifyingContent('Thanks for fixing the printer', anonymous), []);
+  });
+});
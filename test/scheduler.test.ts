@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { DeliveryQueue, getJitteredDelay, ScheduledPayload, shuffle } from '../src/scheduler';
+
+function dm(channel: string, ts: string): ScheduledPayload {
+  return { kind: 'dm', roomId: 'C1', text: 'hello', message: { user: 'U1', channel, ts } };
+}
+
+describe('getJitteredDelay', () => {
+  it('stays within the window', () => {
+    for (let i = 0; i < 100; i++) {
+      const delay = getJitteredDelay(10, 20);
+      assert.ok(delay >= 10 && delay <= 20, String(delay));
+    }
+  });
+
+  it('uses the minimum when the window is empty', () => {
+    assert.equal(getJitteredDelay(5, 5), 5);
+    assert.equal(getJitteredDelay(5, 0), 5);
+  });
+});
+
+describe('shuffle', () => {
+  it('keeps every item', () => {
+    const items = Array.from({ length: 20 }, (_, i) => i);
+    assert.deepEqual([...shuffle([...items])].sort((a, b) => a - b), items);
+  });
+});
+
+describe('DeliveryQueue', () => {
+  let dir: string;
+  let queue: DeliveryQueue;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'scheduler-test-'));
+    queue = new DeliveryQueue(path.join(dir, 'delivery-queue.json'));
+  });
+
+  afterEach(async () => {
+    await queue.drain();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('hands out deliveries once they are due, and only once', async () => {
+    const soon = await queue.add('U1', 1000, dm('D1', '1.000001'));
+    await queue.add('U1', 2000, dm('D1', '1.000002'));
+
+    assert.deepEqual(await queue.takeDue(999), []);
+    assert.deepEqual((await queue.takeDue(1500)).map(delivery => delivery.id), [soon.id]);
+    assert.deepEqual(await queue.takeDue(1500), []);
+    assert.equal((await queue.takeDue(2000)).length, 1);
+  });
+
+  it('lists a sender\'s deliveries soonest first', async () => {
+    const later = await queue.add('U1', 2000, dm('D1', '1.000001'));
+    const sooner = await queue.add('U1', 1000, dm('D1', '1.000002'));
+    await queue.add('U2', 500, { kind: 'send', channelId: 'C2', text: 'hi' });
+
+    assert.deepEqual((await queue.listForUser('U1')).map(delivery => delivery.id), [sooner.id, later.id]);
+  });
+
+  it('finds the delivery of a DM', async () => {
+    const delivery = await queue.add('U1', 1000, dm('D1', '1.000001'));
+
+    assert.equal((await queue.findByMessage('D1', '1.000001'))?.id, delivery.id);
+    assert.equal(await queue.findByMessage('D1', '1.000002'), null);
+  });
+
+  it('reschedules and cancels pending deliveries', async () => {
+    const delivery = await queue.add('U1', 1000, dm('D1', '1.000001'));
+
+    assert.equal((await queue.update(delivery.id, { dueAt: 5000 }))?.dueAt, 5000);
+    assert.deepEqual(await queue.takeDue(1000), []);
+    assert.equal((await queue.remove(delivery.id))?.id, delivery.id);
+    assert.equal(await queue.remove(delivery.id), null);
+    assert.equal(await queue.update(delivery.id, { dueAt: 1 }), null);
+  });
+
+  it('keeps pending deliveries across restarts', async () => {
+    const delivery = await queue.add('U1', 1000, dm('D1', '1.000001'));
+    await queue.drain();
+
+    const reloaded = new DeliveryQueue(path.join(dir, 'delivery-queue.json'));
+    assert.deepEqual(await reloaded.get(delivery.id), delivery);
+  });
+});
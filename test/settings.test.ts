@@ -0,0 +1,108 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateEscrowKey } from '../src/escrow';
+import {
+  DEFAULT_RUNTIME_SETTINGS,
+  findSetting,
+  getEscrowAdmins,
+  parseBooleanValue,
+  parseEnumValue,
+  parseListValue,
+  parseNumberValue,
+  parseUserListValue
+} from '../src/settings';
+
+describe('parseBooleanValue', () => {
+  it('accepts booleans and on/off words', () => {
+    assert.deepEqual(parseBooleanValue(true), { value: true });
+    assert.deepEqual(parseBooleanValue(' ON '), { value: true });
+    assert.deepEqual(parseBooleanValue('no'), { value: false });
+    assert.deepEqual(parseBooleanValue('0'), { value: false });
+  });
+
+  it('rejects anything else', () => {
+    assert.ok('error' in parseBooleanValue('maybe'));
+  });
+});
+
+describe('parseNumberValue', () => {
+  it('accepts whole numbers given as numbers or text', () => {
+    assert.deepEqual(parseNumberValue(5), { value: 5 });
+    assert.deepEqual(parseNumberValue(' 12 '), { value: 12 });
+    assert.deepEqual(parseNumberValue('0'), { value: 0 });
+  });
+
+  it('rejects empty text, fractions and non-numbers', () => {
+    for (const value of ['', '  ', '1.5', 'ten', NaN]) {
+      assert.ok('error' in parseNumberValue(value), String(value));
+    }
+  });
+
+  it('rejects numbers below the minimum', () => {
+    assert.deepEqual(parseNumberValue('0', 1), { error: 'must be a whole number of at least 1' });
+    assert.deepEqual(parseNumberValue('1', 1), { value: 1 });
+  });
+});
+
+describe('parseListValue', () => {
+  it('splits comma-separated text and drops empty entries', () => {
+    assert.deepEqual(parseListValue(' a, b ,,c '), { value: ['a', 'b', 'c'] });
+    assert.deepEqual(parseListValue(''), { value: [] });
+  });
+
+  it('accepts arrays', () => {
+    assert.deepEqual(parseListValue([' a', 'b ', '']), { value: ['a', 'b'] });
+  });
+});
+
+describe('parseEnumValue', () => {
+  it('accepts one of the values, ignoring case', () => {
+    assert.deepEqual(parseEnumValue(' Block ', ['allow', 'block'] as const), { value: 'block' });
+    assert.ok('error' in parseEnumValue('deny', ['allow', 'block'] as const));
+  });
+});
+
+describe('parseUserListValue', () => {
+  it('accepts user IDs and mentions separated by commas or spaces', () => {
+    assert.deepEqual(parseUserListValue('U1A, <@U2B|jane> <@W3C>'), { value: ['U1A', 'U2B', 'W3C'] });
+    assert.deepEqual(parseUserListValue(''), { value: [] });
+  });
+
+  it('rejects anything else', () => {
+    assert.ok('error' in parseUserListValue('@jane'));
+    assert.ok('error' in parseUserListValue('<#C123>'));
+  });
+});
+
+describe('settings', () => {
+  const blocklist = findSetting('blocklist')!;
+
+  it('keeps commas inside blocklist regular expressions', () => {
+    assert.deepEqual(blocklist.parse('foo, /a{1,3}/i'), { value: ['foo', '/a{1,3}/i'] });
+  });
+
+  it('keeps blocklists given as arrays as they are', () => {
+    assert.deepEqual(blocklist.parse(['foo, bar', ' baz ', '']), { value: ['foo, bar', 'baz'] });
+  });
+
+  it('rejects blocklists with invalid regular expressions', () => {
+    assert.ok('error' in blocklist.parse('foo, /a(/'));
+  });
+
+  it('lets rate limits be turned off with 0', () => {
+    assert.deepEqual(findSetting('rate-per-minute')!.parse('0'), { value: 0 });
+    assert.deepEqual(findSetting('rate-per-hour')!.parse('0'), { value: 0 });
+  });
+
+  it('accepts only valid escrow keys', () => {
+    const { publicKey } = generateEscrowKey(3, 2);
+    assert.deepEqual(findSetting('escrow-key')!.parse(` ${publicKey} `), { value: publicKey });
+    assert.ok('error' in findSetting('escrow-key')!.parse('not a key'));
+  });
+
+  it('lets the moderation admins handle escrow unless escrow admins are set', () => {
+    const settings = { ...DEFAULT_RUNTIME_SETTINGS, moderationAdmins: ['U1'] };
+    assert.deepEqual(getEscrowAdmins(settings), ['U1']);
+    assert.deepEqual(getEscrowAdmins({ ...settings, escrowAdmins: ['U2'] }), ['U2']);
+  });
+});
@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { formatTranscript, getMentionedUserIds, toPlainText, Transcript, TranscriptStore } from '../src/transcripts';
+
+const SENT_AT = Date.UTC(2024, 0, 2, 3, 4);
+
+function entry(text: string, isReply: boolean, sentAt: number = SENT_AT) {
+  return { label: isReply ? 'Anon Otter' : 'Anonymous', text, isReply, attachments: 0, sentAt };
+}
+
+describe('toPlainText', () => {
+  it('writes mentions out by name and unwraps links', () => {
+    assert.equal(
+      toPlainText('Hi <@U1>, <@W2|old> and <!here>: see <#C1|general>, <https://a.example|this> or <https://b.example>', { U1: 'jane' }),
+      'Hi @jane, @someone and @here: see #general, this (https://a.example) or https://b.example'
+    );
+  });
+
+  it('unescapes HTML entities', () => {
+    assert.equal(toPlainText('a &lt;b&gt; &amp;amp;', {}), 'a <b> &amp;');
+  });
+});
+
+describe('getMentionedUserIds', () => {
+  it('lists each mentioned user once', () => {
+    const transcript: Transcript = {
+      entries: [{ id: 'a', ...entry('<@U1> and <@U2|bob>', false) }, { id: 'b', ...entry('<@U1> again', true) }],
+      updatedAt: SENT_AT
+    };
+    assert.deepEqual(getMentionedUserIds(transcript), ['U1', 'U2']);
+  });
+});
+
+describe('formatTranscript', () => {
+  const transcript: Transcript = {
+    entries: [
+      { id: 'a', ...entry('Hello <@U1>', false) },
+      { ...entry('', true, SENT_AT + 60 * 1000), id: 'b', attachments: 2, editedAt: SENT_AT + 120 * 1000 }
+    ],
+    updatedAt: SENT_AT
+  };
+  const details = { code: 'abcd1234', roomName: 'general', exportedAt: SENT_AT };
+
+  it('renders Markdown with labels, times and attachment counts', () => {
+    assert.equal(formatTranscript(transcript, 'markdown', details, { U1: 'jane' }), [
+      '# Anonymous conversation abcd1234',
+      '',
+      'Room: #general · Exported 2024-01-02 03:04 UTC',
+      '',
+      '---',
+      '',
+      '**Anonymous** (original post) · 2024-01-02 03:04 UTC',
+      '',
+      'Hello @jane',
+      '',
+      '---',
+      '',
+      '**Anon Otter** · 2024-01-02 03:05 UTC (edited)',
+      '',
+      '_No text_',
+      '',
+      '_2 attachments not included_',
+      ''
+    ].join('\n'));
+  });
+
+  it('renders JSON', () => {
+    const exported = JSON.parse(formatTranscript(transcript, 'json', { ...details, roomName: undefined }, {}));
+    assert.equal(exported.conversation, 'abcd1234');
+    assert.equal(exported.room, undefined);
+    assert.deepEqual(exported.messages[0], {
+      label: 'Anonymous',
+      text: 'Hello @someone',
+      reply: false,
+      attachments: 0,
+      sentAt: '2024-01-02T03:04:00.000Z'
+    });
+    assert.equal(exported.messages[1].editedAt, '2024-01-02T03:06:00.000Z');
+  });
+});
+
+describe('TranscriptStore', () => {
+  let dir: string;
+  let store: TranscriptStore;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'transcripts-test-'));
+    store = new TranscriptStore(path.join(dir, 'transcripts.json'));
+  });
+
+  afterEach(async () => {
+    await store.drain();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('keeps messages oldest first and follows edits and deletions', async () => {
+    const later = await store.append('code', 'C1', entry('second', true, SENT_AT + 1000));
+    const first = await store.append('code', null, entry('first', false));
+    await store.update('code', later, 'second, edited', 1);
+
+    const transcript = (await store.get('code'))!;
+    assert.equal(transcript.roomId, 'C1');
+    assert.deepEqual(transcript.entries.map(e => e.text), ['first', 'second, edited']);
+    assert.equal(transcript.entries[1].attachments, 1);
+    assert.ok(transcript.entries[1].editedAt);
+
+    await store.remove('code', first);
+    await store.remove('code', later);
+    assert.equal(await store.get('code'), null, 'a log without messages is dropped');
+  });
+
+  it('merges participants in sorted order', async () => {
+    await store.append('code', 'C1', entry('hi', false), ['starter', 'b']);
+    await store.append('code', 'C1', entry('hello', true), ['b', 'a']);
+    assert.deepEqual((await store.get('code'))?.participants, ['a', 'b', 'starter']);
+  });
+
+  it('forgets logs without messages for longer than the retention', async () => {
+    await store.append('old', 'C1', entry('hi', false, SENT_AT));
+    await store.append('new', 'C1', entry('hi', false, SENT_AT + 60 * 1000));
+
+    assert.equal(await store.pruneOlderThan(30 * 1000, SENT_AT + 61 * 1000), 1);
+    assert.equal(await store.get('old'), null);
+    assert.ok(await store.get('new'));
+  });
+
+  it('keeps logs across restarts', async () => {
+    await store.append('code', 'C1', entry('hi', false));
+    await store.drain();
+
+    const reloaded = new TranscriptStore(path.join(dir, 'transcripts.json'));
+    assert.equal((await reloaded.get('code'))?.entries[0].text, 'hi');
+  });
+});
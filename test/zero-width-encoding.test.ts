@@ -0,0 +1,69 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  decodeFramedZeroWidth,
+  decodeNumberFromZeroWidth,
+  decodeTimestampFromZeroWidth,
+  encodeFramedZeroWidth,
+  encodeNumberToZeroWidth,
+  encodeTimestampToZeroWidth,
+  findFramedZeroWidth,
+  ZERO_WIDTH_NON_JOINER,
+  ZERO_WIDTH_SPACE
+} from '../src/zero-width-encoding';
+
+describe('timestamps', () => {
+  it('round-trips Slack timestamps', () => {
+    for (const ts of ['1647531461.000100', '1647531461.000000', '1700000000.999999', '0.000001']) {
+      assert.equal(decodeTimestampFromZeroWidth(encodeTimestampToZeroWidth(ts)), ts);
+    }
+  });
+
+  it('rejects timestamps it could not restore exactly', () => {
+    for (const ts of ['1647531461', '1647531461.0001', '1647531461.0001000', '01647531461.000100', '', 'abc']) {
+      assert.throws(() => encodeTimestampToZeroWidth(ts), /Invalid timestamp/, ts);
+    }
+  });
+
+  it('gives different timestamps different encodings', () => {
+    assert.notEqual(encodeTimestampToZeroWidth('1647531461.000100'), encodeTimestampToZeroWidth('1647531461.000101'));
+  });
+});
+
+describe('framed values', () => {
+  it('round-trips values beyond the safe integer range', () => {
+    const value = BigInt(Number.MAX_SAFE_INTEGER) * 1000n + 7n;
+    assert.equal(decodeFramedZeroWidth(encodeFramedZeroWidth(value)), value);
+  });
+
+  it('rejects a value with a flipped bit', () => {
+    const encoded = encodeFramedZeroWidth(123456789n);
+    const chars = [...encoded];
+    chars[8] = chars[8] === ZERO_WIDTH_SPACE ? ZERO_WIDTH_NON_JOINER : ZERO_WIDTH_SPACE;
+    assert.equal(decodeFramedZeroWidth(chars.join('')), null);
+  });
+
+  it('rejects values without their frame', () => {
+    const encoded = encodeFramedZeroWidth(42n);
+    assert.equal(decodeFramedZeroWidth(encoded.slice(1)), null);
+    assert.equal(decodeFramedZeroWidth(encoded.slice(0, -1)), null);
+  });
+
+  it('finds framed values inside text and skips broken ones', () => {
+    const good = encodeTimestampToZeroWidth('1647531461.000100');
+    const broken = encodeFramedZeroWidth(99n).slice(0, -2) + encodeFramedZeroWidth(99n).slice(-1);
+    assert.deepEqual(findFramedZeroWidth(`Hello ${broken} there ${good}!`), [good]);
+  });
+});
+
+describe('plain numbers', () => {
+  it('round-trips numbers and bigints', () => {
+    assert.equal(decodeNumberFromZeroWidth(encodeNumberToZeroWidth(1234)), 1234n);
+    assert.equal(decodeNumberFromZeroWidth(encodeNumberToZeroWidth(2n ** 70n)), 2n ** 70n);
+  });
+
+  it('rejects empty and foreign input', () => {
+    assert.throws(() => decodeNumberFromZeroWidth(''));
+    assert.throws(() => decodeNumberFromZeroWidth('x'));
+  });
+});